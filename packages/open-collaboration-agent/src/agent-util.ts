@@ -5,8 +5,26 @@
 // ******************************************************************************
 
 import { Deferred } from 'open-collaboration-protocol';
+import type { AuthMetadata } from 'open-collaboration-protocol';
 import type { IDocumentSync } from './document-sync.js';
 
+/**
+ * Returns the lines that tell users how to log in, preferring the user code of the device authorization flow.
+ */
+export function getLoginInstructions(authMetadata: AuthMetadata): string[] {
+    if (authMetadata.userCode && authMetadata.verificationUrl) {
+        const lines = [`Please open ${authMetadata.verificationUrl} on any device and enter the code ${authMetadata.userCode} to log in.`];
+        if (authMetadata.verificationUrlComplete) {
+            lines.push(`Alternatively, open ${authMetadata.verificationUrlComplete}`);
+        }
+        return lines;
+    }
+    return [
+        'Please open the following URL in your browser to log in:',
+        authMetadata.loginPageUrl ?? ''
+    ];
+}
+
 /**
  * Applies the text region changes returned by the LLM to the document.
  */
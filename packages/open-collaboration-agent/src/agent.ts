@@ -9,39 +9,52 @@ import { ConnectionProvider, SocketIoTransportProvider, initializeProtocol } fro
 import type { ConnectionProviderOptions, Peer } from 'open-collaboration-protocol';
 import { DocumentSync, DocumentChange } from './document-sync.js';
 import { executePrompt } from './prompt.js';
-import { animateLoadingIndicator, applyChanges } from './agent-util.js';
+import { animateLoadingIndicator, applyChanges, getLoginInstructions } from './agent-util.js';
 
 export interface AgentOptions {
     server: string
     room: string
     model: string
+    token?: string
 }
 
 export async function startCLIAgent(options: AgentOptions): Promise<void> {
     initializeProtocol({ cryptoModule: webcrypto });
 
+    const accessToken = options.token ?? process.env.OCT_TOKEN;
     const cpOptions: ConnectionProviderOptions = {
         url: options.server,
+        userToken: accessToken,
         fetch: globalThis.fetch,
         transports: [SocketIoTransportProvider],
+        // The agent usually runs in a terminal, possibly on a remote machine without a browser
+        useDeviceFlow: true,
         authenticationHandler: async (token, authMetadata) => {
-            console.log('Please open the following URL in your browser to log in:');
-            console.log(authMetadata.loginPageUrl);
+            for (const line of getLoginInstructions(authMetadata)) {
+                console.log(line);
+            }
             return true;
         }
     };
 
     // Log in to the server
     const connectionProvider = new ConnectionProvider(cpOptions);
-    await connectionProvider.login({
-        reporter: (info) => {
-            if (info.code === 'PerformingLogin') {
-                console.log('⚙️ Starting login process...');
-            } else if (info.code === 'AwaitingServerResponse') {
-                console.log('⚙️ Waiting for server response...');
-            }
+    if (accessToken) {
+        // Don't fall back to an interactive login, headless agents cannot complete it
+        if (!await connectionProvider.validate()) {
+            throw new Error('The provided access token is not valid');
         }
-    });
+    } else {
+        await connectionProvider.login({
+            reporter: (info) => {
+                if (info.code === 'PerformingLogin') {
+                    console.log('⚙️ Starting login process...');
+                } else if (info.code === 'AwaitingServerResponse') {
+                    console.log('⚙️ Waiting for server response...');
+                }
+            }
+        });
+    }
     console.log('✅ Login successful');
 
     // Join the room
@@ -16,6 +16,7 @@ program
     .option('-s, --server <string>', 'URL of the Open Collaboration Server to connect to', 'https://api.open-collab.tools/')
     .option('-m, --model <string>', 'LLM model to use (e.g. claude-3-5-sonnet-latest, gpt-4o)', 'claude-3-5-sonnet-latest')
     .requiredOption('-r, --room <string>', 'Room ID to join')
+    .option('-t, --token <string>', 'Personal access token used instead of an interactive login. Defaults to the OCT_TOKEN environment variable')
     .action(options => startCLIAgent(options).catch(console.error));
 
 program.parse();
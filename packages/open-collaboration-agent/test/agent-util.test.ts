@@ -5,7 +5,7 @@
 // ******************************************************************************
 
 import { describe, expect, test, vi, beforeEach, afterEach } from 'vitest';
-import { applyChanges } from '../src/agent-util.js';
+import { applyChanges, getLoginInstructions } from '../src/agent-util.js';
 import type { IDocumentSync } from '../src/document-sync.js';
 
 describe('agent-util', () => {
@@ -196,4 +196,28 @@ describe('agent-util', () => {
             expect(call.length).toBe(22);
         });
     });
+
+    describe('getLoginInstructions', () => {
+        test('should show the user code of the device flow', () => {
+            const lines = getLoginInstructions({
+                providers: [],
+                loginPageUrl: 'https://oct.example.com/login.html?token=secret',
+                userCode: 'BCDF-GHJK',
+                verificationUrl: 'https://oct.example.com/login.html',
+                verificationUrlComplete: 'https://oct.example.com/login.html?code=BCDF-GHJK'
+            });
+            expect(lines).toEqual([
+                'Please open https://oct.example.com/login.html on any device and enter the code BCDF-GHJK to log in.',
+                'Alternatively, open https://oct.example.com/login.html?code=BCDF-GHJK'
+            ]);
+        });
+
+        test('should fall back to the login page URL', () => {
+            const lines = getLoginInstructions({ providers: [], loginPageUrl: 'https://oct.example.com/login.html?token=secret' });
+            expect(lines).toEqual([
+                'Please open the following URL in your browser to log in:',
+                'https://oct.example.com/login.html?token=secret'
+            ]);
+        });
+    });
 });
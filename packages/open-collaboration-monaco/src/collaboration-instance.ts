@@ -50,6 +50,10 @@ export class CollaborationInstance implements Disposable {
     protected _fileName: string;
     protected previousFileName?: string;
     protected _workspaceName: string;
+    protected _isHost: boolean;
+    protected _host?: types.Peer;
+    protected _permissions: types.Permissions = { readonly: false };
+    protected ownPeerId?: string;
 
     protected connection: ProtocolBroadcastConnection;
 
@@ -66,11 +70,15 @@ export class CollaborationInstance implements Disposable {
     }
 
     get isHost(): boolean {
-        return this.options.host;
+        return this._isHost;
     }
 
     get host(): types.Peer | undefined {
-        return 'host' in this.options.roomClaim ? this.options.roomClaim.host : undefined;
+        return this._host;
+    }
+
+    get permissions(): types.Permissions {
+        return this._permissions;
     }
 
     get roomId(): string {
@@ -106,9 +114,13 @@ export class CollaborationInstance implements Disposable {
 
     constructor(protected options: CollaborationInstanceOptions) {
         this.connection = options.connection;
+        this._isHost = options.host;
+        this._host = 'host' in options.roomClaim ? options.roomClaim.host : undefined;
         this.yjsAwareness = new awarenessProtocol.Awareness(this.yjs);
         this.yjsProvider = new OpenCollaborationYjsProvider(this.options.connection, this.yjs, this.yjsAwareness, {
-            resyncTimer: 10_000
+            resyncTimer: 10_000,
+            // Discard changes of guests that are not allowed to modify all of the updated documents
+            acceptUpdates: (origin, documents) => this.isHostPeer(origin) || documents.every(path => types.Permissions.canWrite(this._permissions, origin, path))
         });
         this.yjsProvider.connect();
 
@@ -133,21 +145,55 @@ export class CollaborationInstance implements Disposable {
 
         this.connection.room.onJoin(async (_, peer) => {
             this.peers.set(peer.id, new DisposablePeer(this.yjsAwareness, peer));
-            const initData: types.InitData = {
-                protocol: '0.0.1',
-                host: await this.identity.promise,
-                guests: Array.from(this.peers.values()).map(e => e.peer),
-                capabilities: {},
-                permissions: { readonly: false },
-                workspace: {
-                    name: this.workspaceName,
-                    folders: [this.workspaceName]
-                }
-            };
-            this.connection.peer.init(peer.id, initData);
+            if (this._isHost) {
+                // Only the host initializes new peers
+                const initData: types.InitData = {
+                    protocol: '0.0.1',
+                    host: await this.identity.promise,
+                    guests: Array.from(this.peers.values()).map(e => e.peer),
+                    capabilities: {},
+                    permissions: this._permissions,
+                    workspace: {
+                        name: this.workspaceName,
+                        folders: [this.workspaceName]
+                    }
+                };
+                this.connection.peer.init(peer.id, initData);
+            }
             this.notifyUsersChanged();
         });
 
+        this.connection.room.onHostChange(async (_, host) => {
+            for (const { peer } of this.peers.values()) {
+                peer.host = peer.id === host.id;
+            }
+            const identity = await this.identity.promise;
+            identity.host = identity.id === host.id;
+            this._isHost = identity.host;
+            this._host = host;
+            this.notifyUsersChanged();
+        });
+
+        this.connection.room.onPermissions((origin, permissions) => {
+            if (this.isHostPeer(origin) || this.isCoHost(origin)) {
+                this._permissions = permissions;
+                this.updateReadOnlyState();
+            }
+        });
+
+        this.connection.room.onRoleUpdate((origin, peerId, role) => {
+            if (this.isHostPeer(origin) || this.isCoHost(origin)) {
+                this._permissions = {
+                    ...this._permissions,
+                    roles: {
+                        ...this._permissions.roles,
+                        [peerId]: role
+                    }
+                };
+                this.updateReadOnlyState();
+            }
+        });
+
         this.connection.room.onLeave(async (_, peer) => {
             const disposable = this.peers.get(peer.id);
             if (disposable) {
@@ -158,6 +204,7 @@ export class CollaborationInstance implements Disposable {
         });
 
         this.connection.peer.onInfo((_, peer) => {
+            this.ownPeerId = peer.id;
             this.yjsAwareness.setLocalStateField('peer', peer.id);
             this.identity.resolve(peer);
         });
@@ -259,6 +306,44 @@ export class CollaborationInstance implements Disposable {
         this.options.connection.room.leave();
     }
 
+    setPermissions(permissions: types.Permissions): void {
+        this._permissions = permissions;
+        this.connection.room.updatePermissions(permissions);
+        this.updateReadOnlyState();
+    }
+
+    setRole(peerId: string, role: types.PeerRole): void {
+        this._permissions = {
+            ...this._permissions,
+            roles: {
+                ...this._permissions.roles,
+                [peerId]: role
+            }
+        };
+        this.connection.room.updateRole(peerId, role);
+    }
+
+    /**
+     * Determines whether the own peer is allowed to modify the given path.
+     */
+    canWrite(path?: string): boolean {
+        return this._isHost || types.Permissions.canWrite(this._permissions, this.ownPeerId ?? '', path);
+    }
+
+    protected isHostPeer(peerId: string): boolean {
+        return this.peers.get(peerId)?.peer.host ?? false;
+    }
+
+    protected isCoHost(peerId: string): boolean {
+        return types.Permissions.getRole(this._permissions, peerId) === 'co-host';
+    }
+
+    protected updateReadOnlyState(): void {
+        this.options.editor?.updateOptions({
+            readOnly: !this.canWrite(this.currentPath)
+        });
+    }
+
     getCurrentConnection(): ProtocolBroadcastConnection {
         return this.options.connection;
     }
@@ -341,6 +426,7 @@ export class CollaborationInstance implements Disposable {
         const prevPath = this.currentPath;
         this.currentPath = selection.path;
         if (prevPath !== selection.path) {
+            this.updateReadOnlyState();
             this.stopPropagation = true;
             this.options.editor.setValue(text.toString());
             this.stopPropagation = false;
@@ -407,12 +493,13 @@ export class CollaborationInstance implements Disposable {
         const path = this.getProtocolPath(uri);
         if (!this.currentPath || this.currentPath !== path) {
             this.currentPath = path;
+            this.updateReadOnlyState();
         }
         if (path) {
             const text = document.getValue();
             const yjsText = this.yjs.getText(path);
             let ytextContent = '';
-            if (this.isHost) {
+            if (this.options.host) {
                 this.yjs.transact(() => {
                     yjsText.delete(0, yjsText.length);
                     yjsText.insert(0, text);
@@ -628,6 +715,8 @@ export class CollaborationInstance implements Disposable {
             this.peers.set(peer.id, new DisposablePeer(this.yjsAwareness, peer));
         }
         this.workspaceName = data.workspace.name;
+        this._permissions = data.permissions;
+        this.updateReadOnlyState();
         this.notifyUsersChanged();
     }
 
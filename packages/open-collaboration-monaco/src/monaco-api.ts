@@ -30,8 +30,13 @@ export type MonacoCollabOptions = {
     serverUrl: string;
     callbacks: MonacoCollabCallbacks;
     userToken?: string;
+    refreshToken?: string;
     roomToken?: string;
     useCookieAuth?: boolean;
+    /**
+     * Called whenever new user tokens have been received, e.g. after a token refresh.
+     */
+    tokenHandler?: (userToken: string, refreshToken?: string) => void | Promise<void>;
     loginPageOpener?: (token: string, authenticationMetadata: types.AuthMetadata) => Promise<boolean>;
 };
 
@@ -52,6 +57,9 @@ export type MonacoCollabApi = {
     getCurrentConnection: () => types.ProtocolBroadcastConnection | undefined
     followUser: (id?: string) => void
     getFollowedUser: () => string | undefined
+    promoteToHost: (id: string) => Promise<void>
+    setPermissions: (permissions: types.Permissions) => void
+    setRole: (id: string, role: types.PeerRole) => void
     setFileName: (fileName: string) => void
     getFileName: () => string | undefined
     setWorkspaceName: (workspaceName: string) => void
@@ -67,6 +75,8 @@ export function monacoCollab(options: MonacoCollabOptions): MonacoCollabApi {
         }),
         transports: [SocketIoTransportProvider],
         userToken: options.userToken,
+        refreshToken: options.refreshToken,
+        tokenHandler: options.tokenHandler,
         useCookieAuth: options.useCookieAuth,
         fetch: async (url, options) => {
             const response = await fetch(url, options);
@@ -160,6 +170,12 @@ export function monacoCollab(options: MonacoCollabOptions): MonacoCollabApi {
         return undefined;
     };
 
+    const doPromoteToHost = async (id: string) => {
+        if (instance?.isHost) {
+            await instance.getCurrentConnection().room.promoteHost(id);
+        }
+    };
+
     const doSetFileName = (fileName: string) => {
         if (instance) {
             instance.setFileName(fileName);
@@ -221,6 +237,9 @@ export function monacoCollab(options: MonacoCollabOptions): MonacoCollabApi {
         onFileNameChange: registerFileNameChangeHandler,
         followUser: doFollowUser,
         getFollowedUser: doGetFollowedUser,
+        promoteToHost: doPromoteToHost,
+        setPermissions: (permissions: types.Permissions) => instance?.setPermissions(permissions),
+        setRole: (id: string, role: types.PeerRole) => instance?.setRole(id, role),
         getCurrentConnection: () => instance?.getCurrentConnection(),
         setFileName: doSetFileName,
         getFileName: doGetFileName,
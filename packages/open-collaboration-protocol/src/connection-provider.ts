@@ -12,12 +12,17 @@ import * as types from './types.js';
 import { SEM_VERSION, compatibleVersions } from './utils/version.js';
 import { ServerError } from './utils/errors.js';
 import { Info } from './utils/info.js';
+import { fromBase64 } from './utils/base64.js';
 
 export type Fetch = (url: string, options?: FetchRequestOptions) => Promise<FetchResponse>;
 
 export interface ConnectionProviderOptions {
     url: string;
     userToken?: string;
+    /**
+     * Token used to obtain a new user token once the user token expires.
+     */
+    refreshToken?: string;
     client?: string;
     protocolVersion?: string;
     fetch: Fetch;
@@ -31,8 +36,20 @@ export interface ConnectionProviderOptions {
      * In that case the authentication process will be cancelled.
      */
     authenticationHandler: (token: string, authenticationMetadata: types.AuthMetadata) => Promise<boolean>;
+    /**
+     * Called whenever the provider receives new tokens, i.e. after a login or after refreshing an expired token.
+     * Clients can use this to persist the tokens. Note that refresh tokens can only be used once.
+     */
+    tokenHandler?: (userToken: string, refreshToken?: string) => void | Promise<void>;
     transports: MessageTransportProvider[];
     useCookieAuth?: boolean;
+    /**
+     * Use the device authorization flow for logins. The server then provides a user code and a verification URL
+     * in the authentication metadata, so that users can complete the login on any device.
+     * Intended for terminal clients that cannot open a browser.
+     * Falls back to the regular login if the server doesn't support the device flow.
+     */
+    useDeviceFlow?: boolean;
 }
 
 export interface FetchRequestOptions {
@@ -68,6 +85,11 @@ export interface CreateRoomOptions {
 
 export type ResponseReporter = (info: Info) => void;
 
+/**
+ * Refresh the user token if it expires within this time span (in milliseconds).
+ */
+const TOKEN_REFRESH_THRESHOLD = 60_000;
+
 export class ConnectionProvider {
 
     private options: ConnectionProviderOptions;
@@ -78,6 +100,7 @@ export class ConnectionProvider {
         this.options = options;
         this.fetch = options.fetch;
         this.userAuthToken = options.userToken;
+        this.userRefreshToken = options.refreshToken;
         if (options.protocolVersion) {
             const parsed = semver.parse(options.protocolVersion);
             if (!parsed) {
@@ -90,12 +113,18 @@ export class ConnectionProvider {
     }
 
     protected userAuthToken?: string;
+    protected userRefreshToken?: string;
     protected roomAuthToken?: string;
+    private pendingRefresh?: Promise<boolean>;
 
     get authToken(): string | undefined {
         return this.userAuthToken;
     }
 
+    get refreshToken(): string | undefined {
+        return this.userRefreshToken;
+    }
+
     protected getUrl(path: string): string {
         // Remove trailing slashes from the base URL
         let url = this.options.url;
@@ -117,10 +146,17 @@ export class ConnectionProvider {
             params: [],
             message: 'Performing login'
         });
-        const loginResponse = await this.fetch(this.getUrl('/api/login/initial'), {
+        let loginResponse = this.options.useDeviceFlow ? await this.fetch(this.getUrl('/api/login/device'), {
             signal: options.abortSignal,
             method: 'POST'
-        });
+        }) : undefined;
+        // Servers that don't support the device flow yet only offer the regular login
+        if (!loginResponse || loginResponse.status === 404) {
+            loginResponse = await this.fetch(this.getUrl('/api/login/initial'), {
+                signal: options.abortSignal,
+                method: 'POST'
+            });
+        }
         if (!loginResponse.ok) {
             throw new Error('Failed to get login URL');
         }
@@ -129,32 +165,101 @@ export class ConnectionProvider {
             throw new Error('Invalid login response');
         }
         const confirmToken = loginBody.pollToken;
-        const url = loginBody.auth.loginPageUrl;
-        const fullUrl = url?.startsWith('/') ? this.getUrl(url) : url;
+        const resolveUrl = (url?: string) => url?.startsWith('/') ? this.getUrl(url) : url;
         const authController = new AbortController();
         const abortSignal = this.mergeAbortSignals(options.abortSignal, authController.signal);
-        this.options.authenticationHandler(confirmToken, {
-            ...loginBody.auth,
-            loginPageUrl: fullUrl,
-        }).then(success => {
-            if (!success) {
-                // If we failed to run the authentication process, abort the polling
-                // This could be due to failing to open the URL or invalid login data
-                authController.abort();
-            }
-        }, () => authController.abort());
-        const authToken = await this.pollLogin(confirmToken, {
+        if (!loginBody.authenticated) {
+            this.options.authenticationHandler(confirmToken, {
+                ...loginBody.auth,
+                loginPageUrl: resolveUrl(loginBody.auth.loginPageUrl),
+                verificationUrl: resolveUrl(loginBody.auth.verificationUrl),
+                verificationUrlComplete: resolveUrl(loginBody.auth.verificationUrlComplete)
+            }).then(success => {
+                if (!success) {
+                    // If we failed to run the authentication process, abort the polling
+                    // This could be due to failing to open the URL or invalid login data
+                    authController.abort();
+                }
+            }, () => authController.abort());
+        }
+        const { loginToken, refreshToken } = await this.pollLogin(confirmToken, {
             ...options,
             abortSignal
         });
-        this.userAuthToken = authToken;
-        return authToken;
+        await this.updateTokens(loginToken, refreshToken);
+        return loginToken;
+    }
+
+    protected async updateTokens(userToken: string, refreshToken?: string): Promise<void> {
+        this.userAuthToken = userToken;
+        this.userRefreshToken = refreshToken;
+        await this.options.tokenHandler?.(userToken, refreshToken);
+    }
+
+    /**
+     * Exchanges the refresh token for a new user token.
+     * Concurrent calls share the same request, as every refresh token can only be used once.
+     * @returns whether a new user token has been obtained
+     */
+    async refresh(): Promise<boolean> {
+        if (!this.userRefreshToken && !this.options.useCookieAuth) {
+            return false;
+        }
+        this.pendingRefresh ??= this.doRefresh().finally(() => {
+            this.pendingRefresh = undefined;
+        });
+        return this.pendingRefresh;
+    }
+
+    private async doRefresh(): Promise<boolean> {
+        try {
+            const response = await this.fetch(this.getUrl('/api/login/refresh'), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                // When using cookie based authentication, the refresh token is sent as a cookie
+                body: JSON.stringify(this.options.useCookieAuth ? {} : { refreshToken: this.userRefreshToken }),
+                credentials: this.options.useCookieAuth ? 'include' : 'omit'
+            });
+            if (!response.ok) {
+                // The refresh token has expired or has been revoked
+                this.userRefreshToken = undefined;
+                return false;
+            }
+            if (this.options.useCookieAuth) {
+                // The server only renews the cookies and doesn't send the tokens
+                return true;
+            }
+            const body = await response.json();
+            if (!types.LoginRefreshResponse.is(body)) {
+                return false;
+            }
+            await this.updateTokens(body.loginToken, body.refreshToken);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Determines whether the given JWT expires soon. The token is not verified.
+     */
+    private isExpiring(token: string): boolean {
+        try {
+            const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+            const padded = payload.padEnd(payload.length + (4 - payload.length % 4) % 4, '=');
+            const claims = JSON.parse(new TextDecoder().decode(fromBase64(padded)));
+            return typeof claims.exp === 'number' && claims.exp * 1000 - Date.now() < TOKEN_REFRESH_THRESHOLD;
+        } catch {
+            return false;
+        }
     }
 
     private readonly cookieAuthPollOptions: Partial<FetchRequestOptions> = {
         credentials: 'include'
     };
-    private async pollLogin(confirmToken: string, options: LoginOptions): Promise<string> {
+    private async pollLogin(confirmToken: string, options: LoginOptions): Promise<{ loginToken: string, refreshToken?: string }> {
         while (true) {
             const confirmResponse = await this.fetch(this.getUrl(`/api/login/poll/${confirmToken}${this.options.useCookieAuth ? '?useCookie=true' : ''}`), {
                 signal: options.abortSignal,
@@ -165,7 +270,10 @@ export class ConnectionProvider {
                 try {
                     const confirmBody = await confirmResponse.json();
                     if (types.LoginPollResponse.is(confirmBody) && confirmBody.loginToken) {
-                        return confirmBody.loginToken;
+                        return {
+                            loginToken: confirmBody.loginToken,
+                            refreshToken: confirmBody.refreshToken
+                        };
                     }
                 } catch {
                     // No token yet, keep polling
@@ -177,12 +285,20 @@ export class ConnectionProvider {
     }
 
     /**
-     * only neccessary for cookie based authentication to delete the cookie.
-     * If not using cookie based authentication, just deletes the JWT.
-     * Please ensure yourself it is not saved in local storage or similar.
+     * Revokes the current tokens on the server and deletes them.
+     * When using cookie based authentication, this also deletes the cookies.
+     * Please ensure yourself the tokens are not saved in local storage or similar.
      */
     async logout(): Promise<void> {
+        const headers: Record<string, string> = {};
+        if (this.userAuthToken) {
+            headers['x-oct-jwt'] = this.userAuthToken;
+        }
+        if (this.userRefreshToken) {
+            headers['x-oct-refresh-token'] = this.userRefreshToken;
+        }
         this.userAuthToken = undefined;
+        this.userRefreshToken = undefined;
         if (this.options.useCookieAuth) {
             const logoutResponse = await this.fetch(this.getUrl('/api/logout'), {
                 credentials: 'include'
@@ -190,6 +306,12 @@ export class ConnectionProvider {
             if (!logoutResponse.ok) {
                 throw new Error('Failed to logout');
             }
+        } else if (headers['x-oct-jwt']) {
+            try {
+                await this.fetch(this.getUrl('/api/logout'), { headers });
+            } catch {
+                // Revoking the tokens is best effort, they will expire eventually
+            }
         }
     }
 
@@ -212,7 +334,21 @@ export class ConnectionProvider {
         }
     }
 
+    /**
+     * Validates the user token. Expiring or invalid user tokens are refreshed if possible.
+     */
     async validate(): Promise<boolean> {
+        if (this.userAuthToken && this.isExpiring(this.userAuthToken)) {
+            await this.refresh();
+        }
+        if (await this.validateToken()) {
+            return true;
+        }
+        // The user token might have expired in the meantime
+        return await this.refresh() && await this.validateToken();
+    }
+
+    private async validateToken(): Promise<boolean> {
         if (this.userAuthToken || this.options.useCookieAuth) {
             try {
                 const validateResponse = await this.fetch(this.getUrl('/api/login/validate'), {
@@ -343,6 +479,56 @@ export class ConnectionProvider {
         }
     }
 
+    /**
+     * Creates a personal access token for the logged in user.
+     * Access tokens can be used as user token by headless clients that cannot perform an interactive login.
+     */
+    async createAccessToken(request: types.CreateAccessTokenRequest): Promise<types.CreateAccessTokenResponse> {
+        const response = await this.fetch(this.getUrl('/api/tokens'), {
+            method: 'POST',
+            headers: {
+                ...this.getAuthHeader(),
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(request),
+            credentials: this.options.useCookieAuth ? 'include' : 'omit'
+        });
+        if (!response.ok) {
+            throw await this.readError(response);
+        }
+        const body = await response.json();
+        if (!types.CreateAccessTokenResponse.is(body)) {
+            throw new Error('Invalid create access token response');
+        }
+        return body;
+    }
+
+    async listAccessTokens(): Promise<types.AccessTokenInfo[]> {
+        const response = await this.fetch(this.getUrl('/api/tokens'), {
+            headers: this.getAuthHeader(),
+            credentials: this.options.useCookieAuth ? 'include' : 'omit'
+        });
+        if (!response.ok) {
+            throw await this.readError(response);
+        }
+        const body = await response.json();
+        if (!Array.isArray(body) || !body.every(types.AccessTokenInfo.is)) {
+            throw new Error('Invalid access token list response');
+        }
+        return body;
+    }
+
+    async revokeAccessToken(id: string): Promise<void> {
+        const response = await this.fetch(this.getUrl(`/api/tokens/${encodeURIComponent(id)}`), {
+            method: 'DELETE',
+            headers: this.getAuthHeader(),
+            credentials: this.options.useCookieAuth ? 'include' : 'omit'
+        });
+        if (!response.ok) {
+            throw await this.readError(response);
+        }
+    }
+
     private async readError(response: FetchResponse): Promise<Error> {
         try {
             const text = await response.text();
@@ -366,17 +552,24 @@ export class ConnectionProvider {
         const transportIndex = this.findFitting(metadata.transports, this.options.transports.map(t => t.id));
         const transportProvider = this.options.transports[transportIndex];
         const keyPair = await Encryption.generateKeyPair();
-        const transport = transportProvider.createTransport(this.options.url, {
+        const headers: Record<string, string> = {
             'x-oct-jwt': roomAuthToken,
             'x-oct-public-key': keyPair.publicKey,
             'x-oct-client': this.options.client ?? 'Unknown OCT JS Client',
-            'x-oct-compression': 'gzip'
-        });
+            'x-oct-compression': 'gzip',
+            'x-oct-resumable': 'true'
+        };
+        const transport = transportProvider.createTransport(this.options.url, headers);
         const connection = createConnection(
             {
                 privateKey: keyPair.privateKey,
                 transport,
-                host
+                host,
+                // Re-attach to the same peer with the same keys after the connection has been lost
+                resume: resumeToken => transportProvider.createTransport(this.options.url, {
+                    ...headers,
+                    'x-oct-resume-token': resumeToken
+                })
             }
         );
         return connection;
@@ -14,10 +14,22 @@ import { MessageTransport } from './transport/transport.js';
 export interface RoomHandler {
     onJoin(handler: Handler<[types.Peer]>): void;
     leave(): Promise<void>;
-    onLeave(handler: Handler<[types.Peer]>): void;
+    onLeave(handler: Handler<[types.Peer, types.LeaveReason?]>): void;
     onClose(handler: Handler<[]>): void;
     onPermissions(handler: Handler<[types.Permissions]>): void;
     updatePermissions(permissions: types.Permissions): Promise<void>;
+    onRoleUpdate(handler: Handler<[types.Id, types.PeerRole]>): void;
+    updateRole(peerId: types.Id, role: types.PeerRole): Promise<void>;
+    /**
+     * Hands over the host role to the peer with the given id. Only the current host is allowed to do so.
+     */
+    promoteHost(peerId: types.Id): Promise<void>;
+    onHostChange(handler: Handler<[types.Peer]>): void;
+    /**
+     * Removes the peer with the given id from the room. Only the host is allowed to do so.
+     * Banned users cannot request to join the room again.
+     */
+    kick(peerId: types.Id, ban?: boolean): Promise<void>;
 }
 
 export interface PeerHandler {
@@ -62,6 +74,7 @@ export interface SyncHandler {
     awarenessUpdate(target: MessageTarget, data: types.Binary): Promise<void>;
     onAwarenessQuery(handler: Handler<[]>): void;
     awarenessQuery(): Promise<void>;
+    onResync(handler: Handler<[]>): void;
 }
 
 export interface ProtocolBroadcastConnection extends BroadcastConnection {
@@ -76,6 +89,12 @@ export interface ProtocolBroadcastConnectionOptions {
     privateKey: string;
     host?: types.Peer;
     transport: MessageTransport;
+    /**
+     * Creates a transport that re-attaches to the session identified by the given resume token.
+     * Allows the connection to survive network drops that outlast the reconnection of the transport.
+     */
+    resume?: (resumeToken: string) => MessageTransport;
+    resumeTimeout?: number;
 }
 
 export function createConnection(options: ProtocolBroadcastConnectionOptions): ProtocolBroadcastConnection {
@@ -92,16 +111,30 @@ export class ProtocolBroadcastConnectionImpl extends AbstractBroadcastConnection
             handler(origin, peer);
         }),
         leave: () => this.sendNotification(Messages.Room.Leave, ''),
-        onLeave: handler => this.onBroadcast(Messages.Room.Left, (origin, peer) => {
+        onLeave: handler => this.onBroadcast(Messages.Room.Left, (origin, peer, reason) => {
             this.onDidLeaveRoom(peer);
-            handler(origin, peer);
+            handler(origin, peer, reason);
         }),
         onClose: handler => this.onBroadcast(Messages.Room.Closed, (origin) => {
             this.onDidClose();
             handler(origin);
         }),
         onPermissions: handler => this.onBroadcast(Messages.Room.PermissionsUpdated, handler),
-        updatePermissions: permissions => this.sendBroadcast(Messages.Room.PermissionsUpdated, permissions)
+        updatePermissions: async permissions => {
+            await this.sendBroadcast(Messages.Room.PermissionsUpdated, permissions);
+            await this.sendNotification(Messages.Room.AuditPermissionChange, '');
+        },
+        onRoleUpdate: handler => this.onBroadcast(Messages.Room.RoleUpdated, handler),
+        updateRole: async (peerId, role) => {
+            await this.sendBroadcast(Messages.Room.RoleUpdated, peerId, role);
+            await this.sendNotification(Messages.Room.AuditPermissionChange, '', peerId);
+        },
+        promoteHost: peerId => this.sendNotification(Messages.Room.PromoteHost, '', peerId),
+        onHostChange: handler => this.onBroadcast(Messages.Room.HostChanged, (origin, peer) => {
+            this.onDidChangeHost(peer);
+            handler(origin, peer);
+        }),
+        kick: (peerId, ban) => this.sendNotification(Messages.Room.Kick, '', peerId, ban ?? false)
     };
 
     peer: PeerHandler = {
@@ -164,16 +197,21 @@ export class ProtocolBroadcastConnectionImpl extends AbstractBroadcastConnection
             }
         },
         onAwarenessQuery: handler => this.onBroadcast(Messages.Sync.AwarenessQuery, handler),
-        awarenessQuery: () => this.sendBroadcast(Messages.Sync.AwarenessQuery)
+        awarenessQuery: () => this.sendBroadcast(Messages.Sync.AwarenessQuery),
+        onResync: handler => this.onNotification(Messages.Sync.Resync, handler)
     };
 
+    protected override serverBroadcasts = new Set(Messages.Room.ServerBroadcasts);
+
     // Track peers manually for their public encryption keys
     private peers = new Map<string, types.Peer>();
 
     constructor(options: ProtocolBroadcastConnectionOptions) {
         super({
             privateKey: options.privateKey,
-            transport: options.transport
+            transport: options.transport,
+            resume: options.resume,
+            resumeTimeout: options.resumeTimeout
         });
         if (options.host) {
             this.onDidJoinRoom(options.host);
@@ -184,7 +222,9 @@ export class ProtocolBroadcastConnectionImpl extends AbstractBroadcastConnection
         this.room.onJoin(EMTPY_HANDLER);
         this.room.onLeave(EMTPY_HANDLER);
         this.room.onClose(EMTPY_HANDLER);
+        this.room.onHostChange(EMTPY_HANDLER);
         this.peer.onInit(EMTPY_HANDLER);
+        this.onNotification(Messages.Peer.ResumeToken, (_, resumeToken) => this.updateResumeToken(resumeToken));
     }
 
     protected override getPublicKey(origin: string): Encryption.AsymmetricKey {
@@ -208,6 +248,12 @@ export class ProtocolBroadcastConnectionImpl extends AbstractBroadcastConnection
         this.peers.delete(peer.id);
     }
 
+    private onDidChangeHost(host: types.Peer): void {
+        for (const peer of this.peers.values()) {
+            peer.host = peer.id === host.id;
+        }
+    }
+
     private onDidClose(): void {
         this.peers.clear();
     }
@@ -12,14 +12,16 @@ export * from './messaging/messages.js';
 
 export * from './transport/transport.js';
 export * from './transport/socket-io-transport.js';
-// export * from './transport/websocket-transport';
+export * from './transport/websocket-transport.js';
 
 export * from './utils/base64.js';
 export * from './utils/crypto.js';
 export * from './utils/disposable.js';
 export * from './utils/errors.js';
 export * from './utils/event.js';
+export * from './utils/glob.js';
 export * from './utils/info.js';
+export * from './utils/path.js';
 export * from './utils/promise.js';
 export * from './utils/types.js';
 export * from './utils/version.js';
@@ -13,14 +13,47 @@ export namespace Messages {
         export const Join = new RequestType<[types.User], types.JoinResponse | undefined>('peer/join');
         export const Info = new NotificationType<[types.Peer]>('peer/info');
         export const Init = new NotificationType<[types.InitData]>('peer/init');
+        /**
+         * Sent by the server to peers that support session resumption.
+         * The token allows the peer to re-attach to its session after the connection has been lost.
+         * A new token is sent after every successful resumption.
+         */
+        export const ResumeToken = new NotificationType<[string]>('peer/resumeToken');
     }
 
     export namespace Room {
         export const Joined = new BroadcastType<[types.Peer]>('room/joined');
-        export const Left = new BroadcastType<[types.Peer]>('room/left');
+        export const Left = new BroadcastType<[types.Peer, types.LeaveReason?]>('room/left');
         export const Leave = new NotificationType<[]>('room/leave');
+        /**
+         * Sent by the host to the server to remove a peer from the room.
+         * If the second parameter is `true`, the user of the peer is banned from joining the room again.
+         */
+        export const Kick = new NotificationType<[types.Id, boolean]>('room/kick');
         export const PermissionsUpdated = new BroadcastType<[types.Permissions]>('room/permissionsUpdated');
+        /**
+         * Sent by the host or a co-host to change the role of a single guest.
+         */
+        export const RoleUpdated = new BroadcastType<[types.Id, types.PeerRole]>('room/roleUpdated');
+        /**
+         * Sent to the server after the room permissions or the role of a peer (given by its id) have been changed.
+         * Allows the server to audit the change, while the change itself remains end-to-end encrypted.
+         */
+        export const AuditPermissionChange = new NotificationType<[types.Id?]>('room/auditPermissionChange');
         export const Closed = new BroadcastType('room/closed');
+        /**
+         * Sent by the host to the server to hand over the host role to another peer of the room.
+         */
+        export const PromoteHost = new NotificationType<[types.Id]>('room/promoteHost');
+        /**
+         * Sent by the server to all peers of a room once another peer has become the host.
+         */
+        export const HostChanged = new BroadcastType<[types.Peer]>('room/hostChanged');
+        /**
+         * Methods of broadcasts that are only sent by the server.
+         * Peers ignore encrypted broadcasts of these methods, as those can only originate from other peers.
+         */
+        export const ServerBroadcasts: readonly string[] = [Joined.method, Left.method, Closed.method, HostChanged.method];
     }
 
     export namespace Editor {
@@ -29,11 +62,16 @@ export namespace Messages {
     }
 
     export namespace Sync {
-        export const DataUpdate = new BroadcastType<[types.Binary]>('sync/dataUpdate');
-        export const DataNotify = new NotificationType<[types.Binary]>('sync/dataNotify');
-        export const AwarenessUpdate = new BroadcastType<[types.Binary]>('sync/awarenessUpdate');
+        export const DataUpdate = new BroadcastType<[types.Binary]>('sync/dataUpdate', { transient: true });
+        export const DataNotify = new NotificationType<[types.Binary]>('sync/dataNotify', { transient: true });
+        export const AwarenessUpdate = new BroadcastType<[types.Binary]>('sync/awarenessUpdate', { transient: true });
         export const AwarenessQuery = new BroadcastType<[]>('sync/awarenessQuery');
-        export const AwarenessNotify = new NotificationType<[types.Binary]>('sync/awarenessNotify');
+        export const AwarenessNotify = new NotificationType<[types.Binary]>('sync/awarenessNotify', { transient: true });
+        /**
+         * Sent by the server after it has dropped transient messages for the peer.
+         * The peer is expected to resynchronize its documents and awareness state.
+         */
+        export const Resync = new NotificationType<[]>('sync/resync');
     }
 
     export namespace FileSystem {
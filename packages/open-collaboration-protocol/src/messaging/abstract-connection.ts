@@ -7,7 +7,9 @@
 import * as msg from './messages.js';
 import { MessageTransport } from '../transport/transport.js';
 import { Emitter, Event } from '../utils/event.js';
+import { DisposableCollection } from '../utils/disposable.js';
 import { Deferred } from '../utils/promise.js';
+import { ServerError } from '../utils/errors.js';
 import { Encryption } from './encryption.js';
 import { Encoding } from './encoding.js';
 
@@ -47,6 +49,16 @@ export interface RelayedRequest {
 export interface AbstractBroadcastConnectionOptions {
     privateKey: string;
     transport: MessageTransport;
+    /**
+     * Creates a transport that re-attaches to the session identified by the given resume token.
+     * If not set, the connection is disposed as soon as the transport disconnects.
+     */
+    resume?: (resumeToken: string) => MessageTransport;
+    /**
+     * Time in milliseconds in which the connection tries to resume the session.
+     * Defaults to 60 seconds, which matches the default time that the server keeps the session of a disconnected peer.
+     */
+    resumeTimeout?: number;
 }
 
 export abstract class AbstractBroadcastConnection implements BroadcastConnection {
@@ -60,6 +72,10 @@ export abstract class AbstractBroadcastConnection implements BroadcastConnection
     protected onUnhandledRequestHandler?: (method: string) => Handler<any[], any>;
     protected onUnhandledBroadcastHandler?: (method: string) => Handler<any[], any>;
     protected onUnhandledNotificationHandler?: (method: string) => Handler<any[], any>;
+    /**
+     * Methods of broadcasts that are only accepted from the server, i.e. without encryption.
+     */
+    protected serverBroadcasts = new Set<string>();
 
     get onError(): Event<string> {
         return this.onErrorEmitter.event;
@@ -85,22 +101,97 @@ export abstract class AbstractBroadcastConnection implements BroadcastConnection
     protected maxCacheSize = 50;
     protected _ready = new Deferred();
 
+    protected transport: MessageTransport;
+    protected transportListeners = new DisposableCollection();
+    protected resumeToken?: string;
+    protected resumed?: Deferred<boolean>;
+    protected disposed = false;
+
     constructor(readonly options: AbstractBroadcastConnectionOptions) {
-        options.transport.read(data => this.handleMessage(new Uint8Array(data)));
-        options.transport.onDisconnect(() => this.dispose());
-        options.transport.onError(message => {
+        this.attachTransport(options.transport);
+    }
+
+    protected attachTransport(transport: MessageTransport): void {
+        this.transportListeners.dispose();
+        this.transportListeners = new DisposableCollection();
+        this.transport = transport;
+        transport.read(data => {
+            // Ignore late messages of transports that have been replaced in the meantime
+            if (this.transport === transport) {
+                this.handleMessage(new Uint8Array(data));
+            }
+        });
+        this.transportListeners.push(transport.onDisconnect(() => this.handleDisconnect()));
+        this.transportListeners.push(transport.onError(message => {
             this.onConnectionErrorEmitter.fire(message);
+            this.handleDisconnect();
+        }));
+        this.transportListeners.push(transport.onReconnect(() => this.onReconnectEmitter.fire()));
+    }
+
+    protected async handleDisconnect(): Promise<void> {
+        if (this.disposed || this.resumed) {
+            // Failed resumption attempts are handled by `resume`
+            return;
+        }
+        if (this.resumeToken && this.options.resume && await this.resume()) {
+            this.onReconnectEmitter.fire();
+        } else {
             this.dispose();
-        });
-        options.transport.onReconnect(() => this.onReconnectEmitter.fire());
+        }
+    }
+
+    /**
+     * Tries to re-attach to the session using new transports until the resume timeout has passed.
+     * Messages that the server has buffered in the meantime are replayed once the session has been resumed.
+     */
+    protected async resume(): Promise<boolean> {
+        const deadline = Date.now() + (this.options.resumeTimeout ?? 60_000);
+        const oldTransport = this.transport;
+        this.transportListeners.dispose();
+        oldTransport.dispose();
+        try {
+            while (!this.disposed && Date.now() < deadline) {
+                const resumed = new Deferred<boolean>();
+                this.resumed = resumed;
+                const transport = this.options.resume!(this.resumeToken!);
+                this.attachTransport(transport);
+                this.transportListeners.push(transport.onDisconnect(() => resumed.resolve(false)));
+                this.transportListeners.push(transport.onError(() => resumed.resolve(false)));
+                // The server sends a new resume token once the session has been resumed
+                const timeout = setTimeout(() => resumed.resolve(false), Math.max(deadline - Date.now(), 0));
+                const success = await resumed.promise;
+                clearTimeout(timeout);
+                if (success) {
+                    return true;
+                }
+                this.transportListeners.dispose();
+                transport.dispose();
+                await new Promise(resolve => setTimeout(resolve, 1000));
+            }
+            return false;
+        } finally {
+            this.resumed = undefined;
+        }
+    }
+
+    protected updateResumeToken(resumeToken: string): void {
+        this.resumeToken = resumeToken;
+        this.resumed?.resolve(true);
     }
 
     dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.resumed?.resolve(false);
         this.onDisconnectEmitter.fire();
         this.onDisconnectEmitter.dispose();
         this.onErrorEmitter.dispose();
         this.messageHandlers.clear();
-        this.options.transport.dispose();
+        this.transportListeners.dispose();
+        this.transport.dispose();
     }
 
     protected ready(): void {
@@ -170,7 +261,8 @@ export abstract class AbstractBroadcastConnection implements BroadcastConnection
                     return;
                 }
                 if (request) {
-                    request.response.reject(new Error(response.content.message));
+                    const { message, code } = response.content;
+                    request.response.reject(code ? new ServerError({ code, message, params: [] }) : new Error(message));
                 }
             } catch (err) {
                 console.error('Failed to handle response error message', err);
@@ -202,7 +294,11 @@ export abstract class AbstractBroadcastConnection implements BroadcastConnection
                     const result = await handler(decrypted.origin, ...(decrypted.content.params ?? []));
                     response = msg.ResponseMessage.create(decrypted.id, result);
                 } catch (error) {
-                    response = msg.ResponseErrorMessage.create(decrypted.id, String(error));
+                    if (error instanceof ServerError) {
+                        response = msg.ResponseErrorMessage.create(decrypted.id, error.message, error.code);
+                    } else {
+                        response = msg.ResponseErrorMessage.create(decrypted.id, String(error));
+                    }
                 }
 
                 if (decrypted.origin === '') {
@@ -229,6 +325,10 @@ export abstract class AbstractBroadcastConnection implements BroadcastConnection
                         privateKey: this.options.privateKey,
                         cache: this.decryptionKeyCache
                     });
+                    if (msg.BroadcastMessage.is(decrypted) && this.serverBroadcasts.has(decrypted.content.method)) {
+                        console.error(`Received ${decrypted.content.method} broadcast from peer ${message.origin}, which is only accepted from the server`);
+                        return;
+                    }
                 } else if (msg.NotificationMessage.is(message) || msg.BroadcastMessage.is(message)){
                     decrypted = message;
                 } else {
@@ -272,7 +372,7 @@ export abstract class AbstractBroadcastConnection implements BroadcastConnection
     protected abstract getPublicKeysLength(): number;
 
     private async write(message: msg.Message): Promise<void> {
-        await this.options.transport.write(Encoding.encode(message));
+        await this.transport.write(Encoding.encode(message));
     }
 
     onRequest(handler: UnhandledMessageHandler): void;
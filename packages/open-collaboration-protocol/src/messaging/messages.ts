@@ -22,6 +22,11 @@ export interface Message {
 export interface MessageMetadata {
     encryption: MessageEncryption;
     compression: MessageCompression;
+    /**
+     * Marks messages whose content can be restored by resynchronizing, e.g. Yjs updates.
+     * The server might drop transient messages for peers that cannot keep up with the message volume.
+     */
+    transient?: boolean;
 }
 
 export namespace MessageMetadata {
@@ -39,6 +44,10 @@ export const DEFAULT_METADATA: MessageMetadata = {
     }
 };
 
+function createMetadata(signature: MessageSignature | string): MessageMetadata {
+    return typeof signature !== 'string' && signature.transient ? { ...DEFAULT_METADATA, transient: true } : DEFAULT_METADATA;
+}
+
 export interface MessageEncryption {
     keys: MessageContentKey[];
 }
@@ -253,6 +262,10 @@ export interface AbstractResponseErrorMessage<T> extends Message {
 
 export interface ResponseErrorMessageContent {
     message: string;
+    /**
+     * The info code of the error, if the request handler has thrown a {@link ServerError}.
+     */
+    code?: string;
 }
 
 export type UnknownResponseErrorMessage = AbstractResponseErrorMessage<unknown>;
@@ -260,18 +273,16 @@ export type ResponseErrorMessage = AbstractResponseErrorMessage<ResponseErrorMes
 export type EncryptedResponseErrorMessage = AbstractResponseErrorMessage<Uint8Array>;
 
 export namespace ResponseErrorMessage {
-    export function create(id: number | string, message: string): ResponseErrorMessage;
+    export function create(id: number | string, message: string, code?: string): ResponseErrorMessage;
     export function create(id: number | string, message: Uint8Array): EncryptedResponseErrorMessage;
-    export function create(id: number | string, message: string | Uint8Array): ResponseErrorMessage | EncryptedResponseErrorMessage {
+    export function create(id: number | string, message: string | Uint8Array, code?: string): ResponseErrorMessage | EncryptedResponseErrorMessage {
         if (typeof message === 'string') {
             return {
                 kind: 'response-error',
                 version: VERSION,
                 metadata: DEFAULT_METADATA,
                 id,
-                content: {
-                    message
-                }
+                content: code ? { message, code } : { message }
             };
         } else {
             return {
@@ -327,7 +338,7 @@ export namespace NotificationMessage {
         return {
             version: VERSION,
             kind: 'notification',
-            metadata: DEFAULT_METADATA,
+            metadata: createMetadata(signature),
             target,
             origin,
             content: {
@@ -371,7 +382,7 @@ export namespace BroadcastMessage {
         return {
             version: VERSION,
             kind: 'broadcast',
-            metadata: DEFAULT_METADATA,
+            metadata: createMetadata(signature),
             origin: origin,
             content: {
                 method: typeof signature === 'string' ? signature : signature.method,
@@ -396,19 +407,29 @@ export namespace BroadcastMessage {
 
 export interface MessageSignature {
     method: string
+    /**
+     * See {@link MessageMetadata.transient}.
+     */
+    transient?: boolean;
+}
+
+export interface MessageSignatureOptions {
+    transient?: boolean;
 }
 
 export class AbstractMessageSignature implements MessageSignature {
     method: string;
-    constructor(method: string) {
+    transient?: boolean;
+    constructor(method: string, options?: MessageSignatureOptions) {
         this.method = method;
+        this.transient = options?.transient;
     }
 }
 
 export class BroadcastType<P extends unknown[] = []> extends AbstractMessageSignature {
     public readonly _?: ['broadcast', P, void];
-    constructor(method: string) {
-        super(method);
+    constructor(method: string, options?: MessageSignatureOptions) {
+        super(method, options);
     }
 }
 
@@ -421,7 +442,7 @@ export class RequestType<P extends unknown[], R> extends AbstractMessageSignatur
 
 export class NotificationType<P extends unknown[]> extends AbstractMessageSignature {
     public readonly _?: ['notification', P, void];
-    constructor(method: string) {
-        super(method);
+    constructor(method: string, options?: MessageSignatureOptions) {
+        super(method, options);
     }
 }
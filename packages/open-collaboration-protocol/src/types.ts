@@ -6,6 +6,7 @@
 
 import type { CompressionAlgorithm } from './messaging/messages.js';
 import { isObject } from './utils/types.js';
+import { matchGlob } from './utils/glob.js';
 
 export type Path = string;
 export type Token = string;
@@ -45,6 +46,11 @@ export namespace LoginValidateResponse {
 export interface LoginInitialResponse {
     pollToken: string;
     auth: AuthMetadata;
+    /**
+     * Whether the server has already authenticated the user based on the initial request, e.g. through an SSO proxy.
+     * The login token can be polled right away without running the authentication process.
+     */
+    authenticated?: boolean;
 }
 
 export namespace LoginInitialResponse {
@@ -60,6 +66,16 @@ export interface AuthMetadata {
     providers: AuthProvider[];
     loginPageUrl?: string;
     defaultSuccessUrl?: string;
+    /**
+     * Short code that users enter at the `verificationUrl` to log in from any device.
+     * Only set when using the device authorization flow.
+     */
+    userCode?: string;
+    verificationUrl?: string;
+    /**
+     * Verification URL that already contains the user code, e.g. for rendering it as a QR code.
+     */
+    verificationUrlComplete?: string;
 }
 
 export type AuthProvider = FormAuthProvider | WebAuthProvider;
@@ -82,6 +98,10 @@ export interface FormAuthProviderField {
     required: boolean;
     label: InfoMessage;
     placeHolder?: InfoMessage;
+    /**
+     * Whether the value of the field must not be shown while it is entered, e.g. for passwords.
+     */
+    secret?: boolean;
 }
 
 export interface WebAuthProvider extends CommonAuthProvider {
@@ -91,14 +111,34 @@ export interface WebAuthProvider extends CommonAuthProvider {
 
 export interface LoginPollResponse {
     loginToken?: string;
+    /**
+     * Token that can be exchanged for a new login token once the login token expires.
+     */
+    refreshToken?: string;
 }
 
 export namespace LoginPollResponse {
     export function is(arg: unknown): arg is LoginPollResponse {
-        return isObject<LoginPollResponse>(arg) && (typeof arg.loginToken === 'undefined' || typeof arg.loginToken === 'string');
+        return isObject<LoginPollResponse>(arg)
+            && (typeof arg.loginToken === 'undefined' || typeof arg.loginToken === 'string')
+            && (typeof arg.refreshToken === 'undefined' || typeof arg.refreshToken === 'string');
+    }
+    export function create(loginToken?: string, refreshToken?: string): LoginPollResponse {
+        return { loginToken, refreshToken };
+    }
+}
+
+export interface LoginRefreshResponse {
+    loginToken: string;
+    refreshToken: string;
+}
+
+export namespace LoginRefreshResponse {
+    export function is(arg: unknown): arg is LoginRefreshResponse {
+        return isObject<LoginRefreshResponse>(arg) && typeof arg.loginToken === 'string' && typeof arg.refreshToken === 'string';
     }
-    export function create(loginToken?: string): LoginPollResponse {
-        return { loginToken };
+    export function create(loginToken: string, refreshToken: string): LoginRefreshResponse {
+        return { loginToken, refreshToken };
     }
 }
 
@@ -150,6 +190,49 @@ export namespace JoinRoomPollResponse {
     }
 }
 
+export type AccessTokenScope = 'create-room' | 'join-room';
+
+/**
+ * Describes a personal access token. The secret of the token is only returned once when the token is created.
+ */
+export interface AccessTokenInfo {
+    id: string;
+    name: string;
+    scopes: AccessTokenScope[];
+    createdAt: number;
+    expiresAt?: number;
+}
+
+export namespace AccessTokenInfo {
+    export function is(arg: unknown): arg is AccessTokenInfo {
+        return isObject<AccessTokenInfo>(arg)
+            && typeof arg.id === 'string'
+            && typeof arg.name === 'string'
+            && Array.isArray(arg.scopes)
+            && typeof arg.createdAt === 'number';
+    }
+}
+
+export interface CreateAccessTokenRequest {
+    name: string;
+    scopes: AccessTokenScope[];
+    /**
+     * Lifetime of the token in days. The server uses its default lifetime if not set.
+     */
+    expiresInDays?: number;
+}
+
+export interface CreateAccessTokenResponse {
+    token: string;
+    info: AccessTokenInfo;
+}
+
+export namespace CreateAccessTokenResponse {
+    export function is(arg: unknown): arg is CreateAccessTokenResponse {
+        return isObject<CreateAccessTokenResponse>(arg) && typeof arg.token === 'string' && AccessTokenInfo.is(arg.info);
+    }
+}
+
 export interface ProtocolServerMetaData {
     owner: string;
     version: string;
@@ -185,6 +268,11 @@ export interface User {
 
 export interface JoinResponse {
     workspace: Workspace
+    /**
+     * Id of the peer that shares the workspace and answers its file system requests.
+     * Only differs from the host once the host role has been handed over to a guest.
+     */
+    workspaceOwner?: Id
 }
 
 export interface Peer {
@@ -195,6 +283,11 @@ export interface Peer {
     metadata: PeerMetaData
 }
 
+/**
+ * The reason why a peer has left a room. Peers that leave on their own don't have a reason.
+ */
+export type LeaveReason = 'kicked' | 'banned';
+
 export interface PeerMetaData {
     encryption: EncryptionMetaData
     compression: CompressionMetaData;
@@ -238,9 +331,64 @@ export interface Room {
     permissions: Permissions
 }
 
+/**
+ * Role of a guest in a room.
+ * - `viewer`: cannot modify any file
+ * - `editor`: can modify all files, except for those that are read-only due to path rules
+ * - `co-host`: can modify all files and manage the permissions of the room
+ */
+export type PeerRole = 'viewer' | 'editor' | 'co-host';
+
+export interface PathRule {
+    /**
+     * Glob pattern that is matched against paths relative to their workspace folder, e.g. `docs/**`.
+     */
+    pattern: string;
+    readonly: boolean;
+}
+
 export interface Permissions {
+    /**
+     * Default for all guests without an explicit role.
+     */
     readonly: boolean;
-    [key: string]: string | boolean;
+    /**
+     * Explicit roles of guests by their peer id.
+     * Peers that rejoin the session with a new peer id, e.g. after their session could not be resumed, lose their role.
+     */
+    roles?: Record<Id, PeerRole>;
+    /**
+     * Path specific rules for guests without the `viewer` or `co-host` role. The first matching rule applies.
+     */
+    pathRules?: PathRule[];
+    [key: string]: unknown;
+}
+
+export namespace Permissions {
+    export function getRole(permissions: Permissions, peerId: Id): PeerRole | undefined {
+        return permissions.roles?.[peerId];
+    }
+    /**
+     * Determines whether the given guest is allowed to modify the given protocol path, i.e. a path that starts with the name of its workspace folder.
+     * If no path is given, determines whether the guest is allowed to modify any path at all.
+     */
+    export function canWrite(permissions: Permissions, peerId: Id, path?: Path): boolean {
+        const role = getRole(permissions, peerId);
+        if (role === 'co-host') {
+            return true;
+        } else if (role === 'viewer') {
+            return false;
+        }
+        const writable = role === 'editor' || !permissions.readonly;
+        if (path === undefined) {
+            return writable || !!permissions.pathRules?.some(rule => !rule.readonly);
+        }
+        // Path rules don't include the name of the workspace folder
+        const slashIndex = path.indexOf('/');
+        const relativePath = slashIndex >= 0 ? path.substring(slashIndex + 1) : '';
+        const rule = permissions.pathRules?.find(rule => matchGlob(rule.pattern, relativePath));
+        return rule ? !rule.readonly : writable;
+    }
 }
 
 export interface FileSystemStat {
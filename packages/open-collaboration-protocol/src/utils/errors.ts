@@ -19,6 +19,21 @@ export class ServerError extends Error {
 
 }
 
+/**
+ * Thrown by request handlers if the origin of a request is not allowed to perform the requested operation.
+ */
+export class PermissionDeniedError extends ServerError {
+
+    constructor(message = 'Permission denied', params: string[] = []) {
+        super({
+            code: Info.Codes.PermissionDenied,
+            message,
+            params
+        });
+    }
+
+}
+
 export function stringifyError(error: unknown, localization?: (info: Info) => string): string {
     if (error instanceof ServerError || Info.is(error)) {
         if (localization) {
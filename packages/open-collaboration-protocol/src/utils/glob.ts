@@ -0,0 +1,46 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Tests whether a workspace relative path matches the given glob pattern.
+ * Supports `**` for any number of path segments, `*` for any characters within a segment and `?` for a single character.
+ */
+export function matchGlob(pattern: string, path: string): boolean {
+    let regex = globCache.get(pattern);
+    if (!regex) {
+        regex = globToRegExp(pattern);
+        globCache.set(pattern, regex);
+    }
+    return regex.test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                i++;
+                if (pattern[i + 1] === '/') {
+                    // `**/` matches zero or more complete path segments
+                    i++;
+                    source += '(?:.*/)?';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
@@ -32,6 +32,10 @@ export namespace Info {
         export const JoinTimeout = 'JoinTimeout';
         export const JoinRejected = 'JoinRejected';
         export const WaitingForHost = 'WaitingForHost';
+        export const PermissionDenied = 'PermissionDenied';
+        export const LoginNotAllowed = 'LoginNotAllowed';
+        export const CreateRoomNotAllowed = 'CreateRoomNotAllowed';
+        export const JoinRoomNotAllowed = 'JoinRoomNotAllowed';
         export const UnverifiedLoginLabel = 'UnverifiedLoginLabel';
         export const UnverifiedLoginDetails = 'UnverifiedLoginDetails';
         export const BuiltinsGroup = 'BuiltinsGroup';
@@ -39,6 +43,7 @@ export namespace Info {
         export const UsernamePlaceholder = 'UsernamePlaceholder';
         export const EmailLabel = 'EmailLabel';
         export const EmailPlaceholder = 'EmailPlaceholder';
+        export const PasswordLabel = 'PasswordLabel';
         export const ThirdParty = 'ThirdParty';
         export const GitHubLabel = 'GitHubLabel';
         export const GoogleLabel = 'GoogleLabel';
@@ -0,0 +1,67 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+/**
+ * Normalizes a protocol path received from another peer, i.e. a path that starts with the name of a workspace folder.
+ * Empty and `.` segments are removed.
+ *
+ * Returns `undefined` for paths that might escape their workspace folder, such as absolute paths,
+ * `..` segments (including percent-encoded or Unicode variants), backslashes and control characters.
+ */
+export function normalizeProtocolPath(path: unknown): string | undefined {
+    if (typeof path !== 'string' || path.startsWith('/') || !isSafeSegment(path)) {
+        return undefined;
+    }
+    const segments: string[] = [];
+    for (const segment of path.split('/')) {
+        if (segment === '' || segment === '.') {
+            continue;
+        }
+        const decoded = decodeSegment(segment);
+        if (decoded === undefined || decoded.includes('/') || !isSafeSegment(decoded) || isDotSegment(decoded)) {
+            return undefined;
+        }
+        segments.push(segment);
+    }
+    if (segments.length === 0) {
+        return undefined;
+    }
+    return segments.join('/');
+}
+
+function isSafeSegment(value: string): boolean {
+    // Backslashes are path separators on Windows, control characters (e.g. NUL) might truncate paths
+    // eslint-disable-next-line no-control-regex
+    return !/[\\\u0000-\u001f\u007f]/.test(value);
+}
+
+function isDotSegment(value: string): boolean {
+    // Windows ignores trailing dots and spaces, so segments like `.. ` or `...` are treated as `..`
+    // Unicode compatibility normalization turns characters like the fullwidth full stop into regular dots
+    return /^[.\s]+$/.test(value) || /^[.\s]+$/.test(value.normalize('NFKC'));
+}
+
+/**
+ * Decodes percent-encoded characters until the segment is stable.
+ * Segments with too many encoding layers are rejected.
+ */
+function decodeSegment(segment: string): string | undefined {
+    let current = segment;
+    for (let i = 0; i < 5; i++) {
+        let decoded: string;
+        try {
+            decoded = decodeURIComponent(current);
+        } catch {
+            // Not a valid encoding, i.e. a literal percent sign
+            return current;
+        }
+        if (decoded === current) {
+            return current;
+        }
+        current = decoded;
+    }
+    return undefined;
+}
@@ -0,0 +1,232 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { generateKeyPairSync, webcrypto } from 'node:crypto';
+import { beforeAll, describe, expect, test, vi } from 'vitest';
+import { initializeProtocol } from '../src/configuration.js';
+import { createConnection as createProtocolConnection } from '../src/connection.js';
+import { AbstractBroadcastConnection, AbstractBroadcastConnectionOptions } from '../src/messaging/abstract-connection.js';
+import { Encoding } from '../src/messaging/encoding.js';
+import { Encryption } from '../src/messaging/encryption.js';
+import * as msg from '../src/messaging/messages.js';
+import { Messages } from '../src/messages.js';
+import { MessageTransport } from '../src/transport/transport.js';
+import { PermissionDeniedError, ServerError } from '../src/utils/errors.js';
+import { Emitter } from '../src/utils/event.js';
+import { Info } from '../src/utils/info.js';
+import { Peer } from '../src/types.js';
+
+class TestTransport implements MessageTransport {
+
+    readonly id = 'test';
+    readonly written: msg.Message[] = [];
+    disposed = false;
+
+    protected reader?: (data: Uint8Array) => void;
+    readonly onDisconnectEmitter = new Emitter<void>();
+    readonly onErrorEmitter = new Emitter<string>();
+    readonly onReconnectEmitter = new Emitter<void>();
+
+    get onDisconnect() {
+        return this.onDisconnectEmitter.event;
+    }
+
+    get onError() {
+        return this.onErrorEmitter.event;
+    }
+
+    get onReconnect() {
+        return this.onReconnectEmitter.event;
+    }
+
+    async write(data: Uint8Array): Promise<void> {
+        this.written.push(Encoding.decode(data) as msg.Message);
+    }
+
+    read(cb: (data: Uint8Array) => void): void {
+        this.reader = cb;
+    }
+
+    receive(message: msg.Message): void {
+        this.reader?.(Encoding.encode(message));
+    }
+
+    dispose(): void {
+        this.disposed = true;
+    }
+}
+
+class TestConnection extends AbstractBroadcastConnection {
+
+    constructor(options: AbstractBroadcastConnectionOptions) {
+        super(options);
+        this.onNotification(Messages.Peer.ResumeToken, (_, resumeToken) => this.updateResumeToken(resumeToken));
+    }
+
+    get currentResumeToken(): string | undefined {
+        return this.resumeToken;
+    }
+
+    override ready(): void {
+        super.ready();
+    }
+
+    protected getPublicKey(): Encryption.AsymmetricKey {
+        throw new Error('Encryption is not supported in tests');
+    }
+
+    protected getPublicKeys(): Encryption.AsymmetricKey[] {
+        return [];
+    }
+
+    protected getPublicKeysLength(): number {
+        return 0;
+    }
+}
+
+describe('AbstractBroadcastConnection', () => {
+
+    beforeAll(() => {
+        initializeProtocol({ cryptoModule: webcrypto });
+    });
+
+    function createConnection(options: Partial<AbstractBroadcastConnectionOptions> = {}): [TestConnection, TestTransport] {
+        const transport = new TestTransport();
+        const connection = new TestConnection({ privateKey: '', transport, ...options });
+        connection.ready();
+        return [connection, transport];
+    }
+
+    function sendResumeToken(transport: TestTransport, resumeToken: string): void {
+        transport.receive(msg.NotificationMessage.create(Messages.Peer.ResumeToken, '', 'peer', [resumeToken]));
+    }
+
+    test('should reject requests with the error code of the server', async () => {
+        const [connection, transport] = createConnection();
+        const withCode = connection.sendRequest('test/request', '');
+        const withoutCode = connection.sendRequest('test/request', '');
+        await vi.waitFor(() => expect(transport.written).toHaveLength(2));
+        const [first, second] = transport.written as msg.RequestMessage[];
+
+        transport.receive(msg.ResponseErrorMessage.create(first.id, 'Permission denied', Info.Codes.PermissionDenied));
+        transport.receive(msg.ResponseErrorMessage.create(second.id, 'Failure'));
+
+        await expect(withCode).rejects.toBeInstanceOf(ServerError);
+        await expect(withCode).rejects.toMatchObject({ code: Info.Codes.PermissionDenied, message: 'Permission denied' });
+        await expect(withoutCode).rejects.not.toBeInstanceOf(ServerError);
+        connection.dispose();
+    });
+
+    test('should respond with the error code of server errors thrown by request handlers', async () => {
+        const [connection, transport] = createConnection();
+        connection.onRequest('test/request', () => {
+            throw new PermissionDeniedError('Not allowed');
+        });
+
+        transport.receive(msg.RequestMessage.create('test/request', 1, '', '', []));
+
+        await vi.waitFor(() => expect(transport.written).toHaveLength(1));
+        expect(transport.written[0]).toMatchObject({
+            kind: 'response-error',
+            id: 1,
+            content: { message: 'Not allowed', code: Info.Codes.PermissionDenied }
+        });
+        connection.dispose();
+    });
+
+    test('should dispose the connection on disconnect if the session cannot be resumed', () => {
+        const [connection, transport] = createConnection();
+        let disconnected = false;
+        connection.onDisconnect(() => disconnected = true);
+
+        transport.onDisconnectEmitter.fire();
+
+        expect(disconnected).toBe(true);
+        expect(transport.disposed).toBe(true);
+    });
+
+    test('should resume the session using a new transport', async () => {
+        const transports: TestTransport[] = [];
+        const resume = vi.fn(() => {
+            const transport = new TestTransport();
+            transports.push(transport);
+            return transport;
+        });
+        const [connection, transport] = createConnection({ resume });
+        let reconnected = false;
+        connection.onReconnect(() => reconnected = true);
+        sendResumeToken(transport, 'first-token');
+        await vi.waitFor(() => expect(connection.currentResumeToken).toBe('first-token'));
+
+        transport.onDisconnectEmitter.fire();
+        expect(resume).toHaveBeenCalledWith('first-token');
+        expect(transport.disposed).toBe(true);
+        // The server confirms the resumed session with a new token
+        sendResumeToken(transports[0], 'second-token');
+
+        await vi.waitFor(() => expect(reconnected).toBe(true));
+        expect(transports[0].disposed).toBe(false);
+        connection.dispose();
+    });
+
+    test('should dispose the connection if the session cannot be resumed in time', async () => {
+        const [connection, transport] = createConnection({ resume: () => new TestTransport(), resumeTimeout: 10 });
+        let disconnected = false;
+        connection.onDisconnect(() => disconnected = true);
+        sendResumeToken(transport, 'token');
+        await vi.waitFor(() => expect(connection.currentResumeToken).toBe('token'));
+
+        transport.onDisconnectEmitter.fire();
+
+        await vi.waitFor(() => expect(disconnected).toBe(true), { timeout: 3000 });
+    });
+});
+
+describe('ProtocolBroadcastConnection', () => {
+
+    beforeAll(() => {
+        initializeProtocol({ cryptoModule: webcrypto });
+    });
+
+    // Generating the 4096 bit keys of the protocol takes too long for tests
+    function generateKeyPair(): Encryption.KeyPair {
+        const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+            modulusLength: 1024,
+            publicKeyEncoding: { type: 'spki', format: 'der' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'der' }
+        });
+        return { publicKey: publicKey.toString('base64'), privateKey: privateKey.toString('base64') };
+    }
+
+    function createPeer(id: string, host: boolean, publicKey: string): Peer {
+        return { id, host, name: id, metadata: { encryption: { publicKey }, compression: { supported: ['none'] } } };
+    }
+
+    test('should only accept host changes from the server', async () => {
+        const keys = generateKeyPair();
+        const transport = new TestTransport();
+        const host = createPeer('host', true, keys.publicKey);
+        const guest = createPeer('guest', false, keys.publicKey);
+        const connection = createProtocolConnection({ privateKey: keys.privateKey, transport, host });
+        const hostChanges: Peer[] = [];
+        connection.room.onHostChange((_, peer) => hostChanges.push(peer));
+        const error = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        // A guest sends an encrypted broadcast that names itself as the new host
+        const forged = await Encryption.encrypt(
+            msg.BroadcastMessage.create(Messages.Room.HostChanged, guest.id, [{ ...guest, host: true }]),
+            { symmetricKey: Encryption.generateSymKey() },
+            { peerId: 'self', publicKey: keys.publicKey, supportedCompression: ['none'] }
+        );
+        transport.receive(forged);
+        transport.receive(msg.BroadcastMessage.create(Messages.Room.HostChanged, host.id, [{ ...host, host: false }]));
+
+        await vi.waitFor(() => expect(error).toHaveBeenCalled());
+        expect(hostChanges).toEqual([{ ...host, host: false }]);
+        error.mockRestore();
+        connection.dispose();
+    });
+});
@@ -0,0 +1,48 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { describe, expect, test, vi } from 'vitest';
+import { ConnectionProvider, FetchRequestOptions, FetchResponse } from '../src/connection-provider.js';
+import { AuthMetadata } from '../src/types.js';
+
+describe('ConnectionProvider', () => {
+
+    function respond(status: number, body?: object): FetchResponse {
+        return {
+            status,
+            ok: status >= 200 && status < 300,
+            json: async () => body,
+            text: async () => JSON.stringify(body)
+        };
+    }
+
+    test('should fall back to the regular login if the server does not support the device flow', async () => {
+        const fetch = vi.fn(async (url: string, _options?: FetchRequestOptions): Promise<FetchResponse> => {
+            if (url.endsWith('/api/login/initial')) {
+                return respond(200, { pollToken: 'poll-token', auth: { providers: [], loginPageUrl: '/login.html' } });
+            } else if (url.endsWith('/api/login/poll/poll-token')) {
+                return respond(200, { loginToken: 'login-token' });
+            }
+            return respond(404);
+        });
+        const authenticationHandler = vi.fn(async (_token: string, _metadata: AuthMetadata) => true);
+        const provider = new ConnectionProvider({
+            url: 'https://example.com',
+            fetch,
+            transports: [],
+            useDeviceFlow: true,
+            authenticationHandler
+        });
+
+        expect(await provider.login({})).toBe('login-token');
+        expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+            'https://example.com/api/login/device',
+            'https://example.com/api/login/initial',
+            'https://example.com/api/login/poll/poll-token'
+        ]);
+        expect(authenticationHandler).toHaveBeenCalledWith('poll-token', expect.objectContaining({ loginPageUrl: 'https://example.com/login.html' }));
+    });
+});
@@ -0,0 +1,62 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { describe, expect, test } from 'vitest';
+import { normalizeProtocolPath } from '../src/utils/path.js';
+
+describe('normalizeProtocolPath', () => {
+
+    test('should keep regular paths', () => {
+        expect(normalizeProtocolPath('root')).toBe('root');
+        expect(normalizeProtocolPath('root/src/index.ts')).toBe('root/src/index.ts');
+        expect(normalizeProtocolPath('root/.github/workflows/ci.yml')).toBe('root/.github/workflows/ci.yml');
+        expect(normalizeProtocolPath('root/docs/..md')).toBe('root/docs/..md');
+        expect(normalizeProtocolPath('root/100%.txt')).toBe('root/100%.txt');
+    });
+
+    test('should remove empty and current directory segments', () => {
+        expect(normalizeProtocolPath('root//src/./index.ts')).toBe('root/src/index.ts');
+        expect(normalizeProtocolPath('root/src/')).toBe('root/src');
+    });
+
+    test('should reject parent directory segments', () => {
+        expect(normalizeProtocolPath('root/../../.ssh/id_rsa')).toBeUndefined();
+        expect(normalizeProtocolPath('..')).toBeUndefined();
+        expect(normalizeProtocolPath('root/src/../../other')).toBeUndefined();
+    });
+
+    test('should reject absolute paths', () => {
+        expect(normalizeProtocolPath('/etc/passwd')).toBeUndefined();
+    });
+
+    test('should reject percent-encoded traversal', () => {
+        expect(normalizeProtocolPath('root/%2e%2e/secret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/%2E%2E/secret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/..%2fsecret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/%252e%252e/secret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/%25252525252e%25252525252e/secret')).toBeUndefined();
+    });
+
+    test('should reject backslashes and control characters', () => {
+        expect(normalizeProtocolPath('root\\..\\secret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/..%5csecret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/file.txt\u0000.png')).toBeUndefined();
+        expect(normalizeProtocolPath('root/file.txt%00.png')).toBeUndefined();
+    });
+
+    test('should reject dot segments that are interpreted as parent directories', () => {
+        expect(normalizeProtocolPath('root/.. /secret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/.../secret')).toBeUndefined();
+        expect(normalizeProtocolPath('root/．．/secret')).toBeUndefined();
+    });
+
+    test('should reject invalid input', () => {
+        expect(normalizeProtocolPath('')).toBeUndefined();
+        expect(normalizeProtocolPath('./')).toBeUndefined();
+        expect(normalizeProtocolPath(undefined)).toBeUndefined();
+        expect(normalizeProtocolPath(42)).toBeUndefined();
+    });
+});
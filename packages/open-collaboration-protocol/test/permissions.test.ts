@@ -0,0 +1,68 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { describe, expect, test } from 'vitest';
+import { Permissions } from '../src/types.js';
+import { matchGlob } from '../src/utils/glob.js';
+
+describe('Permissions', () => {
+
+    describe('matchGlob', () => {
+        test('should match single segments with *', () => {
+            expect(matchGlob('*.md', 'README.md')).toBe(true);
+            expect(matchGlob('*.md', 'docs/README.md')).toBe(false);
+        });
+
+        test('should match any number of segments with **', () => {
+            expect(matchGlob('docs/**', 'docs/guide/intro.md')).toBe(true);
+            expect(matchGlob('**/*.ts', 'index.ts')).toBe(true);
+            expect(matchGlob('**/*.ts', 'src/utils/glob.ts')).toBe(true);
+            expect(matchGlob('src/**', 'test/glob.test.ts')).toBe(false);
+        });
+
+        test('should escape regular expression characters', () => {
+            expect(matchGlob('file.(1).txt', 'file.(1).txt')).toBe(true);
+            expect(matchGlob('file.txt', 'fileatxt')).toBe(false);
+        });
+    });
+
+    describe('canWrite', () => {
+        const permissions: Permissions = {
+            readonly: true,
+            roles: {
+                viewer: 'viewer',
+                editor: 'editor',
+                cohost: 'co-host'
+            },
+            pathRules: [
+                { pattern: 'docs/**', readonly: false },
+                { pattern: 'src/**', readonly: true }
+            ]
+        };
+
+        test('should apply the default for guests without role', () => {
+            expect(Permissions.canWrite(permissions, 'guest', 'workspace/package.json')).toBe(false);
+            expect(Permissions.canWrite({ readonly: false }, 'guest', 'workspace/package.json')).toBe(true);
+        });
+
+        test('should apply path rules relative to the workspace folder', () => {
+            expect(Permissions.canWrite(permissions, 'guest', 'workspace/docs/intro.md')).toBe(true);
+            expect(Permissions.canWrite(permissions, 'editor', 'workspace/src/index.ts')).toBe(false);
+            expect(Permissions.canWrite(permissions, 'editor', 'workspace/package.json')).toBe(true);
+        });
+
+        test('should apply roles', () => {
+            expect(Permissions.canWrite(permissions, 'viewer', 'workspace/docs/intro.md')).toBe(false);
+            expect(Permissions.canWrite(permissions, 'cohost', 'workspace/src/index.ts')).toBe(true);
+        });
+
+        test('should determine whether a guest can write anything', () => {
+            expect(Permissions.canWrite(permissions, 'guest')).toBe(true);
+            expect(Permissions.canWrite(permissions, 'viewer')).toBe(false);
+            expect(Permissions.canWrite({ readonly: true }, 'guest')).toBe(false);
+        });
+    });
+});
@@ -21,6 +21,8 @@ const main = async () => {
 		bundle: true,
 		format: 'esm',
 		minify: production,
+		// Class names are used as module names of loggers
+		keepNames: true,
 		sourcemap: !production,
         treeShaking: true,
 		platform: 'node',
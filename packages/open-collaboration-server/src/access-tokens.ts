@@ -0,0 +1,239 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as crypto from 'node:crypto';
+import * as path from 'node:path';
+import { inject, injectable } from 'inversify';
+import { AccessTokenInfo, AccessTokenScope } from 'open-collaboration-protocol';
+import { User } from './types.js';
+import { Configuration } from './utils/configuration.js';
+import { JsonFile } from './utils/json-file.js';
+import { Logger } from './utils/logging.js';
+
+export const AccessTokenScopes: readonly AccessTokenScope[] = ['create-room', 'join-room'];
+
+export function isAccessTokenScope(value: unknown): value is AccessTokenScope {
+    return AccessTokenScopes.includes(value as AccessTokenScope);
+}
+
+/**
+ * Prefix of all personal access tokens. Allows to distinguish them from JWTs and to detect leaked tokens.
+ */
+export const ACCESS_TOKEN_PREFIX = 'oct_pat_';
+
+export function isAccessToken(token: string): boolean {
+    return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * A personal access token. Only the hash of the token secret is stored.
+ * The `user` is a snapshot of the user at the time the token has been created.
+ */
+export interface StoredAccessToken extends AccessTokenInfo {
+    user: User;
+    secretHash: string;
+}
+
+export const AccessTokenStore = Symbol('AccessTokenStore');
+
+export interface AccessTokenStore {
+    getToken(id: string): Promise<StoredAccessToken | undefined>;
+    getTokens(userId: string): Promise<StoredAccessToken[]>;
+    saveToken(token: StoredAccessToken): Promise<void>;
+    deleteToken(id: string): Promise<void>;
+}
+
+@injectable()
+export class InMemoryAccessTokenStore implements AccessTokenStore {
+
+    protected tokens = new Map<string, StoredAccessToken>();
+
+    async getToken(id: string): Promise<StoredAccessToken | undefined> {
+        return this.tokens.get(id);
+    }
+
+    async getTokens(userId: string): Promise<StoredAccessToken[]> {
+        return Array.from(this.tokens.values()).filter(token => token.user.id === userId);
+    }
+
+    async saveToken(token: StoredAccessToken): Promise<void> {
+        this.tokens.set(token.id, token);
+    }
+
+    async deleteToken(id: string): Promise<void> {
+        this.tokens.delete(id);
+    }
+
+}
+
+/**
+ * Access token store that persists all tokens into a single JSON file.
+ * The file location can be configured using the `oct-access-token-store-path` configuration key.
+ */
+@injectable()
+export class FileAccessTokenStore extends InMemoryAccessTokenStore {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    private file?: JsonFile<StoredAccessToken[]>;
+    private loaded?: Promise<void>;
+
+    protected getFile(): JsonFile<StoredAccessToken[]> {
+        if (!this.file) {
+            const filePath = this.configuration.getValue('oct-access-token-store-path') ?? 'oct-access-tokens.json';
+            this.file = new JsonFile(path.resolve(filePath));
+        }
+        return this.file;
+    }
+
+    protected load(): Promise<void> {
+        this.loaded ??= this.getFile().read().then(tokens => {
+            for (const token of tokens ?? []) {
+                this.tokens.set(token.id, token);
+            }
+        });
+        return this.loaded;
+    }
+
+    protected save(): Promise<void> {
+        return this.getFile().write(Array.from(this.tokens.values()));
+    }
+
+    override async getToken(id: string): Promise<StoredAccessToken | undefined> {
+        await this.load();
+        return super.getToken(id);
+    }
+
+    override async getTokens(userId: string): Promise<StoredAccessToken[]> {
+        await this.load();
+        return super.getTokens(userId);
+    }
+
+    override async saveToken(token: StoredAccessToken): Promise<void> {
+        await this.load();
+        await super.saveToken(token);
+        await this.save();
+    }
+
+    override async deleteToken(id: string): Promise<void> {
+        await this.load();
+        await super.deleteToken(id);
+        await this.save();
+    }
+
+}
+
+export interface CreateAccessTokenOptions {
+    name: string;
+    scopes: AccessTokenScope[];
+    /**
+     * Lifetime of the token in days. Uses the `oct-access-token-expiration-days` configuration key if not set.
+     */
+    expiresInDays?: number;
+}
+
+/**
+ * Issues and verifies personal access tokens.
+ * Access tokens have the format `oct_pat_<id>_<secret>` and allow bots and other headless clients
+ * to create or join rooms without an interactive login.
+ */
+@injectable()
+export class AccessTokenManager {
+
+    @inject(AccessTokenStore) protected store: AccessTokenStore;
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    async createToken(user: User, options: CreateAccessTokenOptions): Promise<{ token: string, info: AccessTokenInfo }> {
+        const expiresInDays = options.expiresInDays ?? this.configuration.getValue('oct-access-token-expiration-days', 'number') ?? 90;
+        const maxDays = this.configuration.getValue('oct-access-token-max-expiration-days', 'number');
+        if (!(expiresInDays > 0) || (maxDays !== undefined && expiresInDays > maxDays)) {
+            throw this.logger.createErrorAndLog(`Invalid access token lifetime of ${expiresInDays} days`);
+        }
+        const id = crypto.randomBytes(8).toString('hex');
+        const secret = crypto.randomBytes(32).toString('base64url');
+        const createdAt = Date.now();
+        const stored: StoredAccessToken = {
+            id,
+            name: options.name,
+            scopes: [...new Set(options.scopes)],
+            createdAt,
+            expiresAt: createdAt + expiresInDays * 24 * 60 * 60 * 1000,
+            user,
+            secretHash: this.hash(secret)
+        };
+        await this.store.saveToken(stored);
+        this.logger.info(`Created access token '${id}' for user '${user.id}' with scopes [${stored.scopes.join(', ')}]`);
+        return {
+            token: `${ACCESS_TOKEN_PREFIX}${id}_${secret}`,
+            info: this.toInfo(stored)
+        };
+    }
+
+    /**
+     * Returns the stored token if the given access token is valid and has not expired yet.
+     */
+    async verifyToken(token: string): Promise<StoredAccessToken | undefined> {
+        if (!isAccessToken(token)) {
+            return undefined;
+        }
+        const value = token.substring(ACCESS_TOKEN_PREFIX.length);
+        // The id is hex encoded and therefore never contains the separator
+        const separator = value.indexOf('_');
+        if (separator < 0) {
+            return undefined;
+        }
+        const stored = await this.store.getToken(value.substring(0, separator));
+        if (!stored) {
+            return undefined;
+        }
+        const expected = Buffer.from(stored.secretHash, 'hex');
+        const actual = Buffer.from(this.hash(value.substring(separator + 1)), 'hex');
+        if (!crypto.timingSafeEqual(expected, actual)) {
+            return undefined;
+        }
+        if (stored.expiresAt !== undefined && stored.expiresAt < Date.now()) {
+            return undefined;
+        }
+        return stored;
+    }
+
+    async listTokens(userId: string): Promise<AccessTokenInfo[]> {
+        const tokens = await this.store.getTokens(userId);
+        return tokens.map(token => this.toInfo(token));
+    }
+
+    /**
+     * Revokes the access token with the given id.
+     * @returns `false` if the user doesn't own a token with that id.
+     */
+    async revokeToken(userId: string, id: string): Promise<boolean> {
+        const token = await this.store.getToken(id);
+        if (!token || token.user.id !== userId) {
+            return false;
+        }
+        await this.store.deleteToken(id);
+        this.logger.info(`Revoked access token '${id}' of user '${userId}'`);
+        return true;
+    }
+
+    protected toInfo(token: StoredAccessToken): AccessTokenInfo {
+        return {
+            id: token.id,
+            name: token.name,
+            scopes: token.scopes,
+            createdAt: token.createdAt,
+            expiresAt: token.expiresAt
+        };
+    }
+
+    protected hash(secret: string): string {
+        return crypto.createHash('sha256').update(secret).digest('hex');
+    }
+
+}
@@ -0,0 +1,189 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as crypto from 'node:crypto';
+import { inject, injectable } from 'inversify';
+import express from 'express';
+import { RoomManager } from './room-manager.js';
+import { CredentialsManager } from './credentials-manager.js';
+import { isAccessToken } from './access-tokens.js';
+import { Peer, Room, User } from './types.js';
+import { Configuration } from './utils/configuration.js';
+import { Logger } from './utils/logging.js';
+
+export interface AdminPeerInfo {
+    id: string;
+    roomId: string;
+    host: boolean;
+    client: string;
+    user: User;
+    /**
+     * The cluster node that the peer is connected to. Not set for peers of this node.
+     */
+    node?: string;
+}
+
+export interface AdminRoomInfo {
+    id: string;
+    host: AdminPeerInfo;
+    guestCount: number;
+    clients: string[];
+    createdAt: number;
+    /**
+     * Age of the room in seconds.
+     */
+    age: number;
+}
+
+export interface AdminUserInfo {
+    user: User;
+    peers: string[];
+}
+
+/**
+ * REST API that gives operators insight into a running server and allows them to intervene.
+ * Administrators are either the users listed in `oct-admin-users`, which authenticate with their login token,
+ * or clients that send the static `oct-admin-token` as bearer token.
+ * The API is disabled if neither is configured.
+ */
+@injectable()
+export class AdminApi {
+
+    @inject(RoomManager) protected roomManager: RoomManager;
+
+    @inject(CredentialsManager) protected credentials: CredentialsManager;
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    shouldActivate(): boolean {
+        return Boolean(this.configuration.getValue('oct-admin-users') || this.configuration.getValue('oct-admin-token'));
+    }
+
+    onStart(app: express.Express): void {
+        const router = express.Router();
+        router.use(async (req, res, next) => {
+            // Don't let websites that an administrator visits access the admin API
+            // Without CORS headers, browsers reject preflight requests and hide the responses from other origins
+            res.removeHeader('Access-Control-Allow-Origin');
+            res.removeHeader('Access-Control-Allow-Credentials');
+            res.removeHeader('Access-Control-Allow-Headers');
+            if (req.method === 'OPTIONS') {
+                res.status(204);
+                res.send();
+            } else if (await this.isAdmin(req)) {
+                next();
+            } else {
+                res.status(401);
+                res.send('Error: Admin authentication required');
+            }
+        });
+        router.get('/rooms', (_, res) => {
+            res.send(this.roomManager.getRooms().map(room => this.toRoomInfo(room)));
+        });
+        router.get('/rooms/:id', (req, res) => {
+            const room = this.roomManager.getRoomById(req.params.id);
+            if (!room) {
+                res.status(404);
+                res.send('Error: Room not found');
+                return;
+            }
+            res.send({
+                ...this.toRoomInfo(room),
+                peers: room.peers.map(peer => this.toPeerInfo(peer, room))
+            });
+        });
+        router.delete('/rooms/:id', async (req, res) => {
+            const room = this.roomManager.getRoomById(req.params.id);
+            if (!room) {
+                res.status(404);
+                res.send('Error: Room not found');
+                return;
+            }
+            this.logger.info(`Admin closed room '${room.id}'`);
+            await this.roomManager.closeRoom(room.id);
+            res.send('Room closed');
+        });
+        router.get('/peers', (_, res) => {
+            res.send(this.roomManager.getRooms().flatMap(room => room.peers.map(peer => this.toPeerInfo(peer, room))));
+        });
+        router.delete('/peers/:id', async (req, res) => {
+            if (await this.roomManager.disconnectPeer(req.params.id)) {
+                this.logger.info(`Admin disconnected peer '${req.params.id}'`);
+                res.send('Peer disconnected');
+            } else {
+                res.status(404);
+                res.send('Error: Peer not found or connected to another node');
+            }
+        });
+        router.get('/users', (_, res) => {
+            const users = new Map<string, AdminUserInfo>();
+            for (const room of this.roomManager.getRooms()) {
+                for (const peer of room.peers) {
+                    let info = users.get(peer.user.id);
+                    if (!info) {
+                        info = { user: peer.user, peers: [] };
+                        users.set(peer.user.id, info);
+                    }
+                    info.peers.push(peer.id);
+                }
+            }
+            res.send(Array.from(users.values()));
+        });
+        router.get('/join-requests', (_, res) => {
+            res.send(this.roomManager.getPendingJoinRequests());
+        });
+        app.use('/api/admin', router);
+        this.logger.info('Admin API is enabled at /api/admin');
+    }
+
+    protected async isAdmin(req: express.Request): Promise<boolean> {
+        const adminToken = this.configuration.getValue('oct-admin-token');
+        const authorization = req.headers.authorization;
+        if (adminToken && authorization?.startsWith('Bearer ')) {
+            const expected = crypto.createHash('sha256').update(adminToken).digest();
+            const actual = crypto.createHash('sha256').update(authorization.substring('Bearer '.length)).digest();
+            return crypto.timingSafeEqual(expected, actual);
+        }
+        const adminUsers = this.configuration.getValue('oct-admin-users')?.split(',').map(id => id.trim()).filter(id => id.length > 0);
+        // Cookies are sent along with cross-site requests, so they must not grant admin access
+        const loginToken = req.headers['x-oct-jwt'] as string | undefined;
+        // Personal access tokens don't grant admin access
+        if (!adminUsers?.length || !loginToken || isAccessToken(loginToken)) {
+            return false;
+        }
+        try {
+            const user = await this.credentials.getUser(loginToken);
+            return user !== undefined && adminUsers.includes(user.id);
+        } catch {
+            return false;
+        }
+    }
+
+    protected toRoomInfo(room: Room): AdminRoomInfo {
+        return {
+            id: room.id,
+            host: this.toPeerInfo(room.host, room),
+            guestCount: room.guests.length,
+            clients: Array.from(new Set(room.peers.map(peer => peer.client))),
+            createdAt: room.createdAt,
+            age: Math.floor((Date.now() - room.createdAt) / 1000)
+        };
+    }
+
+    protected toPeerInfo(peer: Peer, room: Room): AdminPeerInfo {
+        return {
+            id: peer.id,
+            roomId: room.id,
+            host: peer === room.host,
+            client: peer.client,
+            user: peer.user,
+            node: peer.node
+        };
+    }
+
+}
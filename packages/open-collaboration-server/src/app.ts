@@ -12,20 +12,46 @@ import { Container } from 'inversify';
 import { initializeProtocol } from 'open-collaboration-protocol';
 import { CollaborationServer } from './collaboration-server.js';
 import { ConfigurationFile } from './utils/configuration.js';
+import { FileAuditSink } from './audit-log.js';
 import pck from '../package.json' with { type: 'json' };
 
 initializeProtocol({
     cryptoModule: crypto.webcrypto
 });
 
-function startServer(options: { port: number, hostname: string, config: string }) {
+function createContainer(config: string): Container {
     const container = new Container();
-    container.bind(ConfigurationFile).toConstantValue(options.config);
+    container.bind(ConfigurationFile).toConstantValue(config);
     container.load(serverModule);
+    return container;
+}
+
+function startServer(options: { port: number, hostname: string, config: string }) {
+    const container = createContainer(options.config);
     const server = container.get(CollaborationServer);
     server.startServer(options);
 }
 
+async function queryAuditLog(options: { user?: string, room?: string, since?: string, until?: string, limit?: number, config: string }) {
+    const container = createContainer(options.config);
+    const auditSink = container.get(FileAuditSink);
+    if (!auditSink.shouldActivate()) {
+        console.error('The audit log is not enabled. Set the audit log file using OCT_AUDIT_LOG_FILE.');
+        process.exitCode = 1;
+        return;
+    }
+    const events = await auditSink.query({
+        user: options.user,
+        room: options.room,
+        since: options.since ? new Date(options.since) : undefined,
+        until: options.until ? new Date(options.until) : undefined,
+        limit: options.limit
+    });
+    for (const event of events) {
+        console.log(JSON.stringify(event));
+    }
+}
+
 process.on('unhandledRejection', (reason, promise) => {
     console.error('Unhandled Rejection at:', promise, 'reason:', reason);
 });
@@ -48,4 +74,14 @@ program.command('start')
         startServer(options);
     });
 
-program.parse();
+program.command('audit')
+    .description('Print the events of the audit log as JSON lines')
+    .option('-u, --user <string>', 'Only print events of the given user id')
+    .option('-r, --room <string>', 'Only print events of the given room id')
+    .option('--since <date>', 'Only print events after the given date')
+    .option('--until <date>', 'Only print events before the given date')
+    .option('-n, --limit <number>', 'Only print the latest events up to this number', parseInt)
+    .option('-c, --config <string>', 'Path to the configuration file')
+    .action(queryAuditLog);
+
+program.parseAsync();
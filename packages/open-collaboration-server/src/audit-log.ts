@@ -0,0 +1,206 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { inject, injectable, multiInject, postConstruct } from 'inversify';
+import { User } from './types.js';
+import { Configuration } from './utils/configuration.js';
+import { Logger } from './utils/logging.js';
+import { RotatingFile } from './utils/rotating-file.js';
+
+export type AuditEventKind =
+    | 'login'
+    | 'room-created'
+    | 'room-closed'
+    | 'join-request'
+    | 'peer-joined'
+    | 'host-changed'
+    | 'peer-kicked'
+    | 'permissions-changed';
+
+export interface AuditEvent {
+    /**
+     * ISO 8601 time at which the event occurred.
+     */
+    timestamp: string;
+    kind: AuditEventKind;
+    roomId?: string;
+    /**
+     * The user that the event is about, e.g. the user that requested to join a room.
+     */
+    user?: User;
+    /**
+     * The user that caused the event, e.g. the host that accepted a join request.
+     */
+    actor?: User;
+    outcome?: string;
+    details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+    /**
+     * Only return events in which the given user id is either the subject or the actor.
+     */
+    user?: string;
+    room?: string;
+    since?: Date;
+    until?: Date;
+    /**
+     * Only return the latest events up to this number.
+     */
+    limit?: number;
+}
+
+export const AuditSink = Symbol('AuditSink');
+
+/**
+ * Destination of audit events. Bind additional implementations to forward events to other systems.
+ */
+export interface AuditSink {
+    shouldActivate(): boolean;
+    write(event: AuditEvent): Promise<void>;
+}
+
+/**
+ * Records who did what in which room for compliance purposes.
+ * Events are passed to all active {@link AuditSink} implementations.
+ */
+@injectable()
+export class AuditLog {
+
+    @multiInject(AuditSink) protected allSinks: AuditSink[];
+
+    @inject(Logger) protected logger: Logger;
+
+    protected sinks: AuditSink[] = [];
+
+    @postConstruct()
+    protected initialize(): void {
+        this.sinks = this.allSinks.filter(sink => sink.shouldActivate());
+    }
+
+    get enabled(): boolean {
+        return this.sinks.length > 0;
+    }
+
+    record(event: Omit<AuditEvent, 'timestamp'>): void {
+        if (!this.enabled) {
+            return;
+        }
+        const auditEvent: AuditEvent = {
+            timestamp: new Date().toISOString(),
+            ...event
+        };
+        for (const sink of this.sinks) {
+            sink.write(auditEvent).catch(err => {
+                this.logger.error(`Failed to write '${event.kind}' audit event`, err);
+            });
+        }
+    }
+
+}
+
+/**
+ * Appends audit events as JSON lines to the file configured in `oct-audit-log-file`.
+ * The file is rotated once it exceeds `oct-audit-log-max-size` megabytes.
+ * Rotated files are removed once there are more than `oct-audit-log-max-files` of them
+ * or if they are older than `oct-audit-log-retention-days`.
+ * The retention period is enforced at startup and every hour, as small audit logs are rarely rotated.
+ */
+@injectable()
+export class FileAuditSink implements AuditSink {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    protected rotatingFile?: RotatingFile;
+
+    @postConstruct()
+    protected initialize(): void {
+        if (this.shouldActivate() && this.configuration.getValue('oct-audit-log-retention-days') !== undefined) {
+            this.pruneFiles();
+            setInterval(() => this.pruneFiles(), 60 * 60 * 1000).unref();
+        }
+    }
+
+    protected pruneFiles(): void {
+        this.file.prune().catch(err => this.logger.error('Failed to remove expired audit log files', err));
+    }
+
+    shouldActivate(): boolean {
+        return Boolean(this.configuration.getValue('oct-audit-log-file'));
+    }
+
+    protected get file(): RotatingFile {
+        if (!this.rotatingFile) {
+            const filePath = path.resolve(this.configuration.getValue('oct-audit-log-file') ?? 'oct-audit.jsonl');
+            this.rotatingFile = new RotatingFile(filePath, {
+                maxSize: (this.configuration.getValue('oct-audit-log-max-size', 'number') ?? 10) * 1024 * 1024,
+                maxFiles: this.configuration.getValue('oct-audit-log-max-files', 'number') ?? 10,
+                retentionDays: this.configuration.getValue('oct-audit-log-retention-days', 'number')
+            });
+        }
+        return this.rotatingFile;
+    }
+
+    write(event: AuditEvent): Promise<void> {
+        return this.file.append(JSON.stringify(event) + '\n');
+    }
+
+    /**
+     * Reads the events matching the query from the current and all rotated audit log files.
+     */
+    async query(query: AuditQuery): Promise<AuditEvent[]> {
+        const files = await this.file.getFiles();
+        const events: AuditEvent[] = [];
+        for (const file of files) {
+            let content: string;
+            try {
+                content = await fs.promises.readFile(file, 'utf8');
+            } catch {
+                continue;
+            }
+            const lines = content.split('\n');
+            for (let i = 0; i < lines.length; i++) {
+                if (lines[i].trim().length === 0) {
+                    continue;
+                }
+                let event: AuditEvent;
+                try {
+                    event = JSON.parse(lines[i]);
+                } catch {
+                    // E.g. a line that has been truncated by a crash of the server
+                    this.logger.warn(`Skipping invalid line ${i + 1} of audit log file '${file}'`);
+                    continue;
+                }
+                if (this.matches(event, query)) {
+                    events.push(event);
+                }
+            }
+        }
+        return query.limit !== undefined ? events.slice(-query.limit) : events;
+    }
+
+    protected matches(event: AuditEvent, query: AuditQuery): boolean {
+        if (query.user && event.user?.id !== query.user && event.actor?.id !== query.user) {
+            return false;
+        }
+        if (query.room && event.roomId !== query.room) {
+            return false;
+        }
+        const time = new Date(event.timestamp).getTime();
+        if (query.since && time < query.since.getTime()) {
+            return false;
+        }
+        if (query.until && time > query.until.getTime()) {
+            return false;
+        }
+        return true;
+    }
+
+}
@@ -4,11 +4,22 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
-import type { Express } from 'express';
+import type { Express, Request } from 'express';
 import { AuthProvider, Event } from 'open-collaboration-protocol';
 import { User } from '../types.js';
 
-export type UserInfo = Omit<User, 'id'>;
+export type UserInfo = Omit<User, 'id'> & {
+    /**
+     * Stable id of the authentication provider that has issued the `subject`, e.g. its issuer URL.
+     * Unlike the `authProvider` label, it must not change when the provider is renamed.
+     */
+    providerId?: string;
+    /**
+     * The id of the user at the authentication provider.
+     * Used together with the `providerId` to assign the same user id to the user on every login.
+     */
+    subject?: string;
+};
 export interface AuthSuccessEvent {
     token: string;
     userInfo: UserInfo;
@@ -20,5 +31,23 @@ export interface AuthEndpoint {
     shouldActivate(): boolean;
     onStart(app: Express, hostname: string, port: number): void;
     onDidAuthenticate: Event<AuthSuccessEvent>;
-    getProtocolProvider(): AuthProvider;
+    /**
+     * Returns the provider that is offered to users during the login.
+     * Endpoints that don't require any user interaction return `undefined`.
+     */
+    getProtocolProvider(): AuthProvider | undefined;
+    /**
+     * Tries to authenticate the user right away based on the initial login request.
+     * Fires `onDidAuthenticate` with the given token and resolves to `true` if successful.
+     */
+    authenticateRequest?(req: Request, token: string): Promise<boolean>;
+}
+
+export const AuthEndpointProvider = Symbol('AuthEndpointProvider');
+
+/**
+ * Contributes auth endpoints whose number is only known at runtime, e.g. because it depends on the configuration.
+ */
+export interface AuthEndpointProvider {
+    getAuthEndpoints(): AuthEndpoint[];
 }
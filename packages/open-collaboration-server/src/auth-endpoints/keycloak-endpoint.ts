@@ -74,6 +74,8 @@ export class KeycloakOAuthEndpoint extends OAuthEndpoint {
                 name: profile[this.userNameClaim ?? 'preferred_username'],
                 email: profile.email,
                 authProvider: this.label,
+                providerId: this.id,
+                subject: profile.sub
             };
             done(undefined, userInfo);
         });
@@ -0,0 +1,274 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { inject, injectable, postConstruct } from 'inversify';
+import { type Express } from 'express';
+import { Client, InvalidCredentialsError } from 'ldapts';
+import { Emitter, FormAuthProvider, Info } from 'open-collaboration-protocol';
+import { AuthEndpoint, AuthSuccessEvent, UserInfo } from './auth-endpoint.js';
+import { ThirdParty } from './oauth-endpoint.js';
+import { Logger } from '../utils/logging.js';
+import { Configuration } from '../utils/configuration.js';
+
+export interface LdapEntry {
+    dn: string;
+    [attribute: string]: string | string[];
+}
+
+/**
+ * A connection to an LDAP directory.
+ */
+export interface LdapClient {
+    /**
+     * Resolves to `false` if the directory rejects the credentials.
+     */
+    bind(dn: string, password: string): Promise<boolean>;
+    search(baseDN: string, filter: string, attributes: string[]): Promise<LdapEntry[]>;
+    unbind(): Promise<void>;
+}
+
+export const LdapClientFactory = Symbol('LdapClientFactory');
+export type LdapClientFactory = (url: string) => LdapClient;
+
+export class DefaultLdapClient implements LdapClient {
+
+    protected client: Client;
+
+    constructor(url: string) {
+        this.client = new Client({
+            url,
+            timeout: 10_000,
+            connectTimeout: 10_000
+        });
+    }
+
+    async bind(dn: string, password: string): Promise<boolean> {
+        try {
+            await this.client.bind(dn, password);
+            return true;
+        } catch (err) {
+            if (err instanceof InvalidCredentialsError) {
+                return false;
+            }
+            throw err;
+        }
+    }
+
+    async search(baseDN: string, filter: string, attributes: string[]): Promise<LdapEntry[]> {
+        const { searchEntries } = await this.client.search(baseDN, {
+            scope: 'sub',
+            filter,
+            attributes,
+            sizeLimit: 2
+        });
+        return searchEntries.map(entry => {
+            const result: LdapEntry = { dn: entry.dn };
+            for (const [key, value] of Object.entries(entry)) {
+                if (key !== 'dn') {
+                    result[key] = Array.isArray(value) ? value.map(item => item.toString()) : value.toString();
+                }
+            }
+            return result;
+        });
+    }
+
+    unbind(): Promise<void> {
+        return this.client.unbind();
+    }
+
+}
+
+/**
+ * Escapes a value for use in an LDAP search filter (see RFC 4515).
+ */
+export function escapeLdapFilterValue(value: string): string {
+    return value.replace(/[\\*()\0]/g, char => '\\' + char.charCodeAt(0).toString(16).padStart(2, '0'));
+}
+
+/**
+ * Form login that verifies the credentials of users by binding against an LDAP or Active Directory server.
+ */
+@injectable()
+export class LdapLoginEndpoint implements AuthEndpoint {
+
+    protected static readonly ENDPOINT = '/api/login/ldap';
+
+    @inject(Logger) protected logger: Logger;
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(LdapClientFactory) protected clientFactory: LdapClientFactory;
+
+    protected url?: string;
+    protected label: string;
+    protected baseDN: string;
+    protected userFilter: string;
+    protected nameAttribute: string;
+    protected emailAttribute: string;
+    protected groupAttribute: string;
+    protected allowedGroups: string[];
+
+    private authSuccessEmitter = new Emitter<AuthSuccessEvent>();
+    onDidAuthenticate = this.authSuccessEmitter.event;
+
+    @postConstruct()
+    protected initialize(): void {
+        this.url = this.configuration.getValue('oct-ldap-url');
+        this.label = this.configuration.getValue('oct-ldap-label') ?? 'LDAP';
+        this.baseDN = this.configuration.getValue('oct-ldap-base-dn') ?? '';
+        this.userFilter = this.configuration.getValue('oct-ldap-user-filter') ?? '(uid={username})';
+        this.nameAttribute = this.configuration.getValue('oct-ldap-name-attribute') ?? 'cn';
+        this.emailAttribute = this.configuration.getValue('oct-ldap-email-attribute') ?? 'mail';
+        this.groupAttribute = this.configuration.getValue('oct-ldap-group-attribute') ?? 'memberOf';
+        // Group DNs contain commas, so they are separated by semicolons
+        this.allowedGroups = (this.configuration.getValue('oct-ldap-allowed-groups') ?? '')
+            .split(';')
+            .map(group => normalizeDN(group))
+            .filter(group => group.length > 0);
+    }
+
+    shouldActivate(): boolean {
+        return !!this.url;
+    }
+
+    getProtocolProvider(): FormAuthProvider {
+        return {
+            type: 'form',
+            name: 'ldap',
+            endpoint: LdapLoginEndpoint.ENDPOINT,
+            label: {
+                code: '',
+                message: this.label,
+                params: []
+            },
+            details: {
+                code: '',
+                message: 'Login with your directory account',
+                params: []
+            },
+            group: ThirdParty,
+            fields: [
+                {
+                    name: 'user',
+                    label: {
+                        code: Info.Codes.UsernameLabel,
+                        message: 'Username',
+                        params: []
+                    },
+                    required: true
+                }, {
+                    name: 'password',
+                    label: {
+                        code: Info.Codes.PasswordLabel,
+                        message: 'Password',
+                        params: []
+                    },
+                    required: true,
+                    secret: true
+                }
+            ]
+        };
+    }
+
+    onStart(app: Express, _hostname: string, _port: number): void {
+        app.post(LdapLoginEndpoint.ENDPOINT, async (req, res) => {
+            const token = req.body.token;
+            const user = req.body.user;
+            const password = req.body.password;
+            if (typeof token !== 'string' || typeof user !== 'string' || typeof password !== 'string' || !user || !password) {
+                res.status(400);
+                res.send('Missing username or password');
+                return;
+            }
+            try {
+                const userInfo = await this.authenticate(user, password);
+                if (!userInfo) {
+                    res.status(401);
+                    res.send('Invalid username or password');
+                    return;
+                }
+                await Promise.all(this.authSuccessEmitter.fire({ token, userInfo }));
+                res.send('Ok');
+            } catch (err) {
+                this.logger.error('Failed to perform LDAP login', err);
+                res.status(500);
+                res.send('Failed to perform LDAP login');
+            }
+        });
+    }
+
+    /**
+     * Verifies the credentials of the given user.
+     * Resolves to `undefined` if the credentials are invalid or if the user isn't a member of any allowed group.
+     */
+    async authenticate(username: string, password: string): Promise<UserInfo | undefined> {
+        // An empty password would result in an unauthenticated bind, which always succeeds
+        if (!password) {
+            return undefined;
+        }
+        const entry = await this.findUser(username);
+        if (!entry) {
+            this.logger.debug(`LDAP user '${username}' not found`);
+            return undefined;
+        }
+        const client = this.clientFactory(this.url!);
+        try {
+            if (!await client.bind(entry.dn, password)) {
+                this.logger.debug(`Invalid credentials for LDAP user '${username}'`);
+                return undefined;
+            }
+        } finally {
+            await client.unbind();
+        }
+        if (!this.isAllowed(entry)) {
+            this.logger.info(`LDAP user '${username}' is not a member of any allowed group`);
+            return undefined;
+        }
+        return {
+            name: getFirstValue(entry, this.nameAttribute) ?? username,
+            email: getFirstValue(entry, this.emailAttribute),
+            authProvider: this.label,
+            providerId: 'ldap',
+            subject: entry.dn
+        };
+    }
+
+    protected async findUser(username: string): Promise<LdapEntry | undefined> {
+        const client = this.clientFactory(this.url!);
+        try {
+            const bindDN = this.configuration.getValue('oct-ldap-bind-dn');
+            if (bindDN && !await client.bind(bindDN, this.configuration.getValue('oct-ldap-bind-password') ?? '')) {
+                throw new Error('The LDAP server rejected the credentials of the bind DN');
+            }
+            const filter = this.userFilter.replaceAll('{username}', escapeLdapFilterValue(username));
+            const entries = await client.search(this.baseDN, filter, [this.nameAttribute, this.emailAttribute, this.groupAttribute]);
+            // Ambiguous filters must not allow logging in as an arbitrary user
+            return entries.length === 1 ? entries[0] : undefined;
+        } finally {
+            await client.unbind();
+        }
+    }
+
+    protected isAllowed(entry: LdapEntry): boolean {
+        if (this.allowedGroups.length === 0) {
+            return true;
+        }
+        const value = entry[this.groupAttribute] ?? [];
+        const groups = (Array.isArray(value) ? value : [value]).map(group => normalizeDN(group));
+        return groups.some(group => this.allowedGroups.includes(group));
+    }
+
+}
+
+function getFirstValue(entry: LdapEntry, attribute: string): string | undefined {
+    const value = entry[attribute];
+    const result = Array.isArray(value) ? value[0] : value;
+    return result || undefined;
+}
+
+function normalizeDN(dn: string): string {
+    return dn.split(',').map(part => part.trim()).join(',').toLowerCase();
+}
@@ -162,7 +162,9 @@ export class GitHubOAuthEndpoint extends OAuthEndpoint {
             const userInfo: UserInfo = {
                 name: profile.displayName,
                 email: profile.emails?.[0]?.value,
-                authProvider: 'Github'
+                authProvider: 'Github',
+                providerId: this.id,
+                subject: profile.id
             };
             done(undefined, userInfo);
         });
@@ -203,7 +205,9 @@ export class GoogleOAuthEndpoint extends OAuthEndpoint {
             const userInfo: UserInfo = {
                 name: profile.displayName,
                 email: profile.emails?.find(mail => mail.verified)?.value,
-                authProvider: 'Google'
+                authProvider: 'Google',
+                providerId: this.id,
+                subject: profile.id
             };
             done(undefined, userInfo);
         });
@@ -0,0 +1,320 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as crypto from 'node:crypto';
+import { inject, injectable, postConstruct } from 'inversify';
+import type { Request } from 'express';
+import passport from 'passport';
+import * as jose from 'jose';
+import { AuthProvider } from 'open-collaboration-protocol';
+import { AuthEndpoint, AuthEndpointProvider, UserInfo } from './auth-endpoint.js';
+import { OAuthEndpoint, ThirdParty } from './oauth-endpoint.js';
+import { Configuration } from '../utils/configuration.js';
+import { Logger } from '../utils/logging.js';
+
+export const OidcProviderName = Symbol('OidcProviderName');
+
+export const OidcEndpointFactory = Symbol('OidcEndpointFactory');
+export type OidcEndpointFactory = (name: string) => OidcEndpoint;
+
+/**
+ * The subset of the OpenID Provider Metadata used to authenticate users.
+ */
+export interface OidcProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+    token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcStrategyOptions {
+    issuer: string;
+    clientID: string;
+    clientSecret?: string;
+    callbackURL: string;
+    scope: string;
+}
+
+export type OidcVerifyFunction = (claims: jose.JWTPayload) => UserInfo;
+
+interface PendingLogin {
+    verifier: string;
+    nonce: string;
+    expiresAt: number;
+}
+
+const PENDING_LOGIN_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * Passport strategy for the OpenID Connect authorization code flow with PKCE.
+ * The endpoints of the provider are read from the `.well-known/openid-configuration` document of the issuer.
+ */
+export class OidcStrategy extends passport.Strategy {
+
+    protected metadata?: Promise<OidcProviderMetadata>;
+    protected jwks?: ReturnType<typeof jose.createRemoteJWKSet>;
+    protected pendingLogins = new Map<string, PendingLogin>();
+
+    constructor(protected options: OidcStrategyOptions, protected verify: OidcVerifyFunction) {
+        super();
+    }
+
+    override authenticate(req: Request, options?: { state?: string, scope?: string }): void {
+        this.doAuthenticate(req, options ?? {}).catch(err => this.error(err));
+    }
+
+    protected async doAuthenticate(req: Request, options: { state?: string, scope?: string }): Promise<void> {
+        if (req.query.error) {
+            this.fail({ message: String(req.query.error_description ?? req.query.error) });
+        } else if (req.query.code) {
+            await this.handleCallback(req);
+        } else if (options.state) {
+            await this.redirectToProvider(options.state, options.scope ?? this.options.scope);
+        } else {
+            this.fail({ message: 'Missing state' });
+        }
+    }
+
+    protected async redirectToProvider(state: string, scope: string): Promise<void> {
+        const metadata = await this.getMetadata();
+        this.prunePendingLogins();
+        const verifier = jose.base64url.encode(crypto.randomBytes(32));
+        const nonce = jose.base64url.encode(crypto.randomBytes(16));
+        this.pendingLogins.set(state, { verifier, nonce, expiresAt: Date.now() + PENDING_LOGIN_TIMEOUT });
+        const url = new URL(metadata.authorization_endpoint);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', this.options.clientID);
+        url.searchParams.set('redirect_uri', this.options.callbackURL);
+        url.searchParams.set('scope', scope);
+        url.searchParams.set('state', state);
+        url.searchParams.set('nonce', nonce);
+        url.searchParams.set('code_challenge', jose.base64url.encode(crypto.createHash('sha256').update(verifier).digest()));
+        url.searchParams.set('code_challenge_method', 'S256');
+        this.redirect(url.toString());
+    }
+
+    protected async handleCallback(req: Request): Promise<void> {
+        const state = String(req.query.state ?? '');
+        const pending = this.pendingLogins.get(state);
+        this.pendingLogins.delete(state);
+        if (!pending || pending.expiresAt < Date.now()) {
+            this.fail({ message: 'Unknown or expired login request' });
+            return;
+        }
+        const metadata = await this.getMetadata();
+        const tokens = await this.requestTokens(metadata, String(req.query.code), pending.verifier);
+        if (!tokens.id_token) {
+            throw new Error('The token response does not contain an ID token');
+        }
+        const { payload } = await jose.jwtVerify(tokens.id_token, this.getJwks(metadata), {
+            issuer: metadata.issuer,
+            audience: this.options.clientID
+        });
+        if (payload.nonce !== pending.nonce) {
+            throw new Error('The nonce of the ID token does not match the login request');
+        }
+        const userInfo = tokens.access_token ? await this.requestUserInfo(metadata, tokens.access_token) : undefined;
+        // The claims of the user info endpoint are only used if they belong to the same user
+        const claims = userInfo?.sub === payload.sub ? { ...userInfo, ...payload } : payload;
+        this.success(this.verify(claims));
+    }
+
+    protected async requestTokens(metadata: OidcProviderMetadata, code: string, verifier: string): Promise<{ id_token?: string, access_token?: string }> {
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: this.options.callbackURL,
+            code_verifier: verifier
+        });
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json'
+        };
+        const authMethods = metadata.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+        if (this.options.clientSecret && authMethods.includes('client_secret_basic')) {
+            const credentials = `${encodeURIComponent(this.options.clientID)}:${encodeURIComponent(this.options.clientSecret)}`;
+            headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        } else {
+            body.set('client_id', this.options.clientID);
+            if (this.options.clientSecret) {
+                body.set('client_secret', this.options.clientSecret);
+            }
+        }
+        const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+        if (!response.ok) {
+            throw new Error(`Failed to retrieve tokens: ${response.status} ${await response.text()}`);
+        }
+        return await response.json() as { id_token?: string, access_token?: string };
+    }
+
+    protected async requestUserInfo(metadata: OidcProviderMetadata, accessToken: string): Promise<jose.JWTPayload | undefined> {
+        if (!metadata.userinfo_endpoint) {
+            return undefined;
+        }
+        const response = await fetch(metadata.userinfo_endpoint, {
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                Accept: 'application/json'
+            }
+        });
+        if (!response.ok) {
+            return undefined;
+        }
+        return await response.json() as jose.JWTPayload;
+    }
+
+    protected getMetadata(): Promise<OidcProviderMetadata> {
+        this.metadata ??= this.discover().catch(err => {
+            // Retry the discovery on the next login
+            this.metadata = undefined;
+            throw err;
+        });
+        return this.metadata;
+    }
+
+    protected async discover(): Promise<OidcProviderMetadata> {
+        const issuer = this.options.issuer.replace(/\/$/, '');
+        const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+            headers: { Accept: 'application/json' }
+        });
+        if (!response.ok) {
+            throw new Error(`Failed to discover the OpenID configuration of '${issuer}': ${response.status}`);
+        }
+        const metadata = await response.json() as OidcProviderMetadata;
+        if (metadata.issuer?.replace(/\/$/, '') !== issuer) {
+            throw new Error(`The OpenID configuration of '${issuer}' belongs to a different issuer '${metadata.issuer}'`);
+        }
+        return metadata;
+    }
+
+    protected getJwks(metadata: OidcProviderMetadata): ReturnType<typeof jose.createRemoteJWKSet> {
+        this.jwks ??= jose.createRemoteJWKSet(new URL(metadata.jwks_uri));
+        return this.jwks;
+    }
+
+    protected prunePendingLogins(): void {
+        const now = Date.now();
+        for (const [state, login] of this.pendingLogins) {
+            if (login.expiresAt < now) {
+                this.pendingLogins.delete(state);
+            }
+        }
+    }
+
+}
+
+/**
+ * Authenticates users with an OpenID Connect provider.
+ * All settings are read from the configuration keys prefixed with `oct-oidc-{name}`.
+ */
+@injectable()
+export class OidcEndpoint extends OAuthEndpoint {
+
+    @inject(OidcProviderName) protected name: string;
+
+    protected override id: string;
+    protected override path: string;
+    protected override redirectPath: string;
+
+    protected label: string;
+    protected issuer?: string;
+    protected clientID?: string;
+    protected clientSecret?: string;
+    protected nameClaim: string;
+    protected emailClaim: string;
+
+    @postConstruct()
+    init() {
+        const prefix = `oct-oidc-${this.name}`;
+        this.id = `oidc-${this.name}`;
+        this.path = `/api/login/oidc-${this.name}`;
+        this.redirectPath = `/api/login/oidc-${this.name}-callback`;
+        this.issuer = this.configuration.getValue(`${prefix}-issuer`);
+        this.clientID = this.configuration.getValue(`${prefix}-client-id`);
+        this.clientSecret = this.configuration.getValue(`${prefix}-client-secret`);
+        this.label = this.configuration.getValue(`${prefix}-label`) ?? this.name;
+        this.scope = this.configuration.getValue(`${prefix}-scope`) ?? 'openid profile email';
+        this.nameClaim = this.configuration.getValue(`${prefix}-name-claim`) ?? 'name';
+        this.emailClaim = this.configuration.getValue(`${prefix}-email-claim`) ?? 'email';
+        super.initialize();
+    }
+
+    getProtocolProvider(): AuthProvider {
+        return {
+            endpoint: this.path,
+            name: this.label,
+            type: 'web',
+            label: {
+                code: '',
+                message: this.label,
+                params: []
+            },
+            group: ThirdParty
+        };
+    }
+
+    shouldActivate(): boolean {
+        return !!this.issuer && !!this.clientID;
+    }
+
+    getStrategy(host: string, port: number): passport.Strategy {
+        return new OidcStrategy({
+            issuer: this.issuer!,
+            clientID: this.clientID!,
+            clientSecret: this.clientSecret,
+            callbackURL: this.createRedirectUrl(host, port, this.redirectPath),
+            scope: this.scope!
+        }, claims => this.toUserInfo(claims));
+    }
+
+    protected toUserInfo(claims: jose.JWTPayload): UserInfo {
+        const name = claims[this.nameClaim] ?? claims.preferred_username ?? claims.sub;
+        const email = claims[this.emailClaim];
+        return {
+            name: String(name),
+            // Don't trust email addresses that the provider explicitly marks as unverified
+            email: typeof email === 'string' && claims.email_verified !== false ? email : undefined,
+            authProvider: this.label,
+            // Users of the same issuer are the same, regardless of the configured provider name and label
+            providerId: this.issuer!.replace(/\/$/, ''),
+            subject: claims.sub
+        };
+    }
+
+}
+
+/**
+ * Creates an {@link OidcEndpoint} for each provider name listed in the `oct-oidc-providers` configuration key.
+ */
+@injectable()
+export class OidcEndpointProvider implements AuthEndpointProvider {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    @inject(OidcEndpointFactory) protected endpointFactory: OidcEndpointFactory;
+
+    protected endpoints?: OidcEndpoint[];
+
+    getAuthEndpoints(): AuthEndpoint[] {
+        if (!this.endpoints) {
+            const names = this.configuration.getValue('oct-oidc-providers')?.split(',').map(name => name.trim()).filter(name => name.length > 0) ?? [];
+            this.endpoints = [];
+            for (const name of new Set(names)) {
+                if (!/^[a-z0-9_]+$/i.test(name)) {
+                    this.logger.error(`Invalid OpenID Connect provider name '${name}'. Only letters, digits and underscores are allowed`);
+                    continue;
+                }
+                this.endpoints.push(this.endpointFactory(name));
+            }
+        }
+        return this.endpoints;
+    }
+
+}
@@ -0,0 +1,114 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as net from 'node:net';
+import { inject, injectable, postConstruct } from 'inversify';
+import type { Express, Request } from 'express';
+import { Emitter } from 'open-collaboration-protocol';
+import { AuthEndpoint, AuthSuccessEvent, UserInfo } from './auth-endpoint.js';
+import { Logger } from '../utils/logging.js';
+import { Configuration } from '../utils/configuration.js';
+
+/**
+ * Authenticates users through the headers set by an SSO reverse proxy, such as oauth2-proxy or Pomerium.
+ * The headers are only trusted on requests that originate from the proxies configured in `oct-proxy-auth-trusted-proxies`.
+ */
+@injectable()
+export class ProxyAuthEndpoint implements AuthEndpoint {
+
+    @inject(Logger) protected logger: Logger;
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    protected trustedProxies?: net.BlockList;
+    protected userHeader: string;
+    protected emailHeader: string;
+    protected nameHeader: string;
+    protected providerName: string;
+
+    private authSuccessEmitter = new Emitter<AuthSuccessEvent>();
+    onDidAuthenticate = this.authSuccessEmitter.event;
+
+    @postConstruct()
+    protected initialize(): void {
+        const trustedProxies = this.configuration.getValue('oct-proxy-auth-trusted-proxies');
+        if (trustedProxies) {
+            this.trustedProxies = this.parseTrustedProxies(trustedProxies);
+        }
+        this.userHeader = (this.configuration.getValue('oct-proxy-auth-user-header') ?? 'x-forwarded-user').toLowerCase();
+        this.emailHeader = (this.configuration.getValue('oct-proxy-auth-email-header') ?? 'x-forwarded-email').toLowerCase();
+        this.nameHeader = (this.configuration.getValue('oct-proxy-auth-name-header') ?? 'x-forwarded-preferred-username').toLowerCase();
+        this.providerName = this.configuration.getValue('oct-proxy-auth-provider-name') ?? 'Proxy';
+    }
+
+    /**
+     * Parses a comma separated list of IP addresses and CIDR ranges, e.g. `10.0.0.0/8,::1`.
+     */
+    protected parseTrustedProxies(value: string): net.BlockList {
+        const blockList = new net.BlockList();
+        for (const entry of value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0)) {
+            const [address, prefix] = entry.split('/');
+            const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+            const prefixLength = Number(prefix);
+            if (!net.isIP(address) || (prefix !== undefined && !(Number.isInteger(prefixLength) && prefixLength >= 0 && prefixLength <= (family === 'ipv6' ? 128 : 32)))) {
+                throw this.logger.createErrorAndLog(`Invalid trusted proxy address '${entry}'`);
+            }
+            if (prefix === undefined) {
+                blockList.addAddress(address, family);
+            } else {
+                blockList.addSubnet(address, prefixLength, family);
+            }
+        }
+        return blockList;
+    }
+
+    shouldActivate(): boolean {
+        return this.trustedProxies !== undefined;
+    }
+
+    getProtocolProvider(): undefined {
+        // Users are authenticated without any interaction
+        return undefined;
+    }
+
+    onStart(_app: Express, _hostname: string, _port: number): void {
+        this.logger.info(`Trusting the '${this.userHeader}' header of requests from the configured proxies`);
+    }
+
+    async authenticateRequest(req: Request, token: string): Promise<boolean> {
+        const userInfo = this.getUserInfo(req);
+        if (!userInfo) {
+            return false;
+        }
+        await Promise.all(this.authSuccessEmitter.fire({ token, userInfo }));
+        return true;
+    }
+
+    protected getUserInfo(req: Request): UserInfo | undefined {
+        const remoteAddress = req.socket.remoteAddress;
+        if (!this.trustedProxies || !remoteAddress || !this.trustedProxies.check(remoteAddress, net.isIPv6(remoteAddress) ? 'ipv6' : 'ipv4')) {
+            return undefined;
+        }
+        const user = this.getHeader(req, this.userHeader);
+        if (!user) {
+            return undefined;
+        }
+        return {
+            name: this.getHeader(req, this.nameHeader) ?? user,
+            email: this.getHeader(req, this.emailHeader),
+            authProvider: this.providerName,
+            providerId: 'proxy',
+            subject: user
+        };
+    }
+
+    protected getHeader(req: Request, name: string): string | undefined {
+        const value = req.headers[name];
+        const result = Array.isArray(value) ? value[0] : value;
+        return result?.trim() || undefined;
+    }
+
+}
@@ -4,40 +4,95 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
-import { inject, injectable } from 'inversify';
+import * as crypto from 'node:crypto';
+import { inject, injectable, postConstruct } from 'inversify';
 import { type Express } from 'express';
 import { Emitter, FormAuthProvider, Info } from 'open-collaboration-protocol';
-import { AuthEndpoint, AuthSuccessEvent } from './auth-endpoint.js';
+import { AuthEndpoint, AuthSuccessEvent, UserInfo } from './auth-endpoint.js';
+import { CredentialsManager } from '../credentials-manager.js';
+import { Mailer } from '../mailer.js';
 import { Logger } from '../utils/logging.js';
 import { Configuration } from '../utils/configuration.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+
+interface PendingVerification {
+    token: string;
+    userInfo: UserInfo;
+    expiresAt: number;
+}
+
+/**
+ * Login links expire together with the login request.
+ */
+const VERIFICATION_TIMEOUT = 5 * 60 * 1000;
+
+const LOGIN_LINK_RATE_LIMIT_WINDOW = 15 * 60 * 1000;
 
 @injectable()
 export class SimpleLoginEndpoint implements AuthEndpoint {
 
     protected static readonly ENDPOINT = '/api/login/simple';
+    protected static readonly VERIFY_ENDPOINT = '/api/login/simple/verify';
 
     @inject(Logger) protected logger: Logger;
 
     @inject(Configuration) protected configuration: Configuration;
 
+    @inject(CredentialsManager) protected credentials: CredentialsManager;
+
+    @inject(Mailer) protected mailer: Mailer;
+
+    protected pendingVerifications = new Map<string, PendingVerification>();
+    // Prevent the server from being abused to flood mailboxes with login links
+    protected addressRateLimiter: RateLimiter;
+    protected clientRateLimiter: RateLimiter;
+
     private authSuccessEmitter = new Emitter<AuthSuccessEvent>();
     onDidAuthenticate = this.authSuccessEmitter.event;
 
+    @postConstruct()
+    protected initialize(): void {
+        this.addressRateLimiter = new RateLimiter({
+            limit: this.configuration.getValue('oct-simple-login-max-emails-per-address', 'number') ?? 3,
+            window: LOGIN_LINK_RATE_LIMIT_WINDOW
+        });
+        this.clientRateLimiter = new RateLimiter({
+            limit: this.configuration.getValue('oct-simple-login-max-emails-per-ip', 'number') ?? 10,
+            window: LOGIN_LINK_RATE_LIMIT_WINDOW
+        });
+    }
+
     shouldActivate(): boolean {
         return this.configuration.getValue('oct-activate-simple-login', 'boolean') ?? false;
     }
 
+    /**
+     * Whether users need to confirm their email address through a one-time login link.
+     */
+    protected shouldVerifyEmail(): boolean {
+        return this.configuration.getValue('oct-simple-login-verify-email', 'boolean') ?? false;
+    }
+
     getProtocolProvider(): FormAuthProvider {
+        const verifyEmail = this.shouldVerifyEmail();
         return {
             type: 'form',
-            name: 'unverified',
+            name: verifyEmail ? 'email' : 'unverified',
             endpoint: SimpleLoginEndpoint.ENDPOINT,
-            label: {
+            label: verifyEmail ? {
+                code: '',
+                message: 'Email',
+                params: []
+            } : {
                 code: Info.Codes.UnverifiedLoginLabel,
                 message: 'Unverified',
                 params: []
             },
-            details: {
+            details: verifyEmail ? {
+                code: '',
+                message: 'Login with a user name and confirm your email address through a login link',
+                params: []
+            } : {
                 code: Info.Codes.UnverifiedLoginDetails,
                 message: 'Login with a user name and an optional email address',
                 params: []
@@ -68,8 +123,12 @@ export class SimpleLoginEndpoint implements AuthEndpoint {
                         message: 'Email',
                         params: []
                     },
-                    required: false,
-                    placeHolder: {
+                    required: verifyEmail,
+                    placeHolder: verifyEmail ? {
+                        code: '',
+                        message: 'Your email address that the login link is sent to',
+                        params: []
+                    } : {
                         code: Info.Codes.EmailPlaceholder,
                         message: 'Your email that will be shown to the host when joining the session',
                         params: []
@@ -79,13 +138,24 @@ export class SimpleLoginEndpoint implements AuthEndpoint {
         };
     }
 
-    onStart(app: Express, _hostname: string, _port: number): void {
+    onStart(app: Express, hostname: string, port: number): void {
         app.post(SimpleLoginEndpoint.ENDPOINT, async (req, res) => {
             try {
                 const token = req.body.token as string;
                 const user = req.body.user as string;
                 const email = req.body.email as string | undefined;
-                await Promise.all(this.authSuccessEmitter.fire({ token, userInfo: { name: user, email, authProvider: 'Unverified' } }));
+                if (this.shouldVerifyEmail()) {
+                    const client = req.ip ?? 'unknown';
+                    if (!this.clientRateLimiter.consume(client) || !this.addressRateLimiter.consume(String(email).toLowerCase())) {
+                        this.logger.warn(`Too many login links requested by '${client}'`);
+                        res.status(429);
+                        res.send('Too many login links requested, please try again later');
+                        return;
+                    }
+                    await this.sendLoginLink(token, user, email, this.getBaseUrl(hostname, port));
+                } else {
+                    await Promise.all(this.authSuccessEmitter.fire({ token, userInfo: { name: user, email, authProvider: 'Unverified' } }));
+                }
                 res.send('Ok');
             } catch (err) {
                 this.logger.error('Failed to perform simple login', err);
@@ -93,5 +163,98 @@ export class SimpleLoginEndpoint implements AuthEndpoint {
                 res.send('Failed to perform simple login');
             }
         });
+        // Email clients and link scanners might open the link without the user's interaction,
+        // so the login is only completed once the user confirms it on the opened page
+        app.get(`${SimpleLoginEndpoint.VERIFY_ENDPOINT}/:id`, (req, res) => {
+            if (!this.getPendingVerification(req.params.id)) {
+                res.status(400);
+                res.send('The login link is invalid or has expired');
+                return;
+            }
+            res.type('html');
+            res.send(`<!DOCTYPE html>
+<html>
+<head><title>Open Collaboration Tools</title></head>
+<body>
+    <form method="post">
+        <p>Confirm your login to Open Collaboration Tools.</p>
+        <button type="submit">Login</button>
+    </form>
+</body>
+</html>`);
+        });
+        app.post(`${SimpleLoginEndpoint.VERIFY_ENDPOINT}/:id`, async (req, res) => {
+            const verification = this.getPendingVerification(req.params.id);
+            this.pendingVerifications.delete(req.params.id);
+            if (!verification) {
+                res.status(400);
+                res.send('The login link is invalid or has expired');
+                return;
+            }
+            try {
+                await Promise.all(this.authSuccessEmitter.fire({ token: verification.token, userInfo: verification.userInfo }));
+            } catch (err) {
+                this.logger.error('Failed to complete email login', err);
+                res.status(500);
+                res.send('Internal server error occured during Login. Please try again');
+                return;
+            }
+            const loginSuccessURL = this.configuration.getValue('oct-login-success-url');
+            if (loginSuccessURL) {
+                res.redirect(loginSuccessURL);
+            } else {
+                res.send('Login Successful. You can close this page');
+            }
+        });
+    }
+
+    /**
+     * Sends a one-time link to the given email address, which completes the login request of the given token.
+     */
+    async sendLoginLink(token: string, user: string, email: string | undefined, baseUrl: string): Promise<void> {
+        if (!user || !email || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+            throw new Error('A user name and a valid email address are required');
+        }
+        if (!await this.credentials.getAuth(token)) {
+            throw new Error('Login timed out');
+        }
+        this.prunePendingVerifications();
+        const id = crypto.randomBytes(32).toString('base64url');
+        this.pendingVerifications.set(id, {
+            token,
+            userInfo: {
+                name: user,
+                email,
+                authProvider: 'Email',
+                providerId: 'email',
+                subject: email.toLowerCase()
+            },
+            expiresAt: Date.now() + VERIFICATION_TIMEOUT
+        });
+        const link = new URL(`${SimpleLoginEndpoint.VERIFY_ENDPOINT}/${id}`, baseUrl).toString();
+        await this.mailer.send({
+            to: email,
+            subject: 'Your Open Collaboration Tools login link',
+            // The user name is not included, as it has not been verified
+            text: `Hello,\n\nopen the following link to complete your login to Open Collaboration Tools:\n\n${link}\n\nThe link expires in 5 minutes. If you didn't request this login, you can ignore this email.`
+        });
+    }
+
+    protected getPendingVerification(id: string): PendingVerification | undefined {
+        const verification = this.pendingVerifications.get(id);
+        return verification && verification.expiresAt > Date.now() ? verification : undefined;
+    }
+
+    protected prunePendingVerifications(): void {
+        const now = Date.now();
+        for (const [id, verification] of this.pendingVerifications) {
+            if (verification.expiresAt < now) {
+                this.pendingVerifications.delete(id);
+            }
+        }
+    }
+
+    protected getBaseUrl(hostname: string, port: number): string {
+        return this.configuration.getValue('oct-base-url') ?? `http://${hostname === '0.0.0.0' ? 'localhost' : hostname}:${port}`;
     }
 }
@@ -6,13 +6,32 @@
 
 import { Socket } from 'socket.io';
 import * as ws from 'ws';
-import { Disposable, Emitter, Encoding, Event, DisposableCollection, Message } from 'open-collaboration-protocol';
+import { Disposable, Emitter, Encoding, Event, DisposableCollection, ErrorMessage, Message, Messages, NotificationMessage } from 'open-collaboration-protocol';
+import { Logger } from './utils/logging.js';
+
+export interface ChannelOptions {
+    /**
+     * Time in milliseconds that the channel waits for the peer to reconnect before it is closed.
+     * Defaults to 60 seconds, like the `oct-reconnect-grace-period` configuration key.
+     */
+    gracePeriod?: number;
+    /**
+     * Maximum number of messages that are buffered while the peer is disconnected.
+     */
+    maxBufferedMessages?: number;
+    /**
+     * Maximum number of bytes that are buffered while the peer is disconnected.
+     * Also applies to the bytes that the transport has not been able to send yet.
+     */
+    maxBufferedBytes?: number;
+}
 
 export class Channel {
 
     private onDidCloseEmitter = new Emitter<void>();
     private onDidDisconnectEmitter = new Emitter<void>();
     private onDidReconnectEmitter = new Emitter<void>();
+    private onDidOverflowEmitter = new Emitter<string>();
     private onMessageEmitter = new Emitter<Message>();
 
     get onClose(): Event<void> {
@@ -27,13 +46,25 @@ export class Channel {
         return this.onDidReconnectEmitter.event;
     }
 
+    /**
+     * Fired with the reason before the channel is closed because the peer cannot keep up with its messages.
+     */
+    get onOverflow(): Event<string> {
+        return this.onDidOverflowEmitter.event;
+    }
+
     get transport(): TransportChannel | undefined {
         return this._transport;
     }
 
     set transport(transport: TransportChannel | undefined) {
         this.toDispose.dispose();
+        const previous = this._transport;
         this._transport = transport;
+        if (previous && previous !== transport) {
+            // The peer might resume its session before the server notices that the previous connection has been lost
+            previous.close();
+        }
         if (transport) {
             this.toDispose.push(transport.onClose(() => {
                 this.onDidDisconnectEmitter.fire();
@@ -47,16 +78,29 @@ export class Channel {
                 transport.sendMessage(message);
             }
             this.buffer = [];
+            this.bufferedBytes = 0;
+            if (this.resyncRequired) {
+                this.sendResync(transport);
+            }
         }
     }
 
     private _transport?: TransportChannel;
     // Buffer to store messages that couldn't be sent yet due to a disconnect
     private buffer: Message[] = [];
+    private bufferedBytes = 0;
+    // Whether transient messages have been dropped since the peer has last been asked to resync
+    private resyncRequired = false;
+    private closed = false;
     private toDispose = new DisposableCollection();
     private closeTimeout: NodeJS.Timeout | undefined;
+    private readonly maxBufferedMessages: number;
+    private readonly maxBufferedBytes: number;
 
-    constructor(transport: TransportChannel) {
+    constructor(transport: TransportChannel, options: ChannelOptions = {}) {
+        const gracePeriod = options.gracePeriod ?? 60_000;
+        this.maxBufferedMessages = options.maxBufferedMessages ?? Infinity;
+        this.maxBufferedBytes = options.maxBufferedBytes ?? Infinity;
         this._transport = transport;
         this.toDispose.push(transport.onClose(() => {
             this.onDidDisconnectEmitter.fire();
@@ -68,7 +112,7 @@ export class Channel {
         this.onDisconnect(() => {
             this.closeTimeout = setTimeout(() => {
                 this.close();
-            }, 30_000);
+            }, gracePeriod);
         });
         this.onReconnect(() => {
             if (this.closeTimeout) {
@@ -78,24 +122,76 @@ export class Channel {
         });
     }
 
+    /**
+     * Number of messages that wait for the peer to reconnect.
+     */
+    get bufferedMessages(): number {
+        return this.buffer.length;
+    }
+
     get onMessage(): Event<Message> {
         return this.onMessageEmitter.event;
     }
 
     sendMessage(message: Message): void {
-        if (this._transport) {
-            this._transport.sendMessage(message);
+        if (this.closed) {
+            return;
+        }
+        const transport = this._transport;
+        if (!transport) {
+            this.bufferMessage(message);
+        } else if ((transport.bufferedAmount ?? 0) > this.maxBufferedBytes) {
+            // The peer does not receive the messages as fast as they are sent to it
+            if (message.metadata.transient) {
+                this.resyncRequired = true;
+            } else {
+                this.overflow('The connection is too slow to keep up with the messages of the session');
+            }
         } else {
-            this.buffer.push(message);
+            if (this.resyncRequired) {
+                this.sendResync(transport);
+            }
+            transport.sendMessage(message);
+        }
+    }
+
+    private bufferMessage(message: Message): void {
+        if (message.metadata.transient) {
+            // A single resync after reconnecting replaces all transient messages that the peer has missed
+            this.resyncRequired = true;
+            return;
+        }
+        this.buffer.push(message);
+        this.bufferedBytes += getMessageSize(message);
+        if (this.buffer.length > this.maxBufferedMessages || this.bufferedBytes > this.maxBufferedBytes) {
+            this.overflow('Too many messages have been missed while the connection was lost');
         }
     }
 
+    private sendResync(transport: TransportChannel): void {
+        this.resyncRequired = false;
+        transport.sendMessage(NotificationMessage.create(Messages.Sync.Resync, '', undefined));
+    }
+
+    private overflow(reason: string): void {
+        this.onDidOverflowEmitter.fire(reason);
+        this._transport?.sendMessage(ErrorMessage.create(reason));
+        this.close();
+    }
+
     close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        clearTimeout(this.closeTimeout);
+        this.buffer = [];
         this.toDispose.dispose();
         this.onDidCloseEmitter.fire();
         this.onDidCloseEmitter.dispose();
         this.onDidDisconnectEmitter.dispose();
         this.onDidReconnectEmitter.dispose();
+        this.onDidOverflowEmitter.dispose();
         this.transport?.close();
     }
 
@@ -106,6 +202,14 @@ export interface TransportChannel {
     sendMessage(message: Message): void;
     close(): void;
     onClose: Event<void>;
+    /**
+     * Number of bytes that have been passed to the transport, but have not been sent yet.
+     */
+    readonly bufferedAmount?: number;
+}
+
+function getMessageSize(message: Message): number {
+    return Message.isEncrypted(message) ? message.content.byteLength : Encoding.encode(message).byteLength;
 }
 
 export class WebSocketChannel implements TransportChannel {
@@ -117,17 +221,26 @@ export class WebSocketChannel implements TransportChannel {
 
     private _socket: ws.WebSocket;
 
-    constructor(socket: ws.WebSocket) {
+    constructor(socket: ws.WebSocket, private readonly logger: Logger) {
         this._socket = socket;
         this._socket.onclose = () => {
             this.onDidCloseEmitter.fire();
         };
     }
 
+    get bufferedAmount(): number {
+        return this._socket.bufferedAmount;
+    }
+
     onMessage(cb: (message: Message) => void): Disposable {
         const decode = (message: ArrayBuffer) => {
-            const data = Encoding.decode(new Uint8Array(message)) as Message;
-            cb(data);
+            // Exceptions thrown in the listener would crash the server process
+            try {
+                const data = Encoding.decode(new Uint8Array(message)) as Message;
+                cb(data);
+            } catch (e) {
+                this.logger.error('Failed to handle web socket message', e);
+            }
         };
         this._socket.on('message', decode);
         return Disposable.create(() => {
@@ -156,12 +269,21 @@ export class SocketIoChannel implements TransportChannel {
     }
 
     private _socket: Socket;
+    // Socket.IO does not expose the amount of buffered data, so we count the bytes sent since the transport has last been drained
+    private pendingBytes = 0;
 
-    constructor(socket: Socket) {
+    constructor(socket: Socket, private readonly logger: Logger) {
         this._socket = socket;
         this._socket.on('disconnect', () => {
             this.onDidCloseEmitter.fire();
         });
+        const onDrain = () => this.pendingBytes = 0;
+        this._socket.conn.transport.on('drain', onDrain);
+        this._socket.conn.on('upgrade', transport => transport.on('drain', onDrain));
+    }
+
+    get bufferedAmount(): number {
+        return this._socket.conn.transport.writable ? 0 : this.pendingBytes;
     }
 
     onMessage(cb: (message: Message) => void): Disposable {
@@ -169,8 +291,8 @@ export class SocketIoChannel implements TransportChannel {
             try {
                 const data = Encoding.decode(new Uint8Array(message)) as Message;
                 cb(data);
-            } catch(e) {
-                console.error(e);
+            } catch (e) {
+                this.logger.error('Failed to handle socket.io message', e);
             }
         };
         this._socket.on('message', decode);
@@ -181,6 +303,7 @@ export class SocketIoChannel implements TransportChannel {
 
     sendMessage(message: Message): void {
         const buffer = Encoding.encode(message);
+        this.pendingBytes += buffer.byteLength;
         this._socket.send(buffer);
     }
 
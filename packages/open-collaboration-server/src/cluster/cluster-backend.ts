@@ -0,0 +1,60 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { injectable } from 'inversify';
+import { Disposable } from 'open-collaboration-protocol';
+
+export type ClusterMessageHandler = (data: Uint8Array) => void;
+
+export const ClusterBackend = Symbol('ClusterBackend');
+
+/**
+ * Publish/subscribe backend used to exchange messages between the nodes of a server cluster.
+ * Implementations are expected to deliver messages of a single topic in the order they were published.
+ */
+export interface ClusterBackend {
+    publish(topic: string, data: Uint8Array): Promise<void>;
+    subscribe(topic: string, handler: ClusterMessageHandler): Promise<Disposable>;
+}
+
+/**
+ * Cluster backend that only connects server instances within the same process.
+ * Useful for local testing of cluster setups.
+ */
+@injectable()
+export class LoopbackClusterBackend implements ClusterBackend {
+
+    protected static readonly subscriptions = new Map<string, Set<ClusterMessageHandler>>();
+
+    async publish(topic: string, data: Uint8Array): Promise<void> {
+        const handlers = LoopbackClusterBackend.subscriptions.get(topic);
+        if (!handlers) {
+            return;
+        }
+        // Deliver asynchronously to mimic the behavior of a remote backend
+        setImmediate(() => {
+            for (const handler of Array.from(handlers)) {
+                handler(data);
+            }
+        });
+    }
+
+    async subscribe(topic: string, handler: ClusterMessageHandler): Promise<Disposable> {
+        let handlers = LoopbackClusterBackend.subscriptions.get(topic);
+        if (!handlers) {
+            handlers = new Set();
+            LoopbackClusterBackend.subscriptions.set(topic, handlers);
+        }
+        handlers.add(handler);
+        return Disposable.create(() => {
+            handlers.delete(handler);
+            if (handlers.size === 0) {
+                LoopbackClusterBackend.subscriptions.delete(topic);
+            }
+        });
+    }
+
+}
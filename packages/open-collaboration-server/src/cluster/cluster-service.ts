@@ -0,0 +1,176 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { inject, injectable, postConstruct } from 'inversify';
+import { nanoid } from 'nanoid';
+import * as protocol from 'open-collaboration-protocol';
+import { ClusterBackend, LoopbackClusterBackend } from './cluster-backend.js';
+import { User } from '../types.js';
+import { Configuration } from '../utils/configuration.js';
+import { Logger } from '../utils/logging.js';
+
+/**
+ * Information about a peer that is connected to another node of the cluster.
+ */
+export interface ClusterPeerData {
+    id: string;
+    roomId: string;
+    host: boolean;
+    client: string;
+    user: User;
+    peer: protocol.Peer;
+}
+
+export type JoinPollData = protocol.JoinRoomResponse | protocol.JoinRoomPollResponse;
+
+/**
+ * Events that are published to all nodes of the cluster.
+ */
+export type ClusterEvent =
+    | { kind: 'hello' }
+    | { kind: 'peer-joined', peer: ClusterPeerData }
+    | { kind: 'peer-left', roomId: string, peerId: string }
+    | { kind: 'room-closed', roomId: string }
+    | { kind: 'host-changed', roomId: string, peerId: string }
+    | { kind: 'peer-kicked', roomId: string, peerId: string, ban: boolean }
+    | { kind: 'token-revoked', id: string, expiresAt: number }
+    | { kind: 'join-poll', pollId: string, result?: JoinPollData, disposed?: boolean };
+
+/**
+ * Messages that are sent to a single node of the cluster.
+ */
+export type ClusterNodeMessage =
+    | { kind: 'relay', peerId: string, message: protocol.Message }
+    | { kind: 'response', message: protocol.UnknownResponseMessage | protocol.UnknownResponseErrorMessage };
+
+export interface ClusterEnvelope<T> {
+    /**
+     * The id of the node that sent the message.
+     */
+    node: string;
+    data: T;
+}
+
+/**
+ * Connects this server instance to the other nodes of a server cluster.
+ * Cluster mode is disabled unless `oct-cluster-enabled` is set.
+ * The default {@link LoopbackClusterBackend} only reaches nodes within the same process,
+ * deployments with multiple processes need to bind their own {@link ClusterBackend}.
+ */
+@injectable()
+export class ClusterService {
+
+    @inject(ClusterBackend) protected backend: ClusterBackend;
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    private _nodeId: string;
+    private _enabled = false;
+    private topicPrefix: string;
+    private ready: Promise<void> = Promise.resolve();
+    private readonly toDispose = new protocol.DisposableCollection();
+    private readonly onEventEmitter = new protocol.Emitter<ClusterEnvelope<ClusterEvent>>();
+    private readonly onNodeMessageEmitter = new protocol.Emitter<ClusterEnvelope<ClusterNodeMessage>>();
+
+    get nodeId(): string {
+        return this._nodeId;
+    }
+
+    get enabled(): boolean {
+        return this._enabled;
+    }
+
+    /**
+     * Fired for every event published by another node of the cluster.
+     */
+    get onEvent(): protocol.Event<ClusterEnvelope<ClusterEvent>> {
+        return this.onEventEmitter.event;
+    }
+
+    /**
+     * Fired for every message that another node has sent to this node.
+     */
+    get onNodeMessage(): protocol.Event<ClusterEnvelope<ClusterNodeMessage>> {
+        return this.onNodeMessageEmitter.event;
+    }
+
+    @postConstruct()
+    protected initialize(): void {
+        this._enabled = this.configuration.getValue('oct-cluster-enabled', 'boolean') ?? false;
+        this._nodeId = this.configuration.getValue('oct-cluster-node-id') ?? nanoid(12);
+        this.topicPrefix = this.configuration.getValue('oct-cluster-topic-prefix') ?? 'oct';
+        if (this._enabled) {
+            if (this.backend instanceof LoopbackClusterBackend) {
+                this.logger.warn('Cluster mode is enabled, but the loopback cluster backend only connects server instances within the same process. Bind a different ClusterBackend to connect multiple server processes.');
+            }
+            this.ready = this.start().catch(err => {
+                this.logger.error('Failed to connect to the cluster backend', err);
+            });
+        }
+    }
+
+    protected async start(): Promise<void> {
+        this.toDispose.push(await this.backend.subscribe(this.getEventTopic(), data => {
+            const envelope = protocol.Encoding.decode(data) as ClusterEnvelope<ClusterEvent>;
+            if (envelope.node !== this._nodeId) {
+                this.onEventEmitter.fire(envelope);
+            }
+        }));
+        this.toDispose.push(await this.backend.subscribe(this.getNodeTopic(this._nodeId), data => {
+            const envelope = protocol.Encoding.decode(data) as ClusterEnvelope<ClusterNodeMessage>;
+            this.onNodeMessageEmitter.fire(envelope);
+        }));
+        this.logger.info(`Joined server cluster as node '${this._nodeId}'`);
+        await this.doPublish(this.getEventTopic(), { kind: 'hello' });
+    }
+
+    protected getEventTopic(): string {
+        return `${this.topicPrefix}:events`;
+    }
+
+    protected getNodeTopic(node: string): string {
+        return `${this.topicPrefix}:node:${node}`;
+    }
+
+    /**
+     * Publishes an event to all other nodes of the cluster.
+     */
+    async publish(event: ClusterEvent): Promise<void> {
+        if (!this._enabled) {
+            return;
+        }
+        await this.ready;
+        await this.doPublish(this.getEventTopic(), event);
+    }
+
+    /**
+     * Sends a message to a single node of the cluster.
+     */
+    async sendToNode(node: string, message: ClusterNodeMessage): Promise<void> {
+        if (!this._enabled) {
+            return;
+        }
+        await this.ready;
+        await this.doPublish(this.getNodeTopic(node), message);
+    }
+
+    protected async doPublish(topic: string, data: ClusterEvent | ClusterNodeMessage): Promise<void> {
+        const envelope: ClusterEnvelope<ClusterEvent | ClusterNodeMessage> = {
+            node: this._nodeId,
+            data
+        };
+        await this.backend.publish(topic, protocol.Encoding.encode(envelope));
+    }
+
+    dispose(): void {
+        this.toDispose.dispose();
+        this.onEventEmitter.dispose();
+        this.onNodeMessageEmitter.dispose();
+    }
+
+}
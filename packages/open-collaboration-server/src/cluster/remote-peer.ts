@@ -0,0 +1,112 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as protocol from 'open-collaboration-protocol';
+import { Channel, TransportChannel } from '../channel.js';
+import { Peer, Room, User } from '../types.js';
+import { ClusterPeerData, ClusterService } from './cluster-service.js';
+
+/**
+ * Transport that forwards all messages to the cluster node that the peer is connected to.
+ */
+export class ClusterTransportChannel implements TransportChannel {
+
+    private onDidCloseEmitter = new protocol.Emitter<void>();
+
+    get onClose(): protocol.Event<void> {
+        return this.onDidCloseEmitter.event;
+    }
+
+    constructor(protected readonly cluster: ClusterService, readonly node: string, readonly peerId: string) {
+    }
+
+    onMessage(): protocol.Disposable {
+        // Messages of remote peers are received and relayed by the node that they are connected to
+        return protocol.Disposable.NULL;
+    }
+
+    sendMessage(message: protocol.Message): void {
+        this.cluster.sendToNode(this.node, {
+            kind: 'relay',
+            peerId: this.peerId,
+            message
+        });
+    }
+
+    close(): void {
+        this.onDidCloseEmitter.dispose();
+    }
+
+}
+
+/**
+ * Represents a peer that is connected to another node of the server cluster.
+ */
+export class RemotePeer implements Peer {
+
+    readonly jwt = '';
+    readonly channel: Channel;
+
+    private disposed = false;
+    private readonly onDisposeEmitter = new protocol.Emitter<void>();
+
+    constructor(
+        protected readonly data: ClusterPeerData,
+        readonly node: string,
+        cluster: ClusterService,
+        protected readonly roomProvider: () => Room | undefined
+    ) {
+        this.channel = new Channel(new ClusterTransportChannel(cluster, node, data.id));
+    }
+
+    get room(): Room {
+        const room = this.roomProvider();
+        if (!room) {
+            throw new Error(`Remote peer '${this.id}' does not belong to any room`);
+        }
+        return room;
+    }
+
+    get id(): string {
+        return this.data.id;
+    }
+
+    get client(): string {
+        return this.data.client;
+    }
+
+    get host(): boolean {
+        return this.data.host;
+    }
+
+    set host(value: boolean) {
+        this.data.host = value;
+        this.data.peer.host = value;
+    }
+
+    get user(): User {
+        return this.data.user;
+    }
+
+    get onDispose(): protocol.Event<void> {
+        return this.onDisposeEmitter.event;
+    }
+
+    toProtocol(): protocol.Peer {
+        return this.data.peer;
+    }
+
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.onDisposeEmitter.fire(undefined);
+        this.onDisposeEmitter.dispose();
+        this.channel.close();
+    }
+
+}
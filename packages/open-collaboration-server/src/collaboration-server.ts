@@ -9,20 +9,28 @@ import * as http from 'node:http';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Server } from 'socket.io';
+import * as ws from 'ws';
 import express from 'express';
-import { SocketIoChannel, TransportChannel } from './channel.js';
+import * as jose from 'jose';
+import { SocketIoChannel, TransportChannel, WebSocketChannel } from './channel.js';
 import { PeerFactory } from './peer.js';
 import { RoomJoinInfo, RoomManager, isRoomClaim } from './room-manager.js';
 import { UserManager } from './user-manager.js';
 import { CredentialsManager } from './credentials-manager.js';
-import { User } from './types.js';
-import { CreateRoomResponse, InfoMessage, JoinRoomInitialResponse, JoinRoomPollResponse, JoinRoomResponse, ProtocolServerMetaData, LoginInitialResponse, LoginValidateResponse, LoginPollResponse } from 'open-collaboration-protocol';
-import { AuthEndpoint } from './auth-endpoints/auth-endpoint.js';
+import { SigningKeyManager } from './signing-keys.js';
+import { Peer, User } from './types.js';
+import { AccessTokenScope, CreateAccessTokenRequest, CreateAccessTokenResponse, CreateRoomResponse, Info, InfoMessage, ServerError, JoinRoomInitialResponse, JoinRoomPollResponse, JoinRoomResponse, ProtocolServerMetaData, LoginInitialResponse, LoginValidateResponse, LoginPollResponse, LoginRefreshResponse, Messages, NotificationMessage } from 'open-collaboration-protocol';
+import { AuthEndpoint, AuthEndpointProvider } from './auth-endpoints/auth-endpoint.js';
 import { Logger } from './utils/logging.js';
 import { VERSION } from 'open-collaboration-protocol';
 import { Configuration } from './utils/configuration.js';
 import { PeerManager } from './peer-manager.js';
+import { LoginPolicy } from './login-policy.js';
+import { AccessTokenManager, isAccessToken, isAccessTokenScope } from './access-tokens.js';
+import { AdminApi } from './admin-api.js';
+import { ServerMetrics } from './metrics.js';
 import cookieParser from 'cookie-parser';
+import { RateLimiter } from './utils/rate-limiter.js';
 // resolves __filename
 export const getLocalFilename = (referenceUrl: string | URL) => {
     return fileURLToPath(referenceUrl);
@@ -50,12 +58,27 @@ export class CollaborationServer {
     @inject(CredentialsManager)
     protected readonly credentials: CredentialsManager;
 
+    @inject(SigningKeyManager)
+    protected readonly signingKeys: SigningKeyManager;
+
     @inject(PeerFactory)
     protected readonly peerFactory: PeerFactory;
 
     @inject(PeerManager)
     protected readonly peerManager: PeerManager;
 
+    @inject(LoginPolicy)
+    protected readonly loginPolicy: LoginPolicy;
+
+    @inject(AccessTokenManager)
+    protected readonly accessTokens: AccessTokenManager;
+
+    @inject(AdminApi)
+    protected readonly adminApi: AdminApi;
+
+    @inject(ServerMetrics)
+    protected readonly metrics: ServerMetrics;
+
     @inject(Logger) protected logger: Logger;
 
     @inject(Configuration) protected configuration: Configuration;
@@ -63,31 +86,30 @@ export class CollaborationServer {
     @multiInject(AuthEndpoint)
     protected readonly authEndpoints: AuthEndpoint[];
 
-    startServer(opts: CollaborationServerOptions): void {
+    @multiInject(AuthEndpointProvider)
+    protected readonly authEndpointProviders: AuthEndpointProvider[];
+
+    startServer(opts: CollaborationServerOptions): http.Server {
         this.logger.debug('Starting Open Collaboration Server ...');
 
         const app = this.setupApiRoute();
         const httpServer = http.createServer(app);
-        // const wsServer = new ws.Server({
-        //     path: '/websocket',
-        //     server: httpServer
-        // });
-        // wsServer.on('connection', async (socket, req) => {
-        //     try {
-        //         const query = req.url?.split('?')[1] ?? '';
-        //         const headers = query.split('&').reduce((acc, cur) => {
-        //             const [key, value] = cur.split('=');
-        //             if (typeof key === 'string' && typeof value === 'string') {
-        //                 acc[decodeURIComponent(key.trim())] = decodeURIComponent(value.trim());
-        //             }
-        //             return acc;
-        //         }, {} as Record<string, string>);
-        //         await this.connectChannel(headers, new WebSocketChannel(socket));
-        //     } catch (error) {
-        //         socket.close(undefined, 'Failed to join room');
-        //         this.logger.error('Web socket connection failed', error);
-        //     }
-        // });
+        // Upgrade requests are dispatched manually, as a web socket server bound to the HTTP server
+        // would reject the upgrade requests of socket.io
+        const wsServer = new ws.WebSocketServer({ noServer: true });
+        httpServer.on('upgrade', (req, socket, head) => {
+            if (this.getRequestPath(req) === '/websocket') {
+                wsServer.handleUpgrade(req, socket, head, webSocket => wsServer.emit('connection', webSocket, req));
+            }
+        });
+        wsServer.on('connection', async (socket, req) => {
+            try {
+                await this.connectChannel(this.getWebSocketHeaders(req), new WebSocketChannel(socket, this.logger));
+            } catch (error) {
+                socket.close(1008, 'Failed to join room');
+                this.logger.error('Web socket connection failed', error);
+            }
+        });
         const io = new Server(httpServer, {
             cors: {
                 origin: '*',
@@ -97,7 +119,7 @@ export class CollaborationServer {
         io.on('connection', async socket => {
             const headers = socket.request.headers as Record<string, string>;
             try {
-                await this.connectChannel(headers, new SocketIoChannel(socket));
+                await this.connectChannel(headers, new SocketIoChannel(socket, this.logger));
             } catch (error) {
                 socket.disconnect(true);
                 this.logger.error('Socket IO connection failed', error);
@@ -105,7 +127,7 @@ export class CollaborationServer {
         });
         httpServer.listen(Number(opts.port), String(opts.hostname));
 
-        for (const authEndpoint of this.authEndpoints) {
+        for (const authEndpoint of this.getAuthEndpoints()) {
             if (authEndpoint.shouldActivate()) {
                 authEndpoint.onStart(app, String(opts.hostname), Number(opts.port));
                 authEndpoint.onDidAuthenticate(async event => {
@@ -120,6 +142,33 @@ export class CollaborationServer {
         }
 
         this.logger.info(`Open Collaboration Server listening on ${opts.hostname}:${opts.port}`);
+        return httpServer;
+    }
+
+    protected getRequestPath(req: http.IncomingMessage): string {
+        return new URL(req.url ?? '/', 'http://localhost').pathname;
+    }
+
+    /**
+     * Browsers cannot set headers for web socket connections, so clients may pass the headers as query parameters instead.
+     */
+    protected getWebSocketHeaders(req: http.IncomingMessage): Record<string, string | undefined> {
+        const headers: Record<string, string | undefined> = {};
+        for (const [key, value] of Object.entries(req.headers)) {
+            headers[key] = Array.isArray(value) ? value.join(',') : value;
+        }
+        const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+        for (const [key, value] of query) {
+            headers[key.toLowerCase()] = value;
+        }
+        return headers;
+    }
+
+    protected getAuthEndpoints(): AuthEndpoint[] {
+        return [
+            ...this.authEndpoints,
+            ...this.authEndpointProviders.flatMap(provider => provider.getAuthEndpoints())
+        ];
     }
 
     protected async connectChannel(headers: Record<string, string | undefined>, channel: TransportChannel): Promise<void> {
@@ -136,37 +185,143 @@ export class CollaborationServer {
             compression = ['none'];
         }
         const client = headers['x-oct-client'] ?? 'unknown';
-        const roomClaim = await this.credentials.verifyJwt(jwt, isRoomClaim);
+        // Room tokens stay valid as long as their peer is part of the room, so that long sessions can still reconnect
+        const roomClaim = await this.credentials.verifyJwt(jwt, isRoomClaim, async claim => Boolean(this.peerManager.getPeer(jwt) ?? await this.roomManager.getStoredPeer(claim)));
+        const resumeToken = headers['x-oct-resume-token'];
+        if (resumeToken) {
+            const resumedPeer = this.peerManager.getPeerByResumeToken(resumeToken);
+            if (!resumedPeer || resumedPeer.jwt !== jwt) {
+                throw this.logger.createErrorAndLog('Session cannot be resumed');
+            }
+            this.logger.withContext({ peerId: resumedPeer.id, userId: resumedPeer.user.id }).info(`Peer '${resumedPeer.id}' resumed its session`);
+            // Replays the messages that have been buffered while the peer was disconnected
+            resumedPeer.channel.transport = channel;
+            this.sendResumeToken(resumedPeer);
+            return;
+        }
         const existingPeer = this.peerManager.getPeer(jwt);
         if (existingPeer) {
             // If a peer with the same JWT already exists, we just update the channel
             // This indicates that a client has reconnected
             existingPeer.channel.transport = channel;
         } else {
+            const storedPeer = await this.roomManager.getStoredPeer(roomClaim);
             const peer = this.peerFactory({
+                id: storedPeer?.id,
                 jwt,
                 user: roomClaim.user,
-                host: roomClaim.host ?? false,
+                // The host role might have been handed over to another peer
+                host: storedPeer?.host ?? roomClaim.host ?? false,
                 channel,
                 client,
                 publicKey,
                 supportedCompression: compression
             });
             this.peerManager.register(peer);
-            await this.roomManager.join(peer, roomClaim.room);
+            await this.roomManager.join(peer, roomClaim.room, roomClaim.roomClock);
+            if (headers['x-oct-resumable'] === 'true') {
+                this.sendResumeToken(peer);
+            }
         }
     }
 
-    protected async getUserFromAuth(req: express.Request): Promise<User | undefined> {
-        const auth = (req.headers['x-oct-jwt'] ?? req.cookies?.['oct-jwt']) as string;
+    protected sendResumeToken(peer: Peer): void {
+        const resumeToken = this.peerManager.createResumeToken(peer);
+        peer.channel.sendMessage(NotificationMessage.create(Messages.Peer.ResumeToken, '', peer.id, [resumeToken]));
+    }
+
+    protected getAuthToken(req: express.Request): string | undefined {
+        return (req.headers['x-oct-jwt'] ?? req.cookies?.['oct-jwt']) as string | undefined;
+    }
+
+    /**
+     * Returns the user of the login token or personal access token of the request.
+     * @param scope The scope that personal access tokens need to be granted.
+     */
+    protected async getUserFromAuth(req: express.Request, scope?: AccessTokenScope): Promise<User | undefined> {
+        const auth = this.getAuthToken(req);
+        if (!auth) {
+            return undefined;
+        }
         try {
-            const user = await this.credentials.getUser(auth);
+            const user = await this.credentials.getUser(auth, scope);
             return user;
         } catch {
             return undefined;
         }
     }
 
+    /**
+     * Returns the user of the login token of the request. Personal access tokens are not accepted.
+     */
+    protected async getUserFromLogin(req: express.Request): Promise<User | undefined> {
+        const auth = this.getAuthToken(req);
+        if (!auth || isAccessToken(auth)) {
+            return undefined;
+        }
+        return this.getUserFromAuth(req);
+    }
+
+    protected getActiveAuthEndpoints(): AuthEndpoint[] {
+        return this.getAuthEndpoints().filter(endpoint => endpoint.shouldActivate());
+    }
+
+    /**
+     * Returns the URL of the login page, which is either configured via `oct-login-page-url` or the built-in `login.html`.
+     */
+    protected getLoginPageUrl(params: Record<string, string>): string {
+        try {
+            const loginPageURL = new URL(this.configuration.getValue('oct-login-page-url') ?? '');
+            for (const [key, value] of Object.entries(params)) {
+                loginPageURL.searchParams.set(key, value);
+            }
+            return loginPageURL.toString();
+        } catch {
+            const query = new URLSearchParams(params).toString();
+            return query ? `/login.html?${query}` : '/login.html';
+        }
+    }
+
+    protected async createLoginResponse(req: express.Request, token: string): Promise<LoginInitialResponse> {
+        // Ensure that we don't send inactive auth providers to the client
+        const activeAuthEndpoints = this.getActiveAuthEndpoints();
+        let authenticated = false;
+        for (const endpoint of activeAuthEndpoints) {
+            if (await endpoint.authenticateRequest?.(req, token)) {
+                authenticated = true;
+                break;
+            }
+        }
+        return {
+            pollToken: token,
+            auth: {
+                loginPageUrl: this.getLoginPageUrl({ token }),
+                providers: activeAuthEndpoints.map(endpoint => endpoint.getProtocolProvider()).filter(provider => provider !== undefined),
+                defaultSuccessUrl: this.configuration.getValue('oct-login-success-url') ?? ''
+            },
+            authenticated
+        };
+    }
+
+    protected setAuthCookies(req: express.Request, res: express.Response, loginToken: string, refreshToken?: string): void {
+        const options = (token: string): express.CookieOptions => {
+            const { exp } = jose.decodeJwt(token);
+            return {
+                // Cookies of tokens without expiration are kept for 1 year
+                maxAge: exp ? exp * 1000 - Date.now() : 365 * 24 * 60 * 60 * 1000,
+                httpOnly: true,
+                secure: true,
+                sameSite: 'none'
+            };
+        };
+        res.cookie('oct-jwt', loginToken, options(loginToken));
+        if (refreshToken) {
+            res.cookie('oct-refresh-token', refreshToken, options(refreshToken));
+        }
+        res.header('Access-Control-Allow-Credentials', 'true');
+        res.header('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+    }
+
     protected setupApiRoute(): express.Express {
         const app = express();
         app.use(express.json());
@@ -198,29 +353,11 @@ export class CollaborationServer {
             }
         });
         app.use(express.static(path.resolve(getLocalDirectory(import.meta.url), '../src/static')));
-        const loginPageUrlConfig = this.configuration.getValue('oct-login-page-url') ?? '';
 
         app.post('/api/login/initial', async (req, res) => {
             try {
                 const token = await this.credentials.startAuth();
-                let loginPage: string;
-                try {
-                    const loginPageURL = new URL(loginPageUrlConfig);
-                    loginPageURL.searchParams.set('token', token);
-                    loginPage = loginPageURL.toString();
-                } catch (_error) {
-                    loginPage = `/login.html?token=${encodeURIComponent(token)}`;
-                }
-                // Ensure that we don't send inactive auth providers to the client
-                const activeAuthProviders = this.authEndpoints.filter(e => e.shouldActivate());
-                const result: LoginInitialResponse = {
-                    pollToken: token,
-                    auth: {
-                        loginPageUrl: loginPage,
-                        providers: activeAuthProviders.map(endpoint => endpoint.getProtocolProvider()),
-                        defaultSuccessUrl: this.configuration.getValue('oct-login-success-url') ?? ''
-                    }
-                };
+                const result = await this.createLoginResponse(req, token);
                 res.status(200);
                 res.send(result);
             } catch (error) {
@@ -229,6 +366,54 @@ export class CollaborationServer {
                 res.send('Failed to login');
             }
         });
+        // Device authorization flow for clients that cannot open a browser themselves, see RFC 8628
+        app.post('/api/login/device', async (req, res) => {
+            try {
+                const { token, userCode } = await this.credentials.startDeviceAuth();
+                const result = await this.createLoginResponse(req, token);
+                result.auth.userCode = userCode;
+                result.auth.verificationUrl = this.getLoginPageUrl({});
+                result.auth.verificationUrlComplete = this.getLoginPageUrl({ code: userCode });
+                res.status(200);
+                res.send(result);
+            } catch (error) {
+                this.logger.error('Error occurred during device login', error);
+                res.status(400);
+                res.send('Failed to login');
+            }
+        });
+        // User codes are short, so failed verification attempts are limited to prevent brute forcing them, see RFC 8628 section 5.1
+        const deviceVerifyLimiter = new RateLimiter({
+            limit: this.configuration.getValue('oct-device-verify-max-attempts', 'number') ?? 10,
+            window: 15 * 60 * 1000
+        });
+        app.post('/api/login/device/verify', async (req, res) => {
+            const client = req.ip ?? 'unknown';
+            if (deviceVerifyLimiter.isLimited(client)) {
+                this.logger.warn(`Too many failed device verification attempts from '${client}'`);
+                res.status(429);
+                res.send('Too many attempts, please try again later');
+                return;
+            }
+            const userCode = req.body?.userCode;
+            const token = typeof userCode === 'string' ? await this.credentials.resolveUserCode(userCode) : undefined;
+            if (!token) {
+                deviceVerifyLimiter.consume(client);
+                const invalidCode: InfoMessage = {
+                    code: 'InvalidUserCode',
+                    params: [],
+                    message: 'The code is invalid or has expired'
+                };
+                res.status(404);
+                res.send(invalidCode);
+                return;
+            }
+            res.status(200);
+            res.send({
+                token,
+                providers: this.getActiveAuthEndpoints().map(endpoint => endpoint.getProtocolProvider()).filter(provider => provider !== undefined)
+            });
+        });
         app.post('/api/login/validate', async (req, res) => {
             const user = await this.getUserFromAuth(req);
             const result: LoginValidateResponse = {
@@ -260,27 +445,34 @@ export class CollaborationServer {
 
                 const sendToken = (token: string) => {
                     const result: LoginPollResponse = {
-                        loginToken: token
+                        loginToken: token,
+                        refreshToken: delayedAuth.refreshToken
                     };
                     res.status(200);
                     res.send(result);
                 };
 
                 const addCookieHeader = (token: string) => {
-                    res.cookie('oct-jwt', token, {
-                        maxAge: 365 * 24 * 60 * 60 * 1000, // 1 year
-                        httpOnly: true,
-                        secure: true,
-                        sameSite: 'none'
-                    });
-                    res.header('Access-Control-Allow-Credentials', 'true');
-                    res.header('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+                    this.setAuthCookies(req, res, token, delayedAuth.refreshToken);
+                };
+
+                const sendError = (error: Error) => {
+                    if (error instanceof ServerError) {
+                        res.status(403);
+                        res.send({ code: error.code, params: error.params, message: error.message });
+                    } else {
+                        res.status(400);
+                        res.send(authTimeoutResponse);
+                    }
+                    delayedAuth.dispose();
                 };
 
                 if (delayedAuth.jwt) {
                     req.query?.useCookie && addCookieHeader(delayedAuth.jwt);
                     sendToken(delayedAuth.jwt);
                     delayedAuth.dispose();
+                } else if (delayedAuth.error) {
+                    sendError(delayedAuth.error);
                 } else {
                     const end = async (value?: string | Error | undefined) => {
                         clearTimeout(timeout);
@@ -294,9 +486,7 @@ export class CollaborationServer {
                             req.query?.useCookie && addCookieHeader(value);
                             sendToken(value);
                         } else {
-                            res.status(400);
-                            res.send(authTimeoutResponse);
-                            delayedAuth.dispose();
+                            sendError(value);
                         }
                     };
                     const timeout = setTimeout(() => {
@@ -315,22 +505,64 @@ export class CollaborationServer {
                 });
             }
         });
+        app.post('/api/login/refresh', async (req, res) => {
+            // Clients that use cookie based authentication send their refresh token as a cookie
+            const useCookie = typeof req.body?.refreshToken !== 'string';
+            const refreshToken = useCookie ? req.cookies?.['oct-refresh-token'] : req.body.refreshToken;
+            if (typeof refreshToken !== 'string') {
+                res.status(400);
+                res.send('Error: Missing refresh token');
+                return;
+            }
+            try {
+                const { loginToken, refreshToken: newRefreshToken } = await this.credentials.refreshLogin(refreshToken);
+                if (useCookie) {
+                    // Never expose the tokens of cookie based authentication in the response,
+                    // as cross-origin requests with credentials would be able to read them
+                    this.setAuthCookies(req, res, loginToken, newRefreshToken);
+                    res.status(204);
+                    res.end();
+                    return;
+                }
+                const result: LoginRefreshResponse = {
+                    loginToken,
+                    refreshToken: newRefreshToken
+                };
+                res.status(200);
+                res.send(result);
+            } catch {
+                res.status(401);
+                res.send('Error: Invalid refresh token');
+            }
+        });
+        // Allows other services to verify the tokens issued by this server
+        app.get('/.well-known/jwks.json', async (_, res) => {
+            const jwks = await this.signingKeys.getJwks();
+            res.header('Cache-Control', 'public, max-age=300');
+            res.status(200);
+            res.send(jwks);
+        });
         app.get('/api/meta', async (_, res) => {
             const data: ProtocolServerMetaData = {
                 owner: this.configuration.getValue('oct-server-owner') ?? 'Unknown',
                 version: VERSION,
                 transports: [
-                    // 'websocket',
+                    'websocket',
                     'socket.io'
                 ],
             };
             res.send(data);
         });
-        // only required for when using cookie based authentication
         app.get('/api/logout', async (req, res) => {
-            const user = await this.getUserFromAuth(req);
-            if (user) {
+            // Revoke the tokens, so that they cannot be used anymore even if they have been leaked
+            const loginToken = this.getAuthToken(req);
+            const refreshToken = (req.headers['x-oct-refresh-token'] ?? req.cookies?.['oct-refresh-token']) as string | undefined;
+            const revoke = (token?: string) => token ? this.credentials.revokeToken(token).then(() => true, () => false) : false;
+            const loginTokenRevoked = await revoke(loginToken);
+            const refreshTokenRevoked = await revoke(refreshToken);
+            if (loginTokenRevoked || refreshTokenRevoked) {
                 res.clearCookie('oct-jwt', {sameSite: 'none', secure: true, httpOnly: true});
+                res.clearCookie('oct-refresh-token', {sameSite: 'none', secure: true, httpOnly: true});
                 res.status(200);
                 res.send('Logged out');
             } else {
@@ -341,10 +573,14 @@ export class CollaborationServer {
         app.post('/api/session/join/:room', async (req, res) => {
             try {
                 const roomId = req.params.room;
-                const user = await this.getUserFromAuth(req);
+                const user = await this.getUserFromAuth(req, 'join-room');
+                if (!user) {
+                    this.sendScopeMissing(res, 'join-room');
+                    return;
+                }
                 const room = this.roomManager.getRoomById(roomId);
                 if (!room) {
-                    this.logger.warn(`User tried joining non-existing room with id '${roomId}'`);
+                    this.logger.withContext({ roomId, userId: user.id }).warn(`User tried joining non-existing room with id '${roomId}'`);
                     res.status(404);
                     const roomNotFound: InfoMessage = {
                         code: 'RoomNotFound',
@@ -354,7 +590,25 @@ export class CollaborationServer {
                     res.send(roomNotFound);
                     return;
                 }
-                const result = await this.roomManager.requestJoin(room, user!);
+                const violation = await this.loginPolicy.check(user, 'join-room');
+                if (violation) {
+                    this.logger.withContext({ roomId, userId: user.id }).warn(`User '${user.id}' is not allowed to join room with id '${roomId}'`);
+                    res.status(403);
+                    res.send(violation);
+                    return;
+                }
+                if (room.bannedUsers.has(user.id)) {
+                    this.logger.withContext({ roomId, userId: user.id }).warn(`Banned user '${user.id}' tried joining room with id '${roomId}'`);
+                    res.status(403);
+                    const joinRejected: InfoMessage = {
+                        code: 'JoinRejected',
+                        params: [],
+                        message: 'Join request has been rejected'
+                    };
+                    res.send(joinRejected);
+                    return;
+                }
+                const result = await this.roomManager.requestJoin(room, user);
                 res.status(200);
                 const response: JoinRoomInitialResponse = {
                     pollToken: result,
@@ -420,8 +674,19 @@ export class CollaborationServer {
         });
         app.post('/api/session/create', async (req, res) => {
             try {
-                const user = await this.getUserFromAuth(req);
-                const room = await this.roomManager.prepareRoom(user!);
+                const user = await this.getUserFromAuth(req, 'create-room');
+                if (!user) {
+                    this.sendScopeMissing(res, 'create-room');
+                    return;
+                }
+                const violation = await this.loginPolicy.check(user, 'create-room');
+                if (violation) {
+                    this.logger.withContext({ userId: user.id }).warn(`User '${user.id}' is not allowed to create rooms`);
+                    res.status(403);
+                    res.send(violation);
+                    return;
+                }
+                const room = await this.roomManager.prepareRoom(user);
                 const response: CreateRoomResponse = {
                     roomId: room.id,
                     roomToken: room.jwt
@@ -433,7 +698,91 @@ export class CollaborationServer {
                 res.send('Failed to create room');
             }
         });
+        this.setupAccessTokenRoutes(app);
+        if (this.adminApi.shouldActivate()) {
+            this.adminApi.onStart(app);
+        }
+        if (this.metrics.shouldActivate()) {
+            this.metrics.onStart(app);
+        }
         return app;
     }
 
+    protected sendScopeMissing(res: express.Response, scope: AccessTokenScope): void {
+        const scopeMissing: InfoMessage = {
+            code: Info.Codes.PermissionDenied,
+            params: [scope],
+            message: `The access token has not been granted the '${scope}' scope`
+        };
+        res.status(403);
+        res.send(scopeMissing);
+    }
+
+    /**
+     * Routes to manage personal access tokens. Managing tokens requires a login token,
+     * so that a leaked access token cannot be used to issue further tokens.
+     */
+    protected setupAccessTokenRoutes(app: express.Express): void {
+        app.post('/api/tokens', async (req, res) => {
+            try {
+                const user = await this.getUserFromLogin(req);
+                if (!user) {
+                    res.status(401);
+                    res.send('Error: Login required');
+                    return;
+                }
+                const body = req.body as Partial<CreateAccessTokenRequest> | undefined;
+                const scopes = body?.scopes;
+                if (typeof body?.name !== 'string' || !body.name.trim()
+                    || !Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isAccessTokenScope)
+                    || (body.expiresInDays !== undefined && typeof body.expiresInDays !== 'number')) {
+                    res.status(400);
+                    res.send('Error: Invalid access token request');
+                    return;
+                }
+                const response: CreateAccessTokenResponse = await this.accessTokens.createToken(user, {
+                    name: body.name.trim(),
+                    scopes,
+                    expiresInDays: body.expiresInDays
+                });
+                res.status(200);
+                res.send(response);
+            } catch (error) {
+                this.logger.error('Error occurred when creating an access token', error);
+                res.status(400);
+                res.send('Failed to create access token');
+            }
+        });
+        app.get('/api/tokens', async (req, res) => {
+            const user = await this.getUserFromLogin(req);
+            if (!user) {
+                res.status(401);
+                res.send('Error: Login required');
+                return;
+            }
+            res.status(200);
+            res.send(await this.accessTokens.listTokens(user.id));
+        });
+        // for preflight requests
+        app.options('/api/tokens/:id', (req, res) => {
+            res.header('Access-Control-Allow-Methods', 'DELETE');
+            res.send();
+        });
+        app.delete('/api/tokens/:id', async (req, res) => {
+            const user = await this.getUserFromLogin(req);
+            if (!user) {
+                res.status(401);
+                res.send('Error: Login required');
+                return;
+            }
+            if (await this.accessTokens.revokeToken(user.id, req.params.id)) {
+                res.status(200);
+                res.send('Access token revoked');
+            } else {
+                res.status(404);
+                res.send('Error: Access token not found');
+            }
+        });
+    }
+
 }
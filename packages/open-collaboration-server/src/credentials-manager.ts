@@ -4,24 +4,69 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
-import { inject, injectable, postConstruct } from 'inversify';
+import { inject, injectable } from 'inversify';
 import { User, isUser } from './types.js';
 import { UserManager } from './user-manager.js';
 import * as jose from 'jose';
 import { nanoid, customAlphabet } from 'nanoid';
-import { Disposable, Emitter, Event } from 'open-collaboration-protocol';
+import { AccessTokenScope, Disposable, Emitter, Event, ServerError, isObject } from 'open-collaboration-protocol';
 import { Logger } from './utils/logging.js';
 import { UserInfo } from './auth-endpoints/auth-endpoint.js';
 import { Configuration } from './utils/configuration.js';
-import { getLocalFilename } from './collaboration-server.js';
+import { TokenRevocationList } from './token-revocation.js';
+import { SigningKeyManager } from './signing-keys.js';
+import { LoginPolicy } from './login-policy.js';
+import { AccessTokenManager, isAccessToken } from './access-tokens.js';
+import { ServerMetrics } from './metrics.js';
+import { AuditLog } from './audit-log.js';
 
 export interface DelayedAuth extends Disposable {
-    update(jwt: string): void;
+    update(jwt: string, refreshToken?: string): void;
+    fail(error: Error): void;
     onUpdate: Event<string>;
     onFail: Event<Error>;
     jwt?: string;
+    refreshToken?: string;
+    error?: Error;
+    /**
+     * Code that users enter on the login page to continue the login on another device.
+     */
+    userCode?: string;
 }
 
+export interface DeviceAuth {
+    token: string;
+    userCode: string;
+}
+
+/**
+ * Characters of user codes. Consists of consonants only to avoid ambiguous characters and accidental words.
+ */
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+
+export interface LoginTokens {
+    loginToken: string;
+    refreshToken: string;
+}
+
+/**
+ * Claim of a refresh token. All refresh tokens that originate from the same login share the same token family.
+ */
+export interface RefreshClaim {
+    typ: 'refresh';
+    fam: string;
+    user: User;
+}
+
+export function isRefreshClaim(obj: unknown): obj is RefreshClaim {
+    return isObject<RefreshClaim>(obj) && obj.typ === 'refresh' && typeof obj.fam === 'string' && isUser(obj.user);
+}
+
+/**
+ * Expiration value used for tokens without an expiration time.
+ */
+const NO_EXPIRATION = Number.MAX_SAFE_INTEGER;
+
 @injectable()
 export class CredentialsManager {
 
@@ -32,32 +77,112 @@ export class CredentialsManager {
 
     @inject(Configuration) protected configuration: Configuration;
 
+    @inject(TokenRevocationList) protected revocations: TokenRevocationList;
+
+    @inject(SigningKeyManager) protected signingKeys: SigningKeyManager;
+
+    @inject(LoginPolicy) protected loginPolicy: LoginPolicy;
+
+    @inject(AccessTokenManager) protected accessTokens: AccessTokenManager;
+
+    @inject(ServerMetrics) protected metrics: ServerMetrics;
+
+    @inject(AuditLog) protected auditLog: AuditLog;
+
     protected deferredAuths = new Map<string, DelayedAuth>();
+    protected userCodes = new Map<string, string>();
     protected nanoid = this.generateAlphabet();
-
-    @postConstruct()
-    initialize() {
-        if (this.configuration.getValue('oct-jwt-private-key') === undefined) {
-            this.logger.warn('OCT_JWT_PRIVATE_KEY env variable is not set. Using a static key for development purposes.');
-        }
-    }
+    protected userCodeId = customAlphabet(USER_CODE_ALPHABET, 8);
 
     async confirmUser(confirmToken: string, user: UserInfo): Promise<string> {
         const auth = this.deferredAuths.get(confirmToken);
         if (!auth) {
+            this.metrics.recordLogin(user.authProvider, 'error');
             throw this.logger.createErrorAndLog('Login timed out');
         }
-        const registeredUser = await this.userManager.registerUser(user);
+        let registeredUser: User;
+        try {
+            registeredUser = await this.userManager.registerUser(user);
+        } catch (error) {
+            this.metrics.recordLogin(user.authProvider, 'error');
+            throw error;
+        }
         const userClaim: User = {
             id: registeredUser.id,
             name: registeredUser.name,
             email: registeredUser.email,
             authProvider: registeredUser.authProvider
         };
-        this.logger.info(`Will generate JWT for user [id: ${userClaim.id} | name: ${userClaim.name} | email: ${userClaim.email}]`);
-        const jwt = await this.generateJwt(userClaim);
-        auth.update(jwt);
-        return jwt;
+        const violation = await this.loginPolicy.check(userClaim, 'login');
+        if (violation) {
+            this.logger.withContext({ userId: userClaim.id }).warn(`User [id: ${userClaim.id} | provider: ${userClaim.authProvider}] is not allowed to log in`);
+            this.metrics.recordLogin(user.authProvider, 'denied');
+            this.auditLog.record({ kind: 'login', user: userClaim, outcome: 'denied' });
+            const error = new ServerError(violation);
+            auth.fail(error);
+            throw error;
+        }
+        this.logger.withContext({ userId: userClaim.id }).info(`Will generate JWT for user [id: ${userClaim.id} | name: ${userClaim.name} | email: ${userClaim.email}]`);
+        const { loginToken, refreshToken } = await this.generateLoginTokens(userClaim, this.secureId());
+        this.metrics.recordLogin(user.authProvider, 'success');
+        this.auditLog.record({ kind: 'login', user: userClaim, outcome: 'success' });
+        auth.update(loginToken, refreshToken);
+        return loginToken;
+    }
+
+    /**
+     * Exchanges a refresh token for a new login token and a new refresh token.
+     * Each refresh token can only be used once. If a refresh token is used a second time,
+     * it has likely been leaked and all tokens of its family are revoked.
+     */
+    async refreshLogin(refreshToken: string): Promise<LoginTokens> {
+        const claim = await this.verifyJwt(refreshToken, isRefreshClaim);
+        if (typeof claim.jti !== 'string') {
+            throw this.logger.createErrorAndLog('Refresh token is not valid');
+        }
+        const expiresAt = claim.exp ?? NO_EXPIRATION;
+        if (await this.revocations.isRevoked(claim.jti)) {
+            // Newer tokens of the family expire at most one token lifetime after this token
+            const familyExpiresAt = claim.exp && claim.iat ? 2 * claim.exp - claim.iat : NO_EXPIRATION;
+            await this.revocations.revoke(claim.fam, familyExpiresAt);
+            throw this.logger.createErrorAndLog(`Refresh token has been reused, revoked token family of user '${claim.user.id}'`);
+        }
+        await this.revocations.revoke(claim.jti, expiresAt);
+        // The policy might have changed since the user logged in
+        const violation = await this.loginPolicy.check(claim.user, 'login');
+        if (violation) {
+            throw new ServerError(violation);
+        }
+        return this.generateLoginTokens(claim.user, claim.fam);
+    }
+
+    /**
+     * Revokes the given login, room or refresh token.
+     * Revoking a refresh token also revokes all other refresh tokens of its family.
+     */
+    async revokeToken(token: string): Promise<void> {
+        const payload = await this.verifyJwt(token, isObject);
+        if (typeof payload.jti === 'string') {
+            await this.revocations.revoke(payload.jti, payload.exp ?? NO_EXPIRATION);
+        }
+        if (isRefreshClaim(payload)) {
+            const familyExpiresAt = payload.exp && payload.iat ? 2 * payload.exp - payload.iat : NO_EXPIRATION;
+            await this.revocations.revoke(payload.fam, familyExpiresAt);
+        }
+    }
+
+    protected async generateLoginTokens(user: User, family: string): Promise<LoginTokens> {
+        const refreshClaim: RefreshClaim = {
+            typ: 'refresh',
+            fam: family,
+            user
+        };
+        const [loginToken, refreshToken] = await Promise.all([
+            // Login tokens are part of the family as well, so that they are revoked together with the refresh tokens
+            this.generateJwt({ ...user, fam: family }),
+            this.generateJwt(refreshClaim, await this.getRefreshTokenExpiration())
+        ]);
+        return { loginToken, refreshToken };
     }
 
     async startAuth(): Promise<string> {
@@ -67,6 +192,9 @@ export class CredentialsManager {
         const dispose = () => {
             clearTimeout(timeout);
             this.deferredAuths.delete(confirmToken);
+            if (delayedAuth.userCode) {
+                this.userCodes.delete(delayedAuth.userCode);
+            }
             updateEmitter.dispose();
             failureEmitter.dispose();
         };
@@ -75,10 +203,15 @@ export class CredentialsManager {
             dispose();
         }, 300_000); // 5 minutes of timeout
         const delayedAuth: DelayedAuth = {
-            update: jwt => {
+            update: (jwt, refreshToken) => {
                 delayedAuth.jwt = jwt;
+                delayedAuth.refreshToken = refreshToken;
                 updateEmitter.fire(jwt);
             },
+            fail: error => {
+                delayedAuth.error = error;
+                failureEmitter.fire(error);
+            },
             onUpdate: updateEmitter.event,
             onFail: failureEmitter.event,
             dispose
@@ -87,11 +220,52 @@ export class CredentialsManager {
         return confirmToken;
     }
 
+    /**
+     * Starts a device authorization flow. In addition to the poll token, the returned user code
+     * allows users to continue the login on any device, see `resolveUserCode`.
+     */
+    async startDeviceAuth(): Promise<DeviceAuth> {
+        const token = await this.startAuth();
+        let userCode: string;
+        do {
+            userCode = this.userCodeId();
+        } while (this.userCodes.has(userCode));
+        this.userCodes.set(userCode, token);
+        this.deferredAuths.get(token)!.userCode = userCode;
+        return { token, userCode: `${userCode.substring(0, 4)}-${userCode.substring(4)}` };
+    }
+
+    /**
+     * Returns the poll token that belongs to the given user code. Each user code can only be resolved once.
+     */
+    async resolveUserCode(userCode: string): Promise<string | undefined> {
+        const normalized = userCode.toUpperCase().replace(/[^A-Z]/g, '');
+        const token = this.userCodes.get(normalized);
+        if (token) {
+            this.userCodes.delete(normalized);
+        }
+        return token;
+    }
+
     async getAuth(confirmToken: string): Promise<DelayedAuth | undefined> {
         return this.deferredAuths.get(confirmToken);
     }
 
-    async getUser(token: string): Promise<User | undefined> {
+    /**
+     * Returns the user of the given login token or personal access token.
+     * @param scope The scope that personal access tokens need to be granted. Login tokens are valid for all scopes.
+     */
+    async getUser(token: string, scope?: AccessTokenScope): Promise<User | undefined> {
+        if (isAccessToken(token)) {
+            const accessToken = await this.accessTokens.verifyToken(token);
+            if (!accessToken) {
+                throw this.logger.createErrorAndLog('Access token is not valid');
+            }
+            if (scope && !accessToken.scopes.includes(scope)) {
+                throw this.logger.createErrorAndLog(`Access token '${accessToken.id}' has not been granted the '${scope}' scope`);
+            }
+            return accessToken.user;
+        }
         const user = await this.verifyJwt(token, isUser);
         if (typeof user.id !== 'string' || typeof user.name !== 'string') {
             throw this.logger.createErrorAndLog('User token is not valid');
@@ -99,9 +273,27 @@ export class CredentialsManager {
         return user;
     }
 
-    async verifyJwt<T extends object>(jwt: string, verify: (obj: unknown) => obj is T): Promise<T> {
-        const key = this.getJwtPrivateKey();
-        const { payload } = await jose.jwtVerify(jwt, key);
+    /**
+     * Verifies the signature, expiration and revocation state of the given JWT.
+     * @param acceptExpired Decides whether an expired token is still accepted, e.g. because it belongs to a peer that is still part of a room.
+     */
+    async verifyJwt<T extends object>(jwt: string, verify: (obj: unknown) => obj is T, acceptExpired?: (payload: T) => Promise<boolean>): Promise<T & jose.JWTPayload> {
+        let payload: jose.JWTPayload;
+        try {
+            ({ payload } = await jose.jwtVerify(jwt, header => this.signingKeys.getVerificationKey(header), {
+                algorithms: [this.signingKeys.algorithm]
+            }));
+        } catch (error) {
+            // The expiration is only checked once the signature has been verified
+            if (error instanceof jose.errors.JWTExpired && acceptExpired && verify(error.payload) && await acceptExpired(error.payload)) {
+                payload = error.payload;
+            } else {
+                throw error;
+            }
+        }
+        if (await this.isRevoked(payload)) {
+            throw this.logger.createErrorAndLog('JWT has been revoked');
+        }
         if (verify(payload)) {
             return payload;
         } else {
@@ -109,27 +301,57 @@ export class CredentialsManager {
         }
     }
 
-    protected getJwtPrivateKey(): Uint8Array {
-        const key = this.configuration.getValue('oct-jwt-private-key') ?? getLocalFilename(import.meta.url);
-        return Buffer.from(key);
+    protected async isRevoked(payload: jose.JWTPayload): Promise<boolean> {
+        // Reused refresh tokens are handled separately in `refreshLogin`
+        if (typeof payload.jti === 'string' && payload.typ !== 'refresh' && await this.revocations.isRevoked(payload.jti)) {
+            return true;
+        }
+        return typeof payload.fam === 'string' && this.revocations.isRevoked(payload.fam);
     }
 
-    async generateJwt(payload: object): Promise<string> {
-        const [key, expiration] = await Promise.all([
-            this.getJwtPrivateKey(),
+    /**
+     * Generates a signed JWT with a unique id.
+     * @param expiration The lifetime of the token. Uses the lifetime of login tokens if not set.
+     */
+    async generateJwt(payload: object, expiration?: string | number): Promise<string> {
+        const [key, defaultExpiration] = await Promise.all([
+            this.signingKeys.getSigningKey(),
             this.getJwtExpiration()
         ]);
+        expiration ??= defaultExpiration;
         const signJwt = new jose.SignJWT(payload as jose.JWTPayload)
-            .setProtectedHeader({ alg: 'HS256' })
+            .setProtectedHeader({ alg: key.alg, kid: key.kid })
+            .setJti(this.secureId())
             .setIssuedAt();
         if (expiration !== undefined) {
             signJwt.setExpirationTime(expiration);
         }
-        return signJwt.sign(key);
+        return signJwt.sign(key.key);
+    }
+
+    async generateRoomJwt(payload: object): Promise<string> {
+        return this.generateJwt(payload, await this.getRoomJwtExpiration());
     }
 
     protected async getJwtExpiration(): Promise<string | number | undefined> {
-        return undefined;
+        return this.getExpiration('oct-jwt-expiration', '1h');
+    }
+
+    protected async getRoomJwtExpiration(): Promise<string | number | undefined> {
+        return this.getExpiration('oct-room-jwt-expiration', '24h');
+    }
+
+    protected async getRefreshTokenExpiration(): Promise<string | number | undefined> {
+        return this.getExpiration('oct-refresh-token-expiration', '30d');
+    }
+
+    /**
+     * Reads a token lifetime such as `30m` or `7d` from the configuration.
+     * The value `never` disables the expiration of the token.
+     */
+    protected getExpiration(key: string, defaultValue: string): string | undefined {
+        const value = this.configuration.getValue(key) ?? defaultValue;
+        return value === 'never' ? undefined : value;
     }
 
     protected generateAlphabet(): typeof nanoid {
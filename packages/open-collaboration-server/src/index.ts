@@ -4,18 +4,36 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
+export * from './access-tokens.js';
+export * from './admin-api.js';
+export * from './audit-log.js';
 export * from './collaboration-server.js';
 export * from './credentials-manager.js';
-export * from './inversify-module.js';
+export { default as serverModule } from './inversify-module.js';
+export * from './login-policy.js';
+export * from './mailer.js';
 export * from './message-relay.js';
+export * from './metrics.js';
 export * from './peer.js';
 export * from './room-manager.js';
+export * from './room-store.js';
+export * from './signing-keys.js';
+export * from './token-revocation.js';
 export * from './types.js';
 export * from './user-manager.js';
+export * from './user-store.js';
 export * from './auth-endpoints/auth-endpoint.js';
 export * from './auth-endpoints/authentik-endpoint.js';
 export * from './auth-endpoints/keycloak-endpoint.js';
+export * from './auth-endpoints/ldap-endpoint.js';
 export * from './auth-endpoints/oauth-endpoint.js';
+export * from './auth-endpoints/oidc-endpoint.js';
+export * from './auth-endpoints/proxy-auth-endpoint.js';
 export * from './auth-endpoints/simple-login-endpoint.js';
+export * from './cluster/cluster-backend.js';
+export * from './cluster/cluster-service.js';
+export * from './cluster/remote-peer.js';
 export * from './utils/configuration.js';
+export * from './utils/json-file.js';
 export * from './utils/logging.js';
+export * from './utils/rotating-file.js';
@@ -6,34 +6,104 @@
 
 import { Container, ContainerModule } from 'inversify';
 import { CollaborationServer } from './collaboration-server.js';
+import { AdminApi } from './admin-api.js';
+import { AuditLog, AuditSink, FileAuditSink } from './audit-log.js';
 import { CredentialsManager } from './credentials-manager.js';
 import { MessageRelay } from './message-relay.js';
+import { ServerMetrics } from './metrics.js';
 import { PeerFactory, PeerImpl } from './peer.js';
 import { RoomManager } from './room-manager.js';
 import { PeerInfo } from './types.js';
 import { UserManager } from './user-manager.js';
 import { ConsoleLogger, Logger } from './utils/logging.js';
 import { SimpleLoginEndpoint } from './auth-endpoints/simple-login-endpoint.js';
-import { AuthEndpoint } from './auth-endpoints/auth-endpoint.js';
+import { AuthEndpoint, AuthEndpointProvider } from './auth-endpoints/auth-endpoint.js';
 import { GitHubOAuthEndpoint, GoogleOAuthEndpoint  } from './auth-endpoints/oauth-endpoint.js';
 import { Configuration, DefaultConfiguration } from './utils/configuration.js';
 import { PeerManager } from './peer-manager.js';
 import { AuthentikOAuthEndpoint } from './auth-endpoints/authentik-endpoint.js';
 import { KeycloakOAuthEndpoint } from './auth-endpoints/keycloak-endpoint.js';
+import { DefaultLdapClient, LdapClientFactory, LdapLoginEndpoint } from './auth-endpoints/ldap-endpoint.js';
+import { ProxyAuthEndpoint } from './auth-endpoints/proxy-auth-endpoint.js';
+import { OidcEndpoint, OidcEndpointFactory, OidcEndpointProvider, OidcProviderName } from './auth-endpoints/oidc-endpoint.js';
+import { FileRoomStore, InMemoryRoomStore, RoomStore } from './room-store.js';
+import { FileUserStore, InMemoryUserStore, UserStore } from './user-store.js';
+import { TokenRevocationList } from './token-revocation.js';
+import { SigningKeyManager } from './signing-keys.js';
+import { FileMailer, Mailer, SmtpMailer } from './mailer.js';
+import { DefaultLoginPolicy, LoginPolicy } from './login-policy.js';
+import { AccessTokenManager, AccessTokenStore, FileAccessTokenStore, InMemoryAccessTokenStore } from './access-tokens.js';
+import { ClusterBackend, LoopbackClusterBackend } from './cluster/cluster-backend.js';
+import { ClusterService } from './cluster/cluster-service.js';
 
 /**
  * This is the default dependency injection container module for the Open Collaboration Server.
  * You can override the default bindings by providing a custom container module for your own server.
  */
 export default new ContainerModule(bind => {
-    bind(Logger).to(ConsoleLogger).inSingletonScope();
+    bind(ConsoleLogger).toSelf().inSingletonScope();
+    bind(Logger).toDynamicValue(({ container, currentRequest }) => {
+        const logger = container.get(ConsoleLogger);
+        // Name the logger after the class that it is injected into, which allows configuring module specific log levels
+        const target = currentRequest.parentRequest?.bindings[0]?.implementationType;
+        return typeof target === 'function' ? logger.forModule(target.name) : logger;
+    });
     bind(DefaultConfiguration).toSelf().inSingletonScope();
     bind(Configuration).toService(DefaultConfiguration);
     bind(CollaborationServer).toSelf().inSingletonScope();
+    bind(AdminApi).toSelf().inSingletonScope();
     bind(RoomManager).toSelf().inSingletonScope();
+    bind(InMemoryRoomStore).toSelf().inSingletonScope();
+    bind(FileRoomStore).toSelf().inSingletonScope();
+    bind(RoomStore).toDynamicValue(({ container }) => {
+        const configuration = container.get<Configuration>(Configuration);
+        if (configuration.getValue('oct-room-store') === 'file') {
+            return container.get(FileRoomStore);
+        }
+        return container.get(InMemoryRoomStore);
+    }).inSingletonScope();
     bind(CredentialsManager).toSelf().inSingletonScope();
+    bind(TokenRevocationList).toSelf().inSingletonScope();
+    bind(SigningKeyManager).toSelf().inSingletonScope();
     bind(UserManager).toSelf().inSingletonScope();
+    bind(InMemoryUserStore).toSelf().inSingletonScope();
+    bind(FileUserStore).toSelf().inSingletonScope();
+    bind(UserStore).toDynamicValue(({ container }) => {
+        const configuration = container.get<Configuration>(Configuration);
+        if (configuration.getValue('oct-user-store') === 'file') {
+            return container.get(FileUserStore);
+        }
+        return container.get(InMemoryUserStore);
+    }).inSingletonScope();
+    bind(AccessTokenManager).toSelf().inSingletonScope();
+    bind(InMemoryAccessTokenStore).toSelf().inSingletonScope();
+    bind(FileAccessTokenStore).toSelf().inSingletonScope();
+    bind(AccessTokenStore).toDynamicValue(({ container }) => {
+        const configuration = container.get<Configuration>(Configuration);
+        if (configuration.getValue('oct-access-token-store') === 'file') {
+            return container.get(FileAccessTokenStore);
+        }
+        return container.get(InMemoryAccessTokenStore);
+    }).inSingletonScope();
+    bind(DefaultLoginPolicy).toSelf().inSingletonScope();
+    bind(LoginPolicy).toService(DefaultLoginPolicy);
+    bind(SmtpMailer).toSelf().inSingletonScope();
+    bind(FileMailer).toSelf().inSingletonScope();
+    bind(Mailer).toDynamicValue(({ container }) => {
+        const configuration = container.get<Configuration>(Configuration);
+        if (configuration.getValue('oct-mailer') === 'file') {
+            return container.get(FileMailer);
+        }
+        return container.get(SmtpMailer);
+    }).inSingletonScope();
     bind(MessageRelay).toSelf().inSingletonScope();
+    bind(ServerMetrics).toSelf().inSingletonScope();
+    bind(AuditLog).toSelf().inSingletonScope();
+    bind(FileAuditSink).toSelf().inSingletonScope();
+    bind(AuditSink).toService(FileAuditSink);
+    bind(ClusterService).toSelf().inSingletonScope();
+    bind(LoopbackClusterBackend).toSelf().inSingletonScope();
+    bind(ClusterBackend).toService(LoopbackClusterBackend);
     bind(PeerImpl).toSelf().inTransientScope();
     bind(PeerFactory).toFactory(context => (peerInfo: PeerInfo) => {
         const child = new Container();
@@ -53,4 +123,18 @@ export default new ContainerModule(bind => {
     bind(AuthEndpoint).toService(AuthentikOAuthEndpoint);
     bind(KeycloakOAuthEndpoint).toSelf().inSingletonScope();
     bind(AuthEndpoint).toService(KeycloakOAuthEndpoint);
+    bind(LdapClientFactory).toConstantValue((url: string) => new DefaultLdapClient(url));
+    bind(LdapLoginEndpoint).toSelf().inSingletonScope();
+    bind(AuthEndpoint).toService(LdapLoginEndpoint);
+    bind(ProxyAuthEndpoint).toSelf().inSingletonScope();
+    bind(AuthEndpoint).toService(ProxyAuthEndpoint);
+    bind(OidcEndpoint).toSelf().inTransientScope();
+    bind(OidcEndpointFactory).toFactory(context => (name: string) => {
+        const child = new Container();
+        child.parent = context.container;
+        child.bind(OidcProviderName).toConstantValue(name);
+        return child.get(OidcEndpoint);
+    });
+    bind(OidcEndpointProvider).toSelf().inSingletonScope();
+    bind(AuthEndpointProvider).toService(OidcEndpointProvider);
 });
@@ -0,0 +1,118 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import { inject, injectable, postConstruct } from 'inversify';
+import { Info, InfoMessage } from 'open-collaboration-protocol';
+import { User } from './types.js';
+import { Configuration } from './utils/configuration.js';
+
+export type PolicyAction = 'login' | 'create-room' | 'join-room';
+
+export const PolicyActions: readonly PolicyAction[] = ['login', 'create-room', 'join-room'];
+
+export const LoginPolicy = Symbol('LoginPolicy');
+
+/**
+ * Decides which users may log in, create rooms and join rooms.
+ */
+export interface LoginPolicy {
+    /**
+     * Returns a message explaining why the user may not perform the given action,
+     * or `undefined` if the action is allowed.
+     */
+    check(user: User, action: PolicyAction): Promise<InfoMessage | undefined>;
+}
+
+export interface PolicyRules {
+    allowedEmailDomains?: string[];
+    allowedAuthProviders?: string[];
+    allowedUsers?: string[];
+    deniedUsers?: string[];
+}
+
+/**
+ * Login policy based on the `oct-policy-{action}-*` configuration keys.
+ * The rules of the `login` action apply to all actions, the rules of the other actions restrict them further.
+ * A user is denied if any configured rule doesn't match.
+ */
+@injectable()
+export class DefaultLoginPolicy implements LoginPolicy {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    protected rules = new Map<PolicyAction, PolicyRules>();
+
+    @postConstruct()
+    protected initialize(): void {
+        for (const action of PolicyActions) {
+            this.rules.set(action, {
+                allowedEmailDomains: this.getList(`oct-policy-${action}-allowed-email-domains`),
+                allowedAuthProviders: this.getList(`oct-policy-${action}-allowed-auth-providers`),
+                allowedUsers: this.getList(`oct-policy-${action}-allowed-users`),
+                deniedUsers: this.getList(`oct-policy-${action}-denied-users`)
+            });
+        }
+    }
+
+    protected getList(key: string): string[] | undefined {
+        const value = this.configuration.getValue(key);
+        if (!value) {
+            return undefined;
+        }
+        return value.split(',').map(item => item.trim().toLowerCase()).filter(item => item.length > 0);
+    }
+
+    async check(user: User, action: PolicyAction): Promise<InfoMessage | undefined> {
+        if (!this.matches(user, this.rules.get('login'))) {
+            return {
+                code: Info.Codes.LoginNotAllowed,
+                params: [],
+                message: 'You are not allowed to log in to this server'
+            };
+        }
+        if (action === 'create-room' && !this.matches(user, this.rules.get(action))) {
+            return {
+                code: Info.Codes.CreateRoomNotAllowed,
+                params: [],
+                message: 'You are not allowed to create sessions on this server'
+            };
+        }
+        if (action === 'join-room' && !this.matches(user, this.rules.get(action))) {
+            return {
+                code: Info.Codes.JoinRoomNotAllowed,
+                params: [],
+                message: 'You are not allowed to join sessions on this server'
+            };
+        }
+        return undefined;
+    }
+
+    protected matches(user: User, rules: PolicyRules | undefined): boolean {
+        if (!rules) {
+            return true;
+        }
+        const id = user.id.toLowerCase();
+        if (rules.deniedUsers?.includes(id)) {
+            return false;
+        }
+        if (rules.allowedUsers && !rules.allowedUsers.includes(id)) {
+            return false;
+        }
+        if (rules.allowedAuthProviders && !rules.allowedAuthProviders.includes(user.authProvider?.toLowerCase() ?? '')) {
+            return false;
+        }
+        if (rules.allowedEmailDomains) {
+            // Users of the unverified simple login can enter any email address
+            const email = user.authProvider !== 'Unverified' ? user.email?.toLowerCase() : undefined;
+            const domain = email?.substring(email.lastIndexOf('@') + 1);
+            if (!domain || !rules.allowedEmailDomains.includes(domain)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+}
@@ -0,0 +1,86 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { inject, injectable } from 'inversify';
+import { nanoid } from 'nanoid';
+import nodemailer from 'nodemailer';
+import { Configuration } from './utils/configuration.js';
+import { Logger } from './utils/logging.js';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export const Mailer = Symbol('Mailer');
+
+/**
+ * Sends emails to users, e.g. to verify their email address.
+ */
+export interface Mailer {
+    send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Mailer that sends emails through the SMTP server configured in `oct-smtp-url`.
+ */
+@injectable()
+export class SmtpMailer implements Mailer {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    private transport?: nodemailer.Transporter;
+
+    protected getTransport(): nodemailer.Transporter {
+        if (!this.transport) {
+            const url = this.configuration.getValue('oct-smtp-url');
+            if (!url) {
+                throw new Error('OCT_SMTP_URL env variable is not set');
+            }
+            this.transport = nodemailer.createTransport(url);
+        }
+        return this.transport;
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.getTransport().sendMail({
+            from: this.configuration.getValue('oct-mail-from'),
+            ...message
+        });
+    }
+
+}
+
+/**
+ * Mailer that writes all emails as `.eml` files into a directory instead of sending them.
+ * Intended for local testing. The directory can be configured using the `oct-mail-drop-path` configuration key.
+ */
+@injectable()
+export class FileMailer implements Mailer {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    private transport = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+    async send(message: MailMessage): Promise<void> {
+        const directory = path.resolve(this.configuration.getValue('oct-mail-drop-path') ?? 'oct-mail');
+        const info = await this.transport.sendMail({
+            from: this.configuration.getValue('oct-mail-from') ?? 'oct@localhost',
+            ...message
+        });
+        await fs.mkdir(directory, { recursive: true });
+        const file = path.join(directory, `${Date.now()}-${nanoid(8)}.eml`);
+        await fs.writeFile(file, info.message as Buffer);
+        this.logger.info(`Wrote email to '${message.to}' into ${file}`);
+    }
+
+}
@@ -4,11 +4,13 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
-import { inject, injectable } from 'inversify';
+import { inject, injectable, postConstruct } from 'inversify';
 import { Deferred, EncryptedBroadcastMessage, BroadcastMessage, Message, UnknownRequestMessage, UnknownResponseMessage, UnknownResponseErrorMessage, UnknownNotificationMessage, UnknownBroadcastMessage } from 'open-collaboration-protocol';
 import { Peer } from './types.js';
 import { nanoid } from 'nanoid';
 import { Logger } from './utils/logging.js';
+import { ClusterService } from './cluster/cluster-service.js';
+import { ServerMetrics } from './metrics.js';
 
 export interface RelayedRequest {
     id: string | number;
@@ -21,26 +23,74 @@ export class MessageRelay {
 
     @inject(Logger) protected logger: Logger;
 
+    @inject(ClusterService) protected cluster: ClusterService;
+
+    @inject(ServerMetrics) protected metrics: ServerMetrics;
+
     protected requestMap = new Map<string, RelayedRequest>();
 
+    @postConstruct()
+    protected initialize(): void {
+        this.cluster.onNodeMessage(({ data }) => {
+            if (data.kind === 'response') {
+                this.resolveRequest(data.message);
+            }
+        });
+    }
+
     pushResponse(receiver: Peer, message: UnknownResponseMessage | UnknownResponseErrorMessage): void {
+        this.metrics.recordMessage('response', message);
+        if (!this.resolveRequest(message) && this.cluster.enabled) {
+            // The request might have been sent by another node of the cluster
+            const node = this.getRequestNode(message.id.toString());
+            if (node && node !== this.cluster.nodeId) {
+                this.cluster.sendToNode(node, {
+                    kind: 'response',
+                    message
+                });
+            }
+        }
+    }
+
+    protected resolveRequest(message: UnknownResponseMessage | UnknownResponseErrorMessage): boolean {
         const relayedRequest = this.requestMap.get(message.id.toString());
         if (relayedRequest) {
             relayedRequest.response.resolve(message);
             relayedRequest.dispose();
+            return true;
         }
+        return false;
+    }
+
+    /**
+     * In cluster mode, request keys are prefixed with the id of the node that relayed the request.
+     * This allows to route the response back to the correct node.
+     */
+    protected createRequestKey(): string {
+        const key = nanoid(24);
+        return this.cluster.enabled ? `${this.cluster.nodeId}.${key}` : key;
+    }
+
+    protected getRequestNode(key: string): string | undefined {
+        const index = key.lastIndexOf('.');
+        return index > 0 ? key.substring(0, index) : undefined;
     }
 
     sendRequest(target: Peer, message: UnknownRequestMessage, timeoutMs?: number): Promise<UnknownResponseMessage | UnknownResponseErrorMessage> {
         const deferred = new Deferred<UnknownResponseMessage | UnknownResponseErrorMessage>();
         const messageId = message.id;
-        const key = nanoid(24);
+        const key = this.createRequestKey();
         const dispose = () => {
             this.requestMap.delete(key);
             clearTimeout(timeout);
             deferred.reject(new Error('Request timed out'));
         };
-        const timeout = setTimeout(dispose, timeoutMs ?? 30_000);
+        const timeout = setTimeout(() => {
+            this.metrics.recordRequestTimeout();
+            dispose();
+        }, timeoutMs ?? 30_000);
+        const endRequest = this.metrics.startRequest();
+        deferred.promise.then(() => endRequest(), () => { /* timeouts are recorded separately */ });
         this.requestMap.set(key, {
             id: messageId,
             response: deferred,
@@ -50,11 +100,13 @@ export class MessageRelay {
             ...message,
             id: key
         };
+        this.metrics.recordMessage('request', targetMessage);
         target.channel.sendMessage(targetMessage);
         return deferred.promise;
     }
 
     sendNotification(target: Peer, message: UnknownNotificationMessage): void {
+        this.metrics.recordMessage('notification', message);
         target.channel.sendMessage(message);
     }
 
@@ -78,13 +130,15 @@ export class MessageRelay {
                                 }
                             }
                         };
+                        this.metrics.recordMessage('broadcast', messageWithSingleKey);
                         peer.channel.sendMessage(messageWithSingleKey);
                     } else if (!Message.isEncrypted(message)) {
+                        this.metrics.recordMessage('broadcast', message);
                         peer.channel.sendMessage(message);
                     } else {
                         // If the sender did not include a key for one of the peers, they cannot decrypt the message
                         // This is unexpected behavior as every broadcast should be sent to every peer in the room
-                        this.logger.warn(`No key found for peer ${peer.id} in room ${room.id}`);
+                        this.logger.withContext({ roomId: room.id, peerId: peer.id }).warn(`No key found for peer ${peer.id} in room ${room.id}`);
                     }
                 }
             }
@@ -0,0 +1,182 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as crypto from 'node:crypto';
+import { inject, injectable, postConstruct } from 'inversify';
+import express from 'express';
+import * as prometheus from 'prom-client';
+import { Message } from 'open-collaboration-protocol';
+import { Room } from './types.js';
+import { Configuration } from './utils/configuration.js';
+import { Logger } from './utils/logging.js';
+
+export type RelayedMessageType = 'request' | 'response' | 'notification' | 'broadcast';
+export type JoinOutcome = 'accepted' | 'rejected' | 'timeout';
+export type LoginOutcome = 'success' | 'denied' | 'error';
+
+/**
+ * Collects the metrics of the server and exposes them in the Prometheus text format at `/metrics`.
+ * The endpoint is enabled using the `oct-metrics-enabled` configuration key and can be protected
+ * with basic auth using `oct-metrics-username` and `oct-metrics-password`.
+ * Metrics are always recorded, so that custom bindings can expose the registry in other ways.
+ */
+@injectable()
+export class ServerMetrics {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    readonly registry = new prometheus.Registry();
+
+    protected getRooms: () => Room[] = () => [];
+
+    protected messages: prometheus.Counter<'type'>;
+    protected messageBytes: prometheus.Counter<'type'>;
+    protected requestDuration: prometheus.Histogram;
+    protected requestTimeouts: prometheus.Counter;
+    protected joinRequests: prometheus.Counter<'outcome'>;
+    protected logins: prometheus.Counter<'provider' | 'outcome'>;
+
+    @postConstruct()
+    protected initialize(): void {
+        const registers = [this.registry];
+        // Rooms and peers that are connected to other nodes of the cluster are reported by these nodes
+        const localRooms = () => this.getRooms().filter(room => !room.host.node);
+        const localPeers = () => this.getRooms().flatMap(room => room.peers).filter(peer => !peer.node);
+        new prometheus.Gauge({
+            name: 'oct_rooms',
+            help: 'Number of active rooms hosted on this server',
+            registers,
+            collect() {
+                this.set(localRooms().length);
+            }
+        });
+        new prometheus.Gauge({
+            name: 'oct_peers',
+            help: 'Number of peers connected to this server',
+            registers,
+            collect() {
+                this.set(localPeers().length);
+            }
+        });
+        new prometheus.Gauge({
+            name: 'oct_channel_buffered_messages',
+            help: 'Number of messages buffered for temporarily disconnected peers',
+            registers,
+            collect() {
+                this.set(localPeers().reduce((sum, peer) => sum + peer.channel.bufferedMessages, 0));
+            }
+        });
+        this.messages = new prometheus.Counter({
+            name: 'oct_relayed_messages_total',
+            help: 'Number of messages relayed to peers',
+            labelNames: ['type'],
+            registers
+        });
+        this.messageBytes = new prometheus.Counter({
+            name: 'oct_relayed_message_bytes_total',
+            help: 'Size of the encrypted content of messages relayed to peers in bytes',
+            labelNames: ['type'],
+            registers
+        });
+        this.requestDuration = new prometheus.Histogram({
+            name: 'oct_request_duration_seconds',
+            help: 'Time until relayed requests have been answered by the target peer',
+            buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+            registers
+        });
+        this.requestTimeouts = new prometheus.Counter({
+            name: 'oct_request_timeouts_total',
+            help: 'Number of relayed requests that have not been answered in time',
+            registers
+        });
+        this.joinRequests = new prometheus.Counter({
+            name: 'oct_join_requests_total',
+            help: 'Number of join requests by outcome',
+            labelNames: ['outcome'],
+            registers
+        });
+        this.logins = new prometheus.Counter({
+            name: 'oct_logins_total',
+            help: 'Number of logins by authentication provider and outcome',
+            labelNames: ['provider', 'outcome'],
+            registers
+        });
+    }
+
+    /**
+     * Sets the function that provides the rooms for the room and peer gauges.
+     */
+    trackRooms(getRooms: () => Room[]): void {
+        this.getRooms = getRooms;
+    }
+
+    recordMessage(type: RelayedMessageType, message: Message): void {
+        this.messages.inc({ type });
+        if (Message.isEncrypted(message)) {
+            this.messageBytes.inc({ type }, message.content.byteLength);
+        }
+    }
+
+    /**
+     * Starts measuring the duration of a relayed request.
+     * @returns a function that records the duration once the request has been answered
+     */
+    startRequest(): () => void {
+        return this.requestDuration.startTimer();
+    }
+
+    recordRequestTimeout(): void {
+        this.requestTimeouts.inc();
+    }
+
+    recordJoinRequest(outcome: JoinOutcome): void {
+        this.joinRequests.inc({ outcome });
+    }
+
+    recordLogin(provider: string | undefined, outcome: LoginOutcome): void {
+        this.logins.inc({ provider: provider ?? 'unknown', outcome });
+    }
+
+    shouldActivate(): boolean {
+        return this.configuration.getValue('oct-metrics-enabled', 'boolean') ?? false;
+    }
+
+    onStart(app: express.Express): void {
+        // Process metrics such as memory and CPU usage
+        prometheus.collectDefaultMetrics({ register: this.registry, prefix: 'oct_' });
+        app.get('/metrics', async (req, res) => {
+            if (!this.isAuthorized(req)) {
+                res.header('WWW-Authenticate', 'Basic realm="metrics"');
+                res.status(401);
+                res.send('Unauthorized');
+                return;
+            }
+            try {
+                res.header('Content-Type', this.registry.contentType);
+                res.send(await this.registry.metrics());
+            } catch (error) {
+                this.logger.error('Failed to collect metrics', error);
+                res.status(500);
+                res.send('Failed to collect metrics');
+            }
+        });
+        this.logger.info('Metrics are exposed at /metrics');
+    }
+
+    protected isAuthorized(req: express.Request): boolean {
+        const username = this.configuration.getValue('oct-metrics-username');
+        const password = this.configuration.getValue('oct-metrics-password');
+        if (!username && !password) {
+            return true;
+        }
+        const expected = crypto.createHash('sha256').update(`Basic ${Buffer.from(`${username ?? ''}:${password ?? ''}`).toString('base64')}`).digest();
+        const actual = crypto.createHash('sha256').update(req.headers.authorization ?? '').digest();
+        return crypto.timingSafeEqual(expected, actual);
+    }
+
+}
@@ -5,20 +5,48 @@
 // ******************************************************************************
 
 import { injectable } from 'inversify';
+import { nanoid } from 'nanoid';
 import { Peer } from './types.js';
 
 @injectable()
 export class PeerManager {
 
     private readonly peers: Map<string, Peer> = new Map();
+    private readonly resumeTokens: Map<string, Peer> = new Map();
 
     register(peer: Peer): void {
         this.peers.set(peer.jwt, peer);
-        peer.onDispose(() => this.peers.delete(peer.jwt));
+        peer.onDispose(() => {
+            this.peers.delete(peer.jwt);
+            this.revokeResumeTokens(peer);
+        });
     }
 
     getPeer(jwt: string): Peer | undefined {
         return this.peers.get(jwt);
     }
 
+    /**
+     * Issues a token that allows the client of the peer to re-attach to it after the connection has been lost.
+     * Previously issued tokens of the peer become invalid.
+     */
+    createResumeToken(peer: Peer): string {
+        this.revokeResumeTokens(peer);
+        const token = nanoid(32);
+        this.resumeTokens.set(token, peer);
+        return token;
+    }
+
+    getPeerByResumeToken(token: string): Peer | undefined {
+        return this.resumeTokens.get(token);
+    }
+
+    protected revokeResumeTokens(peer: Peer): void {
+        for (const [token, tokenPeer] of this.resumeTokens) {
+            if (tokenPeer === peer) {
+                this.resumeTokens.delete(token);
+            }
+        }
+    }
+
 }
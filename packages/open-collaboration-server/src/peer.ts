@@ -12,6 +12,7 @@ import { MessageRelay } from './message-relay.js';
 import { RoomManager } from './room-manager.js';
 import { Peer, PeerInfo, Room, User } from './types.js';
 import { Logger } from './utils/logging.js';
+import { Configuration } from './utils/configuration.js';
 import { parse } from 'semver';
 
 export const PeerFactory = Symbol('PeerFactory');
@@ -22,7 +23,13 @@ export class PeerImpl implements Peer {
 
     @inject(Logger) protected logger: Logger;
 
-    readonly id = nanoid(24);
+    @inject(Configuration) protected configuration: Configuration;
+
+    private _id: string;
+
+    get id(): string {
+        return this._id;
+    }
 
     get jwt(): string {
         return this.peerInfo.jwt;
@@ -45,7 +52,11 @@ export class PeerImpl implements Peer {
     }
 
     get host(): boolean {
-        return this.peerInfo.host;
+        return this._host ?? this.peerInfo.host;
+    }
+
+    set host(value: boolean) {
+        this._host = value;
     }
 
     get room(): Room {
@@ -66,6 +77,7 @@ export class PeerImpl implements Peer {
     private readonly roomManager: RoomManager;
 
     private _channel?: Channel;
+    private _host?: boolean;
     private disposed = false;
     private readonly onDisposeEmitter = new protocol.Emitter<void>();
 
@@ -82,7 +94,14 @@ export class PeerImpl implements Peer {
 
     @postConstruct()
     protected initialize(): void {
-        this._channel = new Channel(this.peerInfo.channel);
+        this._id = this.peerInfo.id ?? nanoid(24);
+        this.logger = this.logger.withContext({ peerId: this._id, userId: this.user.id, client: this.client });
+        this._channel = new Channel(this.peerInfo.channel, {
+            gracePeriod: (this.configuration.getValue('oct-reconnect-grace-period', 'number') ?? 60) * 1000,
+            maxBufferedMessages: this.configuration.getValue('oct-channel-max-buffered-messages', 'number') ?? 10_000,
+            maxBufferedBytes: (this.configuration.getValue('oct-channel-max-buffered-size', 'number') ?? 16) * 1024 * 1024
+        });
+        this._channel.onOverflow(reason => this.logger.warn(`Disconnecting peer '${this.id}': ${reason}`));
         this._channel.onMessage(message => this.receiveMessage(message));
         this._channel.onClose(() => this.dispose());
     }
@@ -111,7 +130,8 @@ export class PeerImpl implements Peer {
                 // Adjust the response to the original message id
                 response.id = message.id;
                 this.channel.sendMessage(response);
-            } catch (_error) {
+            } catch (error) {
+                this.logger.withContext({ requestId: message.id }).debug(`Failed to relay request to: ${message.target || '<empty>'}`, error);
                 const errorResponseMessage = protocol.ResponseErrorMessage.create(message.id, 'Failed to retrieve the requested data.');
                 this.channel.sendMessage(errorResponseMessage);
             }
@@ -130,6 +150,12 @@ export class PeerImpl implements Peer {
                 this.logger.error(`Failed sending notification to: ${message.target || '<empty>'}`);
             }
         } else if (protocol.BroadcastMessage.isAny(message)) {
+            // The method of encrypted broadcasts is hidden from the server.
+            // Peers ignore encrypted broadcasts of server-only methods themselves.
+            if (protocol.BroadcastMessage.is(message) && protocol.Messages.Room.ServerBroadcasts.includes(message.content.method)) {
+                this.logger.warn(`Received server-only broadcast '${message.content.method}' from: '${this.id}'`);
+                return;
+            }
             if (!protocol.Message.isEncrypted(message)) {
                 this.logger.warn(`Received unencrypted broadcast from: '${this.id}'`);
                 return;
@@ -146,6 +172,15 @@ export class PeerImpl implements Peer {
         try {
             if (notification.content.method === protocol.Messages.Room.Leave.method) {
                 this.dispose();
+            } else if (notification.content.method === protocol.Messages.Room.PromoteHost.method) {
+                const [peerId] = notification.content.params as [string];
+                await this.roomManager.promoteHost(this, peerId);
+            } else if (notification.content.method === protocol.Messages.Room.Kick.method) {
+                const [peerId, ban] = notification.content.params as [string, boolean];
+                await this.roomManager.kickPeer(this, peerId, ban);
+            } else if (notification.content.method === protocol.Messages.Room.AuditPermissionChange.method) {
+                const [peerId] = notification.content.params as [string | undefined];
+                this.roomManager.recordPermissionChange(this, peerId);
             } else {
                 throw new Error('Unknown server message method: ' + notification.content.method);
             }
@@ -4,12 +4,18 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
-import { inject, injectable } from 'inversify';
+import { inject, injectable, postConstruct } from 'inversify';
 import { CredentialsManager } from './credentials-manager.js';
 import { MessageRelay } from './message-relay.js';
+import { RoomStore, StoredPeer, StoredRoom } from './room-store.js';
 import { Peer, Room, User, isUser } from './types.js';
-import { Messages, BroadcastMessage, NotificationMessage, RequestMessage, ResponseMessage, isObject, Info, Event, Disposable, Emitter, JoinRoomResponse, JoinRoomPollResponse, JoinResponse } from 'open-collaboration-protocol';
+import { Messages, BroadcastMessage, NotificationMessage, RequestMessage, ResponseMessage, isObject, Info, Event, Disposable, Emitter, JoinRoomResponse, JoinRoomPollResponse, JoinResponse, LeaveReason } from 'open-collaboration-protocol';
 import { Logger } from './utils/logging.js';
+import { Configuration } from './utils/configuration.js';
+import { ClusterEvent, ClusterPeerData, ClusterService, JoinPollData } from './cluster/cluster-service.js';
+import { RemotePeer } from './cluster/remote-peer.js';
+import { ServerMetrics } from './metrics.js';
+import { AuditLog } from './audit-log.js';
 
 export interface PreparedRoom {
     id: string;
@@ -35,6 +41,25 @@ export interface JoinPollResult extends Disposable {
     update(result: JoinRoomResponse | JoinRoomPollResponse): void;
     onUpdate: Event<JoinRoomResponse | JoinRoomPollResponse>;
     result?: JoinRoomResponse | JoinRoomPollResponse;
+    /**
+     * The join request of the poll result. Only set on the node that has received the request.
+     */
+    request?: JoinRequest;
+}
+
+export interface JoinRequest {
+    roomId: string;
+    user: User;
+    requestedAt: number;
+}
+
+/**
+ * A room that has been restored from the {@link RoomStore} after a server restart.
+ * It becomes active again once its host reconnects.
+ */
+interface SuspendedRoom {
+    timeout: NodeJS.Timeout;
+    onResume: Emitter<Room | undefined>;
 }
 
 @injectable()
@@ -43,6 +68,8 @@ export class RoomManager {
     protected rooms = new Map<string, Room>();
     protected peers = new Map<string, Room>();
     protected pollResults = new Map<string, JoinPollResult>();
+    protected suspendedRooms = new Map<string, SuspendedRoom>();
+    protected restored: Promise<void>;
 
     @inject(MessageRelay)
     private readonly messageRelay: MessageRelay;
@@ -50,19 +77,276 @@ export class RoomManager {
     @inject(CredentialsManager)
     protected readonly credentials: CredentialsManager;
 
+    @inject(RoomStore)
+    protected readonly roomStore: RoomStore;
+
+    @inject(Configuration)
+    protected readonly configuration: Configuration;
+
+    @inject(ClusterService)
+    protected readonly cluster: ClusterService;
+
+    @inject(ServerMetrics)
+    protected readonly metrics: ServerMetrics;
+
+    @inject(AuditLog)
+    protected readonly auditLog: AuditLog;
+
     @inject(Logger) protected logger: Logger;
 
+    @postConstruct()
+    protected initialize(): void {
+        this.metrics.trackRooms(() => this.getRooms());
+        this.restored = this.restoreRooms().catch(err => {
+            this.logger.error('Failed to restore rooms from the room store', err);
+        });
+        this.cluster.onEvent(({ node, data }) => this.handleClusterEvent(node, data));
+        this.cluster.onNodeMessage(({ data }) => {
+            if (data.kind === 'relay') {
+                // Deliver messages that other nodes have relayed to one of our peers
+                const peer = this.getRoomByPeerId(data.peerId)?.getPeer(data.peerId);
+                if (peer && !peer.node) {
+                    peer.channel.sendMessage(data.message);
+                } else {
+                    this.logger.warn(`Received relayed message for unknown peer '${data.peerId}'`);
+                }
+            }
+        });
+    }
+
+    protected handleClusterEvent(node: string, event: ClusterEvent): void {
+        switch (event.kind) {
+            case 'hello':
+                // A new node has joined the cluster, tell it about all peers connected to this node
+                for (const room of this.rooms.values()) {
+                    for (const peer of room.peers) {
+                        if (!peer.node) {
+                            this.publishClusterEvent({ kind: 'peer-joined', peer: this.toClusterPeer(peer, room) });
+                        }
+                    }
+                }
+                break;
+            case 'peer-joined':
+                this.addRemotePeer(node, event.peer);
+                break;
+            case 'peer-left':
+                this.removeRemotePeer(event.roomId, event.peerId);
+                break;
+            case 'room-closed':
+                this.closeRemoteRoom(event.roomId);
+                break;
+            case 'host-changed': {
+                const room = this.rooms.get(event.roomId);
+                const newHost = room?.getPeer(event.peerId);
+                if (room && newHost) {
+                    this.changeHost(room, newHost, false);
+                }
+                break;
+            }
+            case 'peer-kicked': {
+                const room = this.rooms.get(event.roomId);
+                const peer = room?.getPeer(event.peerId);
+                if (room && peer) {
+                    this.removeKickedPeer(room, peer, event.ban);
+                }
+                break;
+            }
+            case 'join-poll':
+                this.updateRemotePollResult(event.pollId, event.result, event.disposed);
+                break;
+        }
+    }
+
+    /**
+     * Publishes an event to the other nodes of the cluster. Failures are logged instead of being thrown,
+     * as the local state of the room has already been updated at this point.
+     */
+    protected async publishClusterEvent(event: ClusterEvent): Promise<void> {
+        try {
+            await this.cluster.publish(event);
+        } catch (err) {
+            this.logger.error(`Failed to publish '${event.kind}' event to the cluster`, err);
+        }
+    }
+
+    protected toClusterPeer(peer: Peer, room: Room): ClusterPeerData {
+        return {
+            id: peer.id,
+            roomId: room.id,
+            host: peer.host,
+            client: peer.client,
+            user: peer.user,
+            peer: peer.toProtocol()
+        };
+    }
+
+    protected addRemotePeer(node: string, data: ClusterPeerData): void {
+        if (this.peers.has(data.id)) {
+            return;
+        }
+        const peer = new RemotePeer(data, node, this.cluster, () => this.getRoomByPeerId(data.id));
+        let room = this.rooms.get(data.roomId);
+        if (data.host) {
+            if (room) {
+                return;
+            }
+            room = new Room(data.roomId, peer, []);
+            this.rooms.set(room.id, room);
+        } else if (room) {
+            room.guests.push(peer);
+        } else {
+            this.logger.debug(`Received remote peer '${data.id}' for unknown room '${data.roomId}'`);
+            return;
+        }
+        this.peers.set(peer.id, room);
+    }
+
+    protected removeRemotePeer(roomId: string, peerId: string): void {
+        const room = this.rooms.get(roomId);
+        const peer = room?.getPeer(peerId);
+        if (room && peer?.node) {
+            this.peers.delete(peerId);
+            room.removeGuest(peerId);
+            peer.dispose();
+        }
+    }
+
+    protected closeRemoteRoom(roomId: string): void {
+        const room = this.rooms.get(roomId);
+        if (room?.host.node) {
+            this.sendRoomClosed(room);
+            for (const peer of room.peers) {
+                this.peers.delete(peer.id);
+                peer.dispose();
+            }
+            this.rooms.delete(roomId);
+        }
+    }
+
+    /**
+     * Sends the given message to all peers of the room that are connected to this node.
+     */
+    protected sendToLocalPeers(room: Room, message: BroadcastMessage): void {
+        for (const peer of room.peers) {
+            if (!peer.node) {
+                peer.channel.sendMessage(message);
+            }
+        }
+    }
+
+    /**
+     * Notifies all peers connected to this node that the room has been closed.
+     * Peers connected to other nodes are notified by their own node.
+     */
+    protected sendRoomClosed(room: Room): void {
+        const broadcastMessage = BroadcastMessage.create(Messages.Room.Closed, room.host.id);
+        for (const peer of room.guests) {
+            if (!peer.node) {
+                peer.channel.sendMessage(broadcastMessage);
+            }
+        }
+    }
+
+    /**
+     * Restores all rooms from the room store. Restored rooms stay suspended until their host reconnects.
+     * Rooms whose host does not reconnect within the configured timeout are removed.
+     */
+    protected async restoreRooms(): Promise<void> {
+        const storedRooms = await this.roomStore.getRooms();
+        const resumeTimeout = (this.configuration.getValue('oct-room-resume-timeout', 'number') ?? 60) * 1000;
+        for (const storedRoom of storedRooms) {
+            const onResume = new Emitter<Room | undefined>();
+            const timeout = setTimeout(() => {
+                this.logger.info(`Host did not reconnect to room [id: '${storedRoom.id}'], removing it`);
+                this.suspendedRooms.delete(storedRoom.id);
+                onResume.fire(undefined);
+                onResume.dispose();
+                this.roomStore.deleteRoom(storedRoom.id).catch(err => {
+                    this.logger.error(`Failed to remove room '${storedRoom.id}' from the room store`, err);
+                });
+            }, resumeTimeout);
+            this.suspendedRooms.set(storedRoom.id, { timeout, onResume });
+        }
+        if (storedRooms.length > 0) {
+            this.logger.info(`Restored ${storedRooms.length} room(s) from the room store, waiting for their hosts to reconnect`);
+        }
+    }
+
+    protected resumeRoom(room: Room): void {
+        const suspended = this.suspendedRooms.get(room.id);
+        if (suspended) {
+            clearTimeout(suspended.timeout);
+            this.suspendedRooms.delete(room.id);
+            suspended.onResume.fire(room);
+            suspended.onResume.dispose();
+            this.logger.withContext({ roomId: room.id }).info(`Resumed room [id: '${room.id}']`);
+        }
+    }
+
+    protected waitForHost(roomId: string): Promise<Room | undefined> {
+        const suspended = this.suspendedRooms.get(roomId);
+        if (!suspended) {
+            return Promise.resolve(undefined);
+        }
+        return new Promise(resolve => suspended.onResume.event(resolve));
+    }
+
+    protected async saveRoom(room: Room): Promise<void> {
+        try {
+            await this.roomStore.saveRoom({
+                id: room.id,
+                host: room.host.user,
+                clock: room.clock,
+                peers: [],
+                createdAt: room.createdAt
+            });
+        } catch (err) {
+            this.logger.error(`Failed to save room '${room.id}' in the room store`, err);
+        }
+    }
+
+    protected async updateStoredRoom(id: string, update: (room: StoredRoom) => void): Promise<void> {
+        try {
+            const storedRoom = await this.roomStore.getRoom(id);
+            if (storedRoom) {
+                update(storedRoom);
+                await this.roomStore.saveRoom(storedRoom);
+            }
+        } catch (err) {
+            this.logger.error(`Failed to update room '${id}' in the room store`, err);
+        }
+    }
+
+    /**
+     * Returns the peer that previously connected using the given room claim.
+     * Reusing the peer id allows clients to resume their session after a server restart.
+     */
+    async getStoredPeer(claim: RoomClaim): Promise<StoredPeer | undefined> {
+        await this.restored;
+        const storedRoom = await this.roomStore.getRoom(claim.room);
+        const roomClock = claim.host ? 0 : claim.roomClock;
+        return storedRoom?.peers.find(peer => peer.roomClock === roomClock && peer.user.id === claim.user.id);
+    }
+
     async closeRoom(id: string): Promise<void> {
         const room = this.getRoomById(id);
         if (room) {
-            const broadcastMessage = BroadcastMessage.create(Messages.Room.Closed, '');
-            this.messageRelay.sendBroadcast(room.host, broadcastMessage);
+            this.sendRoomClosed(room);
+            if (!room.host.node) {
+                await this.publishClusterEvent({ kind: 'room-closed', roomId: room.id });
+                this.auditLog.record({ kind: 'room-closed', roomId: room.id, user: room.host.user });
+            }
             for (const peer of room.peers) {
                 this.peers.delete(peer.id);
                 peer.dispose();
             }
             this.rooms.delete(id);
-            this.logger.info(`Deleted room '${room.id}'`);
+            this.logger.withContext({ roomId: room.id }).info(`Deleted room '${room.id}'`);
+        }
+        try {
+            await this.roomStore.deleteRoom(id);
+        } catch (err) {
+            this.logger.error(`Failed to remove room '${id}' from the room store`, err);
         }
     }
 
@@ -78,33 +362,59 @@ export class RoomManager {
             host: true,
             roomClock: 0
         };
-        this.logger.info(`Prepared room [id: '${claim.room}'] for user [provider: '${user.authProvider || '<none>'}' | id: '${user.id}' | name: '${user.name}' | email: '${user.email || '<none>'}']`);
-        const jwt = await this.credentials.generateJwt(claim);
+        this.logger.withContext({ roomId: claim.room, userId: user.id }).info(`Prepared room [id: '${claim.room}'] for user [provider: '${user.authProvider || '<none>'}' | id: '${user.id}' | name: '${user.name}' | email: '${user.email || '<none>'}']`);
+        // The room is only persisted once its host has joined it
+        const jwt = await this.credentials.generateRoomJwt(claim);
         return {
             id,
             jwt
         };
     }
 
-    async join(peer: Peer, roomId: string): Promise<Room> {
+    async join(peer: Peer, roomId: string, roomClock = 0): Promise<Room> {
+        await this.restored;
         let room: Room | undefined;
+        if (peer.host && this.rooms.has(roomId)) {
+            // The host role has been handed over to another peer in the meantime
+            // The former host can only rejoin as a guest
+            peer.host = false;
+        }
         if (peer.host) {
             room = new Room(roomId, peer, []);
+            const storedRoom = await this.roomStore.getRoom(roomId);
+            if (storedRoom) {
+                room.createdAt = storedRoom.createdAt;
+                room.clock = storedRoom.clock;
+                room.bannedUsers = new Set(storedRoom.bannedUsers);
+            } else {
+                await this.saveRoom(room);
+            }
             this.rooms.set(room.id, room);
             this.peers.set(peer.id, room);
             peer.onDispose(() => {
-                this.closeRoom(room!.id);
+                this.leaveRoom(peer).catch(err => this.logger.error(`Failed to remove peer '${peer.id}' from its room`, err));
             });
-            this.logger.info(`Host [id: '${peer.id}' | client: '${peer.client}' | userId: '${peer.user.id}' | name: '${peer.user.name}' | email: '${peer.user.email || '<none>'}'] created room [id: '${room.id}']`);
+            this.getPeerLogger(peer, room).info(`Host [id: '${peer.id}' | client: '${peer.client}' | userId: '${peer.user.id}' | name: '${peer.user.name}' | email: '${peer.user.email || '<none>'}'] created room [id: '${room.id}']`);
+            if (!this.suspendedRooms.has(room.id)) {
+                this.auditLog.record({ kind: 'room-created', roomId: room.id, user: peer.user, details: { peerId: peer.id, client: peer.client } });
+            }
+            this.resumeRoom(room);
+            await this.cluster.publish({ kind: 'peer-joined', peer: this.toClusterPeer(peer, room) });
         } else {
-            room = this.rooms.get(roomId);
+            room = this.rooms.get(roomId) ?? await this.waitForHost(roomId);
             if (!room) {
                 throw this.logger.createErrorAndLog(`Could not find room to join from id: ${roomId}`);
             }
+            if (room.bannedUsers.has(peer.user.id)) {
+                throw this.getPeerLogger(peer, room).createErrorAndLog(`User '${peer.user.id}' is banned from room '${roomId}'`);
+            }
             const broadcastMessage = BroadcastMessage.create(Messages.Room.Joined, '', [peer.toProtocol()]);
             this.peers.set(peer.id, room);
             room.guests.push(peer);
-            this.logger.info(`Peer [id: '${peer.id}' | client: '${peer.client}' | userId: '${peer.user.id}' | name: '${peer.user.name}' | email: '${peer.user.email || '<none>'}'] joined room [id: '${room.id}']`);
+            this.getPeerLogger(peer, room).info(`Peer [id: '${peer.id}' | client: '${peer.client}' | userId: '${peer.user.id}' | name: '${peer.user.name}' | email: '${peer.user.email || '<none>'}'] joined room [id: '${room.id}']`);
+            this.auditLog.record({ kind: 'peer-joined', roomId: room.id, user: peer.user, details: { peerId: peer.id, client: peer.client } });
+            // Other nodes need to know about the peer before they receive any message from it
+            await this.cluster.publish({ kind: 'peer-joined', peer: this.toClusterPeer(peer, room) });
             try {
                 this.messageRelay.sendBroadcast(
                     peer,
@@ -114,9 +424,18 @@ export class RoomManager {
                 this.logger.error('Failed to send join broadcast', err);
             }
             peer.onDispose(() => {
-                this.leaveRoom(peer);
+                this.leaveRoom(peer).catch(err => this.logger.error(`Failed to remove peer '${peer.id}' from its room`, err));
             });
         }
+        await this.updateStoredRoom(room.id, storedRoom => {
+            storedRoom.peers = storedRoom.peers.filter(e => e.id !== peer.id);
+            storedRoom.peers.push({
+                id: peer.id,
+                user: peer.user,
+                host: peer.host,
+                roomClock: peer.host ? 0 : roomClock
+            });
+        });
         // Send the identity info to the user (i.e. what the user needs to know about itself)
         const infoNotification = NotificationMessage.create(
             Messages.Peer.Info,
@@ -136,22 +455,198 @@ export class RoomManager {
         if (!room) {
             return;
         }
-        if (peer.host) {
-            this.closeRoom(room.id);
+        if (room.host === peer) {
+            const successor = room.guests[0];
+            // Guests cannot continue without the workspace, so the room is closed once its owner has left
+            const ownerConnected = peer !== room.workspaceOwner && room.getPeer(room.workspaceOwner.id) !== undefined;
+            if (successor && ownerConnected && this.configuration.getValue('oct-host-failover', 'boolean')) {
+                // Hand over the room to the longest-connected guest instead of closing it
+                this.changeHost(room, successor, true);
+                this.auditLog.record({ kind: 'host-changed', roomId: room.id, user: successor.user, outcome: 'failover', details: { previousHost: peer.user.id } });
+                await this.removeGuest(room, peer);
+            } else {
+                await this.closeRoom(room.id);
+            }
         } else {
+            await this.removeGuest(room, peer);
+        }
+    }
+
+    protected async removeGuest(room: Room, peer: Peer, reason?: LeaveReason): Promise<void> {
+        try {
+            const broadcastMessage = BroadcastMessage.create(Messages.Room.Left, '', reason ? [peer.toProtocol(), reason] : [peer.toProtocol()]);
+            this.messageRelay.sendBroadcast(
+                peer,
+                broadcastMessage
+            );
+            if (reason) {
+                // Let the removed peer know why it has been removed
+                peer.channel.sendMessage(broadcastMessage);
+            }
+        } catch (err) {
+            this.logger.error('Failed to send leave broadcast', err);
+        }
+        // Remove the peer from the room as the last step
+        this.peers.delete(peer.id);
+        room.removeGuest(peer.id);
+        await this.publishClusterEvent({ kind: 'peer-left', roomId: room.id, peerId: peer.id });
+        await this.updateStoredRoom(room.id, storedRoom => {
+            storedRoom.peers = storedRoom.peers.filter(e => e.id !== peer.id);
+        });
+    }
+
+    /**
+     * Removes a guest from the room of the given host. Its room token is revoked, so that it cannot rejoin the room.
+     * Optionally bans the user of the guest from joining the room again, even after a new join request.
+     */
+    async kickPeer(host: Peer, peerId: string, ban: boolean): Promise<void> {
+        const room = this.getRoomByPeerId(host.id);
+        if (!room || room.host !== host) {
+            throw this.logger.createErrorAndLog(`Peer '${host.id}' is not allowed to kick another peer as it is not the host of the room`);
+        }
+        const peer = room.getPeer(peerId);
+        if (!peer || peer === host) {
+            throw this.logger.createErrorAndLog(`Could not find peer '${peerId}' to kick in room '${room.id}'`);
+        }
+        this.getPeerLogger(peer, room).info(`Peer [id: '${peer.id}' | userId: '${peer.user.id}' | name: '${peer.user.name}'] has been ${ban ? 'banned' : 'kicked'} from room [id: '${room.id}']`);
+        this.auditLog.record({ kind: 'peer-kicked', roomId: room.id, user: peer.user, actor: host.user, outcome: ban ? 'banned' : 'kicked' });
+        await this.cluster.publish({ kind: 'peer-kicked', roomId: room.id, peerId, ban });
+        await this.removeKickedPeer(room, peer, ban);
+    }
+
+    /**
+     * Records that a peer has changed the room permissions or the role of the peer with the given id.
+     * The server only learns that a change happened, the permissions themselves are end-to-end encrypted.
+     */
+    recordPermissionChange(actor: Peer, peerId?: string): void {
+        const room = this.getRoomByPeerId(actor.id);
+        if (!room) {
+            throw this.logger.createErrorAndLog(`Peer '${actor.id}' does not belong to any room`);
+        }
+        const peer = peerId ? room.getPeer(peerId) : undefined;
+        if (peerId && !peer) {
+            throw this.logger.createErrorAndLog(`Could not find peer '${peerId}' whose role has changed in room '${room.id}'`);
+        }
+        this.auditLog.record({
+            kind: 'permissions-changed',
+            roomId: room.id,
+            user: peer?.user,
+            actor: actor.user,
+            outcome: peer ? 'role' : 'permissions',
+            details: { actorPeerId: actor.id, ...(peer ? { peerId: peer.id } : {}) }
+        });
+    }
+
+    protected async removeKickedPeer(room: Room, peer: Peer, ban: boolean): Promise<void> {
+        if (ban) {
+            room.bannedUsers.add(peer.user.id);
+            await this.updateStoredRoom(room.id, storedRoom => {
+                storedRoom.bannedUsers = Array.from(room.bannedUsers);
+            });
+        }
+        if (!peer.node) {
+            // Remote peers are removed by the node that they are connected to
+            await this.removeGuest(room, peer, ban ? 'banned' : 'kicked');
+            peer.dispose();
+            // Otherwise the guest could simply rejoin the room using its room token
+            // Revocations are shared with all nodes of the cluster
             try {
-                const broadcastMessage = BroadcastMessage.create(Messages.Room.Left, '', [peer.toProtocol()]);
-                this.messageRelay.sendBroadcast(
-                    peer,
-                    broadcastMessage
-                );
+                await this.credentials.revokeToken(peer.jwt);
             } catch (err) {
-                this.logger.error('Failed to send leave broadcast', err);
+                this.getPeerLogger(peer, room).warn(`Failed to revoke the room token of peer '${peer.id}'`, err);
+            }
+        }
+    }
+
+    /**
+     * Hands over the host role of the room of the given host to another peer of the same room.
+     */
+    async promoteHost(host: Peer, peerId: string): Promise<void> {
+        const room = this.getRoomByPeerId(host.id);
+        if (!room || room.host !== host) {
+            throw this.logger.createErrorAndLog(`Peer '${host.id}' is not allowed to promote another peer as it is not the host of the room`);
+        }
+        const newHost = room.getPeer(peerId);
+        if (!newHost || newHost === host) {
+            throw this.logger.createErrorAndLog(`Could not find peer '${peerId}' to promote in room '${room.id}'`);
+        }
+        this.changeHost(room, newHost, true);
+        this.auditLog.record({ kind: 'host-changed', roomId: room.id, user: newHost.user, actor: host.user, outcome: 'promoted', details: { previousHost: host.user.id } });
+    }
+
+    /**
+     * Makes the given peer the host of the room. The previous host becomes the most recently connected guest.
+     * The peer will take over answering join requests and initializing new guests.
+     */
+    protected changeHost(room: Room, newHost: Peer, publish: boolean): void {
+        const oldHost = room.host;
+        oldHost.host = false;
+        newHost.host = true;
+        room.host = newHost;
+        // Appending the previous host keeps the failover order of the remaining guests
+        room.guests = [...room.guests.filter(peer => peer !== newHost), oldHost];
+        this.getPeerLogger(newHost, room).info(`Peer [id: '${newHost.id}' | userId: '${newHost.user.id}' | name: '${newHost.user.name}'] is now the host of room [id: '${room.id}']`);
+        const broadcastMessage = BroadcastMessage.create(Messages.Room.HostChanged, oldHost.id, [newHost.toProtocol()]);
+        this.sendToLocalPeers(room, broadcastMessage);
+        if (publish) {
+            this.publishClusterEvent({ kind: 'host-changed', roomId: room.id, peerId: newHost.id });
+        }
+        this.updateStoredRoom(room.id, storedRoom => {
+            storedRoom.host = newHost.user;
+            for (const storedPeer of storedRoom.peers) {
+                storedPeer.host = storedPeer.id === newHost.id;
+            }
+        });
+    }
+
+    /**
+     * Disconnects the given peer, e.g. on behalf of an administrator.
+     * Guests are removed from their room, disconnecting the host closes the room unless the host role can be handed over.
+     * @returns `false` if the peer could not be found or is a host connected to another node of the cluster.
+     */
+    async disconnectPeer(peerId: string): Promise<boolean> {
+        const room = this.getRoomByPeerId(peerId);
+        const peer = room?.getPeer(peerId);
+        if (!room || !peer) {
+            return false;
+        }
+        this.getPeerLogger(peer, room).info(`Peer [id: '${peer.id}' | userId: '${peer.user.id}' | name: '${peer.user.name}'] is being disconnected from room [id: '${room.id}']`);
+        if (peer !== room.host) {
+            this.auditLog.record({ kind: 'peer-kicked', roomId: room.id, user: peer.user, outcome: 'disconnected' });
+            await this.cluster.publish({ kind: 'peer-kicked', roomId: room.id, peerId, ban: false });
+            await this.removeKickedPeer(room, peer, false);
+            return true;
+        } else if (!peer.node) {
+            this.auditLog.record({ kind: 'peer-kicked', roomId: room.id, user: peer.user, outcome: 'disconnected' });
+            // Leaving the room is handled by the dispose listener of the peer
+            peer.dispose();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Returns a logger that attaches the identity of the given peer to its records.
+     */
+    protected getPeerLogger(peer: Peer, room: Room): Logger {
+        return this.logger.withContext({ roomId: room.id, peerId: peer.id, userId: peer.user.id, client: peer.client });
+    }
+
+    getRooms(): Room[] {
+        return Array.from(this.rooms.values());
+    }
+
+    /**
+     * Returns all join requests that are still waiting for a response of the host.
+     */
+    getPendingJoinRequests(): JoinRequest[] {
+        const requests: JoinRequest[] = [];
+        for (const pollResult of this.pollResults.values()) {
+            if (pollResult.request && JoinRoomPollResponse.is(pollResult.result) && !pollResult.result.failure) {
+                requests.push(pollResult.request);
             }
-            // Remove the peer from the room as the last step
-            this.peers.delete(peer.id);
-            room.removeGuest(peer.id);
         }
+        return requests;
     }
 
     getRoomById(id: string): Room | undefined {
@@ -163,7 +658,7 @@ export class RoomManager {
     }
 
     async requestJoin(room: Room, user: User): Promise<string> {
-        this.logger.info(`Request to join room [id: '${room.id}'] by user [id: '${user.id}' | name: '${user.name}' | email: '${user.email ?? '<none>'}']`);
+        this.logger.withContext({ roomId: room.id, userId: user.id }).info(`Request to join room [id: '${room.id}'] by user [id: '${user.id}' | name: '${user.name}' | email: '${user.email ?? '<none>'}']`);
         const responseId = this.credentials.secureId();
         const timeout = setTimeout(() => {
             pollResult.update({
@@ -179,12 +674,19 @@ export class RoomManager {
             update: result => {
                 pollResult.result = result;
                 updateEmitter.fire(result);
+                this.publishClusterEvent({ kind: 'join-poll', pollId: responseId, result });
             },
             onUpdate: updateEmitter.event,
+            request: {
+                roomId: room.id,
+                user,
+                requestedAt: Date.now()
+            },
             dispose: () => {
                 updateEmitter.dispose();
                 this.pollResults.delete(responseId);
                 clearTimeout(timeout);
+                this.publishClusterEvent({ kind: 'join-poll', pollId: responseId, disposed: true });
             }
         };
         this.pollResults.set(responseId, pollResult);
@@ -199,6 +701,8 @@ export class RoomManager {
                 if (ResponseMessage.is(response)) {
                     const joinResponse = response.content.response as JoinResponse | undefined;
                     if (!joinResponse) {
+                        this.metrics.recordJoinRequest('rejected');
+                        this.auditLog.record({ kind: 'join-request', roomId: room.id, user, actor: room.host.user, outcome: 'rejected' });
                         pollResult.update({
                             failure: true,
                             code: 'JoinRejected',
@@ -216,15 +720,24 @@ export class RoomManager {
                         // If a user reconnects using an old JWT, we can identify a reconnect attempt
                         roomClock: ++room.clock
                     };
-                    const jwt = await this.credentials.generateJwt(claim);
+                    await this.updateStoredRoom(room.id, storedRoom => {
+                        storedRoom.clock = room.clock;
+                    });
+                    const jwt = await this.credentials.generateRoomJwt(claim);
+                    // Guests send their file system requests to the peer that shares the workspace
+                    const workspaceOwner = joinResponse.workspaceOwner ? room.getPeer(joinResponse.workspaceOwner) : undefined;
                     const joinRoomResponse: JoinRoomResponse = {
                         roomId: room.id,
                         roomToken: jwt,
                         workspace: joinResponse.workspace,
-                        host: room.host.toProtocol()
+                        host: (workspaceOwner ?? room.host).toProtocol()
                     };
+                    this.metrics.recordJoinRequest('accepted');
+                    this.auditLog.record({ kind: 'join-request', roomId: room.id, user, actor: room.host.user, outcome: 'accepted' });
                     pollResult.update(joinRoomResponse);
                 } else {
+                    this.metrics.recordJoinRequest('rejected');
+                    this.auditLog.record({ kind: 'join-request', roomId: room.id, user, actor: room.host.user, outcome: 'rejected' });
                     pollResult.update({
                         failure: true,
                         code: 'JoinRejected',
@@ -233,6 +746,8 @@ export class RoomManager {
                     });
                 }
             }).catch(() => {
+                this.metrics.recordJoinRequest('timeout');
+                this.auditLog.record({ kind: 'join-request', roomId: room.id, user, outcome: 'timeout' });
                 pollResult.update({
                     code: 'JoinTimeout',
                     message: 'Join request has timed out',
@@ -256,4 +771,38 @@ export class RoomManager {
         return this.pollResults.get(responseId);
     }
 
+    /**
+     * Mirrors the poll result of a join request that has been received by another node of the cluster.
+     * This allows clients to poll for the result on any node.
+     */
+    protected updateRemotePollResult(pollId: string, result?: JoinPollData, disposed?: boolean): void {
+        let pollResult = this.pollResults.get(pollId);
+        if (disposed) {
+            pollResult?.dispose();
+            return;
+        }
+        if (!pollResult) {
+            const updateEmitter = new Emitter<JoinPollData>();
+            // Fallback in case the other node never disposes the result
+            const timeout = setTimeout(() => remotePollResult.dispose(), 300_000);
+            const remotePollResult: JoinPollResult = {
+                update: value => {
+                    remotePollResult.result = value;
+                    updateEmitter.fire(value);
+                },
+                onUpdate: updateEmitter.event,
+                dispose: () => {
+                    updateEmitter.dispose();
+                    this.pollResults.delete(pollId);
+                    clearTimeout(timeout);
+                }
+            };
+            pollResult = remotePollResult;
+            this.pollResults.set(pollId, pollResult);
+        }
+        if (result) {
+            pollResult.update(result);
+        }
+    }
+
 }
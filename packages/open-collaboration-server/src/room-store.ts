@@ -0,0 +1,123 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as path from 'node:path';
+import { inject, injectable } from 'inversify';
+import { User } from './types.js';
+import { Configuration } from './utils/configuration.js';
+import { JsonFile } from './utils/json-file.js';
+
+/**
+ * A peer that has been admitted to a room.
+ * The `roomClock` identifies the room claim (i.e. the room JWT) that the peer used to connect.
+ */
+export interface StoredPeer {
+    id: string;
+    user: User;
+    host: boolean;
+    roomClock: number;
+}
+
+export interface StoredRoom {
+    id: string;
+    host: User;
+    clock: number;
+    peers: StoredPeer[];
+    createdAt: number;
+    bannedUsers?: string[];
+}
+
+export const RoomStore = Symbol('RoomStore');
+
+/**
+ * Stores the state of all rooms that is required to resume them after a server restart.
+ */
+export interface RoomStore {
+    getRoom(id: string): Promise<StoredRoom | undefined>;
+    getRooms(): Promise<StoredRoom[]>;
+    saveRoom(room: StoredRoom): Promise<void>;
+    deleteRoom(id: string): Promise<void>;
+}
+
+@injectable()
+export class InMemoryRoomStore implements RoomStore {
+
+    protected rooms = new Map<string, StoredRoom>();
+
+    async getRoom(id: string): Promise<StoredRoom | undefined> {
+        return this.rooms.get(id);
+    }
+
+    async getRooms(): Promise<StoredRoom[]> {
+        return Array.from(this.rooms.values());
+    }
+
+    async saveRoom(room: StoredRoom): Promise<void> {
+        this.rooms.set(room.id, room);
+    }
+
+    async deleteRoom(id: string): Promise<void> {
+        this.rooms.delete(id);
+    }
+
+}
+
+/**
+ * Room store that persists all rooms into a single JSON file.
+ * The file location can be configured using the `oct-room-store-path` configuration key.
+ */
+@injectable()
+export class FileRoomStore extends InMemoryRoomStore {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    private file?: JsonFile<StoredRoom[]>;
+    private loaded?: Promise<void>;
+
+    protected getFile(): JsonFile<StoredRoom[]> {
+        if (!this.file) {
+            const filePath = this.configuration.getValue('oct-room-store-path') ?? 'oct-rooms.json';
+            this.file = new JsonFile(path.resolve(filePath));
+        }
+        return this.file;
+    }
+
+    protected load(): Promise<void> {
+        this.loaded ??= this.getFile().read().then(rooms => {
+            for (const room of rooms ?? []) {
+                this.rooms.set(room.id, room);
+            }
+        });
+        return this.loaded;
+    }
+
+    protected save(): Promise<void> {
+        return this.getFile().write(Array.from(this.rooms.values()));
+    }
+
+    override async getRoom(id: string): Promise<StoredRoom | undefined> {
+        await this.load();
+        return super.getRoom(id);
+    }
+
+    override async getRooms(): Promise<StoredRoom[]> {
+        await this.load();
+        return super.getRooms();
+    }
+
+    override async saveRoom(room: StoredRoom): Promise<void> {
+        await this.load();
+        await super.saveRoom(room);
+        await this.save();
+    }
+
+    override async deleteRoom(id: string): Promise<void> {
+        await this.load();
+        await super.deleteRoom(id);
+        await this.save();
+    }
+
+}
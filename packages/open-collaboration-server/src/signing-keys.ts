@@ -0,0 +1,242 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as path from 'node:path';
+import { inject, injectable, postConstruct } from 'inversify';
+import * as jose from 'jose';
+import { Configuration } from './utils/configuration.js';
+import { JsonFile } from './utils/json-file.js';
+import { Logger } from './utils/logging.js';
+import { getLocalFilename } from './collaboration-server.js';
+
+export type SigningAlgorithm = 'HS256' | 'RS256' | 'EdDSA';
+
+export const SigningAlgorithms: readonly SigningAlgorithm[] = ['HS256', 'RS256', 'EdDSA'];
+
+export interface SigningKey {
+    /**
+     * The key id. Not set for symmetric keys.
+     */
+    kid?: string;
+    alg: SigningAlgorithm;
+    key: jose.CryptoKey | Uint8Array;
+}
+
+/**
+ * A generated key pair as persisted in the key file.
+ */
+export interface StoredSigningKey {
+    kid: string;
+    alg: SigningAlgorithm;
+    privateKey: jose.JWK;
+    createdAt: number;
+    /**
+     * The time at which the key has been replaced by a newer key.
+     * Retired keys are only used to verify tokens that have been signed before the rotation.
+     */
+    retiredAt?: number;
+}
+
+interface LoadedSigningKey extends StoredSigningKey {
+    key: jose.CryptoKey | Uint8Array;
+    verificationKey: jose.CryptoKey | Uint8Array;
+    publicKey: jose.JWK;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Manages the keys used to sign and verify JWTs.
+ *
+ * With `HS256` (the default), all tokens are signed using the secret of the `oct-jwt-private-key` configuration key.
+ * With `RS256` or `EdDSA`, tokens are signed using either the PKCS8 PEM private key of `oct-jwt-private-key`,
+ * or using key pairs that are generated and rotated automatically. The public keys are exposed as a JSON Web Key Set.
+ */
+@injectable()
+export class SigningKeyManager {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    protected _algorithm: SigningAlgorithm;
+    protected keys: LoadedSigningKey[] = [];
+    protected secret?: Uint8Array;
+    protected file?: JsonFile<StoredSigningKey[]>;
+    protected ready: Promise<void> = Promise.resolve();
+    protected lastReload = 0;
+
+    get algorithm(): SigningAlgorithm {
+        return this._algorithm;
+    }
+
+    @postConstruct()
+    protected initialize(): void {
+        const algorithm = this.configuration.getValue('oct-jwt-algorithm') ?? 'HS256';
+        if (!SigningAlgorithms.includes(algorithm as SigningAlgorithm)) {
+            throw this.logger.createErrorAndLog(`Unsupported JWT signing algorithm '${algorithm}'. Supported algorithms: ${SigningAlgorithms.join(', ')}`);
+        }
+        this._algorithm = algorithm as SigningAlgorithm;
+        const privateKey = this.configuration.getValue('oct-jwt-private-key');
+        if (this._algorithm === 'HS256') {
+            this.secret = Buffer.from(privateKey ?? this.getInsecureKey());
+        } else if (privateKey) {
+            this.ready = this.importPrivateKey(privateKey);
+        } else {
+            const filePath = this.configuration.getValue('oct-jwt-keys-path') ?? 'oct-jwt-keys.json';
+            this.file = new JsonFile(path.resolve(filePath));
+            this.ready = this.loadKeys().then(() => this.rotateIfNecessary());
+            const rotationTimer = setInterval(() => this.rotateIfNecessary().catch(err => {
+                this.logger.error('Failed to rotate the JWT signing keys', err);
+            }), 60 * 60 * 1000);
+            rotationTimer.unref();
+        }
+    }
+
+    protected getInsecureKey(): string {
+        if (!this.configuration.getValue('oct-jwt-allow-insecure-key', 'boolean')) {
+            throw this.logger.createErrorAndLog('OCT_JWT_PRIVATE_KEY env variable is not set. Set OCT_JWT_ALLOW_INSECURE_KEY=true to use a static key for development purposes.');
+        }
+        this.logger.warn('OCT_JWT_PRIVATE_KEY env variable is not set. Using a static key for development purposes.');
+        return getLocalFilename(import.meta.url);
+    }
+
+    /**
+     * Returns the key that should be used to sign new tokens.
+     */
+    async getSigningKey(): Promise<SigningKey> {
+        await this.ready;
+        if (this.secret) {
+            return { alg: this._algorithm, key: this.secret };
+        }
+        const current = this.keys.find(key => !key.retiredAt);
+        if (!current) {
+            throw this.logger.createErrorAndLog('No JWT signing key available');
+        }
+        return { kid: current.kid, alg: current.alg, key: current.key };
+    }
+
+    /**
+     * Returns the key that can be used to verify a token with the given header.
+     */
+    async getVerificationKey(header: jose.JWSHeaderParameters): Promise<jose.CryptoKey | Uint8Array> {
+        await this.ready;
+        if (this.secret) {
+            return this.secret;
+        }
+        let key = this.keys.find(key => key.kid === header.kid);
+        if (!key && this.file && Date.now() - this.lastReload > 10_000) {
+            // Another node of the cluster might have rotated the keys in the meantime
+            await this.loadKeys();
+            key = this.keys.find(key => key.kid === header.kid);
+        }
+        if (!key) {
+            throw this.logger.createErrorAndLog(`Unknown JWT signing key '${header.kid}'`);
+        }
+        return key.verificationKey;
+    }
+
+    /**
+     * Returns the public keys of all keys that are used to sign or verify tokens.
+     * The key set is empty if tokens are signed using a symmetric key.
+     */
+    async getJwks(): Promise<jose.JSONWebKeySet> {
+        await this.ready;
+        return {
+            keys: this.keys.map(key => key.publicKey)
+        };
+    }
+
+    protected async importPrivateKey(pem: string): Promise<void> {
+        const key = await jose.importPKCS8(pem, this._algorithm, { extractable: true });
+        const privateKey = await jose.exportJWK(key);
+        this.keys = [await this.loadKey({
+            kid: await jose.calculateJwkThumbprint(this.toPublicKey(privateKey)),
+            alg: this._algorithm,
+            privateKey,
+            createdAt: Date.now()
+        })];
+    }
+
+    protected async loadKeys(): Promise<void> {
+        this.lastReload = Date.now();
+        const storedKeys = await this.readStoredKeys();
+        this.keys = await Promise.all(storedKeys
+            .filter(key => key.alg === this._algorithm)
+            .map(key => this.loadKey(key)));
+    }
+
+    protected async loadKey(storedKey: StoredSigningKey): Promise<LoadedSigningKey> {
+        const publicKey: jose.JWK = {
+            ...this.toPublicKey(storedKey.privateKey),
+            kid: storedKey.kid,
+            alg: storedKey.alg,
+            use: 'sig'
+        };
+        return {
+            ...storedKey,
+            key: await jose.importJWK(storedKey.privateKey, storedKey.alg),
+            verificationKey: await jose.importJWK(publicKey, storedKey.alg),
+            publicKey
+        };
+    }
+
+    protected toPublicKey(jwk: jose.JWK): jose.JWK {
+        const { kty, crv, x, y, n, e } = jwk;
+        const publicKey: jose.JWK = { kty, crv, x, y, n, e };
+        return Object.fromEntries(Object.entries(publicKey).filter(([, value]) => value !== undefined));
+    }
+
+    protected async readStoredKeys(): Promise<StoredSigningKey[]> {
+        const keys = await this.file?.read() ?? [];
+        // Drop retired keys once all tokens signed with them have expired
+        const retention = (this.configuration.getValue('oct-jwt-key-retention-days', 'number') ?? 30) * DAY;
+        return keys.filter(key => !key.retiredAt || key.retiredAt + retention > Date.now());
+    }
+
+    /**
+     * Generates a new signing key if there is none yet or if the current key is older than the configured rotation interval.
+     */
+    protected async rotateIfNecessary(): Promise<void> {
+        const rotationDays = this.configuration.getValue('oct-jwt-key-rotation-days', 'number');
+        const current = this.keys.find(key => !key.retiredAt);
+        if (current && (!rotationDays || current.createdAt + rotationDays * DAY > Date.now())) {
+            return;
+        }
+        await this.rotate();
+    }
+
+    /**
+     * Replaces the current signing key with a newly generated key.
+     * The previous keys remain available to verify tokens until their retention period ends.
+     */
+    async rotate(): Promise<void> {
+        if (!this.file) {
+            throw this.logger.createErrorAndLog('JWT signing keys can only be rotated if they are generated by the server');
+        }
+        const { privateKey } = await jose.generateKeyPair(this._algorithm, { extractable: true });
+        const privateJwk = await jose.exportJWK(privateKey);
+        const now = Date.now();
+        const newKey: StoredSigningKey = {
+            kid: await jose.calculateJwkThumbprint(this.toPublicKey(privateJwk)),
+            alg: this._algorithm,
+            privateKey: privateJwk,
+            createdAt: now
+        };
+        // Merge with the keys of the file, as other nodes of the cluster might have written to it
+        const storedKeys = await this.readStoredKeys();
+        for (const key of storedKeys) {
+            key.retiredAt ??= now;
+        }
+        storedKeys.unshift(newKey);
+        await this.file.write(storedKeys);
+        this.keys = await Promise.all(storedKeys
+            .filter(key => key.alg === this._algorithm)
+            .map(key => this.loadKey(key)));
+        this.logger.info(`Rotated JWT signing key, new key id '${newKey.kid}'`);
+    }
+
+}
@@ -0,0 +1,92 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as path from 'node:path';
+import { inject, injectable, postConstruct } from 'inversify';
+import { ClusterService } from './cluster/cluster-service.js';
+import { Configuration } from './utils/configuration.js';
+import { JsonFile } from './utils/json-file.js';
+import { Logger } from './utils/logging.js';
+
+/**
+ * Maps the ids of revoked tokens to the time (in seconds since epoch) at which the token would have expired anyway.
+ */
+export type RevokedTokens = Record<string, number>;
+
+/**
+ * Keeps track of tokens that have been revoked before their expiration, e.g. on logout.
+ * Revocations are shared with all nodes of the server cluster.
+ * They are only persisted if the `oct-revocation-list-path` configuration key is set.
+ */
+@injectable()
+export class TokenRevocationList {
+
+    @inject(ClusterService) protected cluster: ClusterService;
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    @inject(Logger) protected logger: Logger;
+
+    protected revoked = new Map<string, number>();
+    protected file?: JsonFile<RevokedTokens>;
+    protected loaded: Promise<void> = Promise.resolve();
+
+    @postConstruct()
+    protected initialize(): void {
+        const filePath = this.configuration.getValue('oct-revocation-list-path');
+        if (filePath) {
+            this.file = new JsonFile(path.resolve(filePath));
+            this.loaded = this.file.read().then(revoked => {
+                for (const [id, expiresAt] of Object.entries(revoked ?? {})) {
+                    this.revoked.set(id, expiresAt);
+                }
+            }).catch(err => {
+                this.logger.error('Failed to load the token revocation list', err);
+            });
+        }
+        this.cluster.onEvent(({ data }) => {
+            if (data.kind === 'token-revoked') {
+                this.revoked.set(data.id, data.expiresAt);
+            }
+        });
+    }
+
+    /**
+     * Revokes the token (or token family) with the given id.
+     * @param expiresAt The time (in seconds since epoch) after which the token is invalid anyway.
+     */
+    async revoke(id: string, expiresAt: number): Promise<void> {
+        await this.loaded;
+        this.revoked.set(id, expiresAt);
+        this.cluster.publish({ kind: 'token-revoked', id, expiresAt });
+        await this.save();
+    }
+
+    async isRevoked(id: string): Promise<boolean> {
+        await this.loaded;
+        return this.revoked.has(id);
+    }
+
+    protected async save(): Promise<void> {
+        this.prune();
+        if (this.file) {
+            await this.file.write(Object.fromEntries(this.revoked));
+        }
+    }
+
+    /**
+     * Removes all revocations of tokens that have expired in the meantime.
+     */
+    protected prune(): void {
+        const now = Date.now() / 1000;
+        for (const [id, expiresAt] of this.revoked) {
+            if (expiresAt < now) {
+                this.revoked.delete(id);
+            }
+        }
+    }
+
+}
@@ -11,7 +11,21 @@ export class Room {
 
     clock = 0;
 
+    /**
+     * Ids of users that have been banned from joining the room.
+     */
+    bannedUsers = new Set<string>();
+
+    createdAt = Date.now();
+
+    /**
+     * The peer that has created the room and shares its workspace.
+     * It keeps providing the workspace after the host role has been handed over to another peer.
+     */
+    readonly workspaceOwner: Peer;
+
     constructor(public id: string, public host: Peer, public guests: Peer[]) {
+        this.workspaceOwner = host;
     }
 
     get peers(): Peer[] {
@@ -41,6 +55,11 @@ export function isUser(obj: unknown): obj is User {
 export const PeerInfo = Symbol('PeerInfo');
 
 export interface PeerInfo {
+    /**
+     * The id of a peer that is resuming a previous session, e.g. after a server restart.
+     * A new id is generated if not set.
+     */
+    id?: string;
     jwt: string;
     user: User;
     host: boolean;
@@ -58,6 +77,11 @@ export interface Peer extends protocol.Disposable {
     user: User;
     channel: Channel;
     room: Room;
+    /**
+     * The id of the cluster node that the peer is connected to.
+     * Only set for peers that are connected to another node of the cluster.
+     */
+    node?: string;
     onDispose: protocol.Event<void>;
     toProtocol(): protocol.Peer;
 }
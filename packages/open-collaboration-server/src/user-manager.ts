@@ -4,24 +4,60 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
-import { injectable } from 'inversify';
+import { inject, injectable } from 'inversify';
 import { nanoid } from 'nanoid';
 import { User } from './types.js';
 import { UserInfo } from './auth-endpoints/auth-endpoint.js';
+import { UserStore } from './user-store.js';
 
 @injectable()
 export class UserManager {
 
+    @inject(UserStore) protected userStore: UserStore;
+
+    /**
+     * Registers a user that has logged in through an authentication provider.
+     * Users that are identified by their provider receive the same id on every login.
+     * All other users (e.g. unverified users) receive a new id on each login.
+     */
     async registerUser(user: UserInfo): Promise<User> {
-        const registeredUser: User = {
-            ...user,
-            id: nanoid(24)
+        const { providerId, subject, ...info } = user;
+        if (!providerId || !subject) {
+            return {
+                ...info,
+                id: nanoid(24)
+            };
+        }
+        const now = Date.now();
+        const existing = await this.userStore.findUser(providerId, subject);
+        const storedUser = {
+            createdAt: now,
+            id: nanoid(24),
+            ...existing,
+            // Always use the latest profile information of the provider
+            name: info.name,
+            email: info.email,
+            authProvider: info.authProvider,
+            providerId,
+            subject,
+            lastLogin: now
         };
-        return registeredUser;
+        await this.userStore.saveUser(storedUser);
+        return this.toUser(storedUser);
+    }
+
+    async getUser(id: string): Promise<User | undefined> {
+        const storedUser = await this.userStore.getUser(id);
+        return storedUser && this.toUser(storedUser);
     }
 
-    async getUser(_id: string): Promise<User | undefined> {
-        return undefined;
+    protected toUser(user: User): User {
+        return {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            authProvider: user.authProvider
+        };
     }
 
 }
@@ -0,0 +1,108 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as path from 'node:path';
+import { inject, injectable } from 'inversify';
+import { User } from './types.js';
+import { Configuration } from './utils/configuration.js';
+import { JsonFile } from './utils/json-file.js';
+
+/**
+ * A user that has been registered through an authentication provider.
+ * The `subject` is the id of the user at the provider identified by `providerId`.
+ */
+export interface StoredUser extends User {
+    providerId: string;
+    subject: string;
+    createdAt: number;
+    lastLogin: number;
+}
+
+export const UserStore = Symbol('UserStore');
+
+/**
+ * Maps the identities of authentication providers to stable user ids.
+ */
+export interface UserStore {
+    getUser(id: string): Promise<StoredUser | undefined>;
+    findUser(providerId: string, subject: string): Promise<StoredUser | undefined>;
+    saveUser(user: StoredUser): Promise<void>;
+}
+
+@injectable()
+export class InMemoryUserStore implements UserStore {
+
+    protected users = new Map<string, StoredUser>();
+
+    async getUser(id: string): Promise<StoredUser | undefined> {
+        return this.users.get(id);
+    }
+
+    async findUser(providerId: string, subject: string): Promise<StoredUser | undefined> {
+        for (const user of this.users.values()) {
+            if (user.providerId === providerId && user.subject === subject) {
+                return user;
+            }
+        }
+        return undefined;
+    }
+
+    async saveUser(user: StoredUser): Promise<void> {
+        this.users.set(user.id, user);
+    }
+
+}
+
+/**
+ * User store that persists all users into a single JSON file.
+ * The file location can be configured using the `oct-user-store-path` configuration key.
+ */
+@injectable()
+export class FileUserStore extends InMemoryUserStore {
+
+    @inject(Configuration) protected configuration: Configuration;
+
+    private file?: JsonFile<StoredUser[]>;
+    private loaded?: Promise<void>;
+
+    protected getFile(): JsonFile<StoredUser[]> {
+        if (!this.file) {
+            const filePath = this.configuration.getValue('oct-user-store-path') ?? 'oct-users.json';
+            this.file = new JsonFile(path.resolve(filePath));
+        }
+        return this.file;
+    }
+
+    protected load(): Promise<void> {
+        this.loaded ??= this.getFile().read().then(users => {
+            for (const user of users ?? []) {
+                this.users.set(user.id, user);
+            }
+        });
+        return this.loaded;
+    }
+
+    protected save(): Promise<void> {
+        return this.getFile().write(Array.from(this.users.values()));
+    }
+
+    override async getUser(id: string): Promise<StoredUser | undefined> {
+        await this.load();
+        return super.getUser(id);
+    }
+
+    override async findUser(providerId: string, subject: string): Promise<StoredUser | undefined> {
+        await this.load();
+        return super.findUser(providerId, subject);
+    }
+
+    override async saveUser(user: StoredUser): Promise<void> {
+        await this.load();
+        await super.saveUser(user);
+        await this.save();
+    }
+
+}
@@ -0,0 +1,52 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Small helper for persisting JSON data to a single file.
+ * Writes are serialized and performed atomically by writing to a temporary file first.
+ */
+export class JsonFile<T> {
+
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(readonly filePath: string) {
+    }
+
+    async read(): Promise<T | undefined> {
+        try {
+            const content = await fs.promises.readFile(this.filePath, 'utf8');
+            return JSON.parse(content) as T;
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    write(data: T): Promise<void> {
+        const content = JSON.stringify(data, undefined, 2);
+        this.pendingWrite = this.pendingWrite
+            .catch(() => { /* ignore errors of previous writes */ })
+            .then(() => this.doWrite(content));
+        return this.pendingWrite;
+    }
+
+    private async doWrite(content: string): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempFile = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempFile, content, 'utf8');
+        await fs.promises.rename(tempFile, this.filePath);
+    }
+
+}
+
+function isNotFoundError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
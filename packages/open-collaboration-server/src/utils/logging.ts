@@ -4,8 +4,11 @@
 // terms of the MIT License, which is available in the project root.
 // ******************************************************************************
 
+import * as path from 'node:path';
+import * as util from 'node:util';
 import { inject, injectable, postConstruct } from 'inversify';
 import { Configuration } from './configuration.js';
+import { RotatingFile } from './rotating-file.js';
 
 export enum LogLevel {
     none = 0,
@@ -15,6 +18,20 @@ export enum LogLevel {
     debug = 4
 }
 
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Structured fields that are attached to every record of a logger.
+ * They allow log pipelines to correlate the records of a session.
+ */
+export interface LogContext {
+    roomId?: string;
+    peerId?: string;
+    userId?: string;
+    client?: string;
+    requestId?: string | number;
+}
+
 export interface Logger {
 
     logLevel: LogLevel;
@@ -25,10 +42,20 @@ export interface Logger {
     info(message: string, ...params: unknown[]): void;
     debug(message: string, ...params: unknown[]): void;
 
+    /**
+     * Returns a logger that attaches the given fields to all of its records, in addition to the fields of this logger.
+     */
+    withContext(context: LogContext): Logger;
+
 }
 
 export const Logger = Symbol('Logger');
 
+/**
+ * Logger that writes to the console and optionally to a rotating file.
+ * Records are either printed as plain text or, if `log-format` is set to `json`, as one JSON object per line.
+ * The level of individual modules can be overridden using `log-module-levels`, e.g. `RoomManager=debug,MessageRelay=warn`.
+ */
 @injectable()
 export class ConsoleLogger implements Logger {
 
@@ -36,12 +63,61 @@ export class ConsoleLogger implements Logger {
 
     public logLevel: LogLevel = LogLevel.info;
 
+    protected format: LogFormat = 'text';
+    protected moduleLevels = new Map<string, LogLevel>();
+    protected file?: RotatingFile;
+    protected module?: string;
+    protected context: LogContext = {};
+
     @postConstruct()
     protected initialize() {
         const logLevel = this.checkLogLevel(this.configuration.getValue('log-level'));
         if (logLevel) {
             this.logLevel = logLevel;
         }
+        if (this.configuration.getValue('log-format') === 'json') {
+            this.format = 'json';
+        }
+        const moduleLevels = this.configuration.getValue('log-module-levels')?.split(',') ?? [];
+        for (const entry of moduleLevels) {
+            const [module, level] = entry.split('=').map(part => part.trim());
+            const moduleLevel = this.checkLogLevel(level);
+            if (module && moduleLevel !== undefined) {
+                this.moduleLevels.set(module, moduleLevel);
+            }
+        }
+        const logFile = this.configuration.getValue('log-file');
+        if (logFile) {
+            this.file = new RotatingFile(path.resolve(logFile), {
+                maxSize: (this.configuration.getValue('log-file-max-size', 'number') ?? 10) * 1024 * 1024,
+                maxFiles: this.configuration.getValue('log-file-max-files', 'number') ?? 5
+            });
+        }
+    }
+
+    /**
+     * Returns a logger for the given module, which is usually the name of the class that uses the logger.
+     * The logger shares the configuration of this logger, but may use a different log level.
+     */
+    forModule(module: string): Logger {
+        const child = this.createChild({ ...this.context });
+        child.module = module;
+        const moduleLevel = this.moduleLevels.get(module);
+        if (moduleLevel !== undefined) {
+            child.logLevel = moduleLevel;
+        }
+        return child;
+    }
+
+    withContext(context: LogContext): Logger {
+        return this.createChild({ ...this.context, ...context });
+    }
+
+    protected createChild(context: LogContext): ConsoleLogger {
+        // Child loggers inherit all properties, so that they follow changes of the log level of their parent
+        const child = Object.create(this) as ConsoleLogger;
+        child.context = context;
+        return child;
     }
 
     protected checkLogLevel(logLevel?: string | unknown): LogLevel | undefined {
@@ -71,33 +147,81 @@ export class ConsoleLogger implements Logger {
     }
 
     error(message: string, ...params: unknown[]) {
-        if (this.logLevel >= LogLevel.error) {
-            console.error(message, ...params);
-        }
+        this.log(LogLevel.error, message, params);
     }
 
     createErrorAndLog(message: string, ...params: unknown[]) {
-        if (this.logLevel >= LogLevel.error) {
-            this.error(message, ...params);
-        }
+        this.error(message, ...params);
         return new Error(message);
     }
 
     warn(message: string, ...params: unknown[]) {
-        if (this.logLevel >= LogLevel.warn) {
-            console.warn(message, ...params);
-        }
+        this.log(LogLevel.warn, message, params);
     }
 
     info(message: string, ...params: unknown[]) {
-        if (this.logLevel >= LogLevel.info) {
-            console.log(message, ...params);
-        }
+        this.log(LogLevel.info, message, params);
     }
 
     debug(message: string, ...params: unknown[]) {
-        if (this.logLevel >= LogLevel.debug) {
-            console.debug(message, ...params);
+        this.log(LogLevel.debug, message, params);
+    }
+
+    protected log(level: LogLevel, message: string, params: unknown[]): void {
+        if (this.logLevel < level) {
+            return;
+        }
+        const time = new Date();
+        const json = this.format === 'json' ? this.toJson(time, level, message, params) : undefined;
+        const print = this.getConsoleMethod(level);
+        if (json) {
+            print(json);
+        } else {
+            print(message, ...params);
+        }
+        if (this.file) {
+            const line = json ?? `${time.toISOString()} ${LogLevel[level].toUpperCase()}${this.module ? ` [${this.module}]` : ''} ${util.format(message, ...params)}`;
+            this.file.append(line + '\n').catch(err => {
+                console.error('Failed to write to the log file', err);
+            });
+        }
+    }
+
+    protected getConsoleMethod(level: LogLevel): (...data: unknown[]) => void {
+        switch (level) {
+            case LogLevel.error:
+                return console.error;
+            case LogLevel.warn:
+                return console.warn;
+            case LogLevel.debug:
+                return console.debug;
+            default:
+                return console.log;
+        }
+    }
+
+    protected toJson(time: Date, level: LogLevel, message: string, params: unknown[]): string {
+        const record: Record<string, unknown> = {
+            time: time.toISOString(),
+            level: LogLevel[level],
+            module: this.module,
+            message,
+            ...this.context
+        };
+        const errors = params.filter(param => param instanceof Error);
+        if (errors.length > 0) {
+            record.errors = errors.map(error => ({ name: error.name, message: error.message, stack: error.stack }));
+        }
+        const otherParams = params.filter(param => !(param instanceof Error));
+        if (otherParams.length > 0) {
+            record.params = otherParams;
+        }
+        try {
+            return JSON.stringify(record);
+        } catch {
+            // Params might not be serializable, e.g. because of circular references
+            record.params = otherParams.map(param => util.inspect(param));
+            return JSON.stringify(record);
         }
     }
 
@@ -0,0 +1,65 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+export interface RateLimiterOptions {
+    /**
+     * Number of attempts that are allowed per key within the time window.
+     */
+    limit: number;
+    /**
+     * Length of the time window in milliseconds.
+     */
+    window: number;
+}
+
+interface Attempts {
+    count: number;
+    resetAt: number;
+}
+
+/**
+ * Counts attempts per key (e.g. an IP or email address) within a fixed time window.
+ * Attempts are only tracked in memory of the current server node.
+ */
+export class RateLimiter {
+
+    protected attempts = new Map<string, Attempts>();
+
+    constructor(protected readonly options: RateLimiterOptions) {
+    }
+
+    /**
+     * Records an attempt for the given key.
+     * @returns `false` if the key has exceeded the number of allowed attempts.
+     */
+    consume(key: string): boolean {
+        const now = Date.now();
+        this.prune(now);
+        let attempts = this.attempts.get(key);
+        if (!attempts) {
+            attempts = { count: 0, resetAt: now + this.options.window };
+            this.attempts.set(key, attempts);
+        }
+        attempts.count++;
+        return attempts.count <= this.options.limit;
+    }
+
+    /**
+     * Whether the given key has exceeded the number of allowed attempts without recording a new attempt.
+     */
+    isLimited(key: string): boolean {
+        const attempts = this.attempts.get(key);
+        return attempts !== undefined && attempts.resetAt > Date.now() && attempts.count >= this.options.limit;
+    }
+
+    protected prune(now: number): void {
+        for (const [key, attempts] of this.attempts) {
+            if (attempts.resetAt <= now) {
+                this.attempts.delete(key);
+            }
+        }
+    }
+}
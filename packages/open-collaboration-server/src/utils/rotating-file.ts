@@ -0,0 +1,177 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export interface RotatingFileOptions {
+    /**
+     * Size in bytes after which the file is rotated.
+     */
+    maxSize: number;
+    /**
+     * Number of rotated files to keep.
+     */
+    maxFiles: number;
+    /**
+     * Number of days after which rotated files are removed.
+     * If set, the current file is also rotated once it is older than a day (or the retention period if shorter),
+     * so that its content is removed at most that long after it has expired.
+     */
+    retentionDays?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Timestamp of rotated files, e.g. `2025-01-01T12-30-00-000Z`.
+ */
+const TIMESTAMP_PATTERN = '\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z';
+
+/**
+ * Small helper for appending to a file that is rotated once it exceeds a maximum size.
+ * Rotated files are named `{name}.{timestamp}{ext}` and placed next to the current file.
+ * Writes are serialized.
+ */
+export class RotatingFile {
+
+    private pendingWrite: Promise<void> = Promise.resolve();
+    private size?: number;
+    /**
+     * Time at which the first content has been written to the current file.
+     */
+    private createdAt?: number;
+    private lastRotation = 0;
+
+    constructor(readonly filePath: string, readonly options: RotatingFileOptions) {
+    }
+
+    append(content: string): Promise<void> {
+        this.pendingWrite = this.pendingWrite
+            .catch(() => { /* ignore errors of previous writes */ })
+            .then(() => this.doAppend(content));
+        return this.pendingWrite;
+    }
+
+    /**
+     * Enforces the retention period: rotates the current file if it has become too old and removes expired files.
+     * Should be called at startup and periodically, as files of low-volume logs are rarely rotated otherwise.
+     */
+    prune(): Promise<void> {
+        this.pendingWrite = this.pendingWrite
+            .catch(() => { /* ignore errors of previous writes */ })
+            .then(() => this.doPrune());
+        return this.pendingWrite;
+    }
+
+    /**
+     * Returns the paths of all rotated files and the current file, oldest first.
+     * Waits for pending writes to complete.
+     */
+    async getFiles(): Promise<string[]> {
+        await this.pendingWrite.catch(() => { /* errors have been reported by the writer */ });
+        return [...await this.getRotatedFiles(), this.filePath];
+    }
+
+    private async doAppend(content: string): Promise<void> {
+        const bytes = Buffer.byteLength(content);
+        const size = await this.getSize();
+        if (size > 0 && (size + bytes > this.options.maxSize || this.isExpiring())) {
+            await this.rotate();
+        }
+        if (!this.size) {
+            this.createdAt = Date.now();
+        }
+        await fs.promises.appendFile(this.filePath, content, 'utf8');
+        this.size = (this.size ?? 0) + bytes;
+    }
+
+    private async doPrune(): Promise<void> {
+        if (await this.getSize() > 0 && this.isExpiring()) {
+            await this.rotate();
+        } else {
+            await this.removeExpiredFiles();
+        }
+    }
+
+    private async getSize(): Promise<number> {
+        if (this.size === undefined) {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            try {
+                const stat = await fs.promises.stat(this.filePath);
+                this.size = stat.size;
+                // Not all file systems record the creation time
+                this.createdAt = stat.birthtimeMs || stat.mtimeMs;
+            } catch {
+                this.size = 0;
+            }
+        }
+        return this.size;
+    }
+
+    /**
+     * Whether the current file needs to be rotated to comply with the retention period.
+     */
+    private isExpiring(): boolean {
+        const { retentionDays } = this.options;
+        if (retentionDays === undefined || this.createdAt === undefined) {
+            return false;
+        }
+        const maxAge = Math.min(retentionDays * DAY, DAY);
+        return Date.now() - this.createdAt >= maxAge;
+    }
+
+    private async rotate(): Promise<void> {
+        const { dir, name, ext } = path.parse(this.filePath);
+        // The timestamp keeps rotated files in chronological order when sorted by name
+        // Files rotated within the same millisecond must not overwrite each other
+        this.lastRotation = Math.max(Date.now(), this.lastRotation + 1);
+        const timestamp = new Date(this.lastRotation).toISOString().replace(/[:.]/g, '-');
+        await fs.promises.rename(this.filePath, path.join(dir, `${name}.${timestamp}${ext}`));
+        this.size = 0;
+        this.createdAt = undefined;
+        await this.removeExpiredFiles();
+    }
+
+    private async removeExpiredFiles(): Promise<void> {
+        const { maxFiles, retentionDays } = this.options;
+        const rotatedFiles = await this.getRotatedFiles();
+        const expired = new Set(rotatedFiles.slice(0, Math.max(rotatedFiles.length - maxFiles, 0)));
+        if (retentionDays !== undefined) {
+            const minTime = Date.now() - retentionDays * DAY;
+            for (const file of rotatedFiles) {
+                const stat = await fs.promises.stat(file);
+                if (stat.mtimeMs < minTime) {
+                    expired.add(file);
+                }
+            }
+        }
+        for (const file of expired) {
+            await fs.promises.rm(file, { force: true });
+        }
+    }
+
+    private async getRotatedFiles(): Promise<string[]> {
+        const { dir, name, ext } = path.parse(this.filePath);
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(dir);
+        } catch {
+            return [];
+        }
+        // Only match the files created by `rotate`, other files in the directory may share the same prefix
+        const pattern = new RegExp(`^${escapeRegExp(name)}\\.${TIMESTAMP_PATTERN}${escapeRegExp(ext)}$`);
+        return files
+            .filter(file => pattern.test(file))
+            .sort()
+            .map(file => path.join(dir, file));
+    }
+
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
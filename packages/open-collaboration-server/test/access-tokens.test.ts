@@ -0,0 +1,96 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { AccessTokenManager } from '../src/access-tokens.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+import { User } from '../src/types.js';
+
+const alice: User = { id: 'alice-id', name: 'Alice', email: 'alice@example.com', authProvider: 'GitHub' };
+
+describe('Personal access tokens', () => {
+    let container: Container;
+
+    beforeEach(() => {
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        container = new Container();
+        container.load(serverModule);
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_ACCESS_TOKEN_MAX_EXPIRATION_DAYS;
+        vi.useRealTimers();
+    });
+
+    test('should resolve the user of a token within its scopes', async () => {
+        const manager = container.get(AccessTokenManager);
+        const credentials = container.get(CredentialsManager);
+        const { token, info } = await manager.createToken(alice, { name: 'CI bot', scopes: ['join-room'] });
+        expect(token.startsWith(`oct_pat_${info.id}_`)).toBe(true);
+        expect(await credentials.getUser(token)).toEqual(alice);
+        expect(await credentials.getUser(token, 'join-room')).toEqual(alice);
+        await expect(credentials.getUser(token, 'create-room')).rejects.toThrow();
+    });
+
+    test('should reject tampered, revoked and expired tokens', async () => {
+        const manager = container.get(AccessTokenManager);
+        const { token, info } = await manager.createToken(alice, { name: 'CI bot', scopes: ['create-room'], expiresInDays: 1 });
+        expect(await manager.verifyToken(token.slice(0, -1) + (token.endsWith('a') ? 'b' : 'a'))).toBeUndefined();
+
+        expect(await manager.revokeToken('bob-id', info.id)).toBe(false);
+        expect(await manager.revokeToken(alice.id, info.id)).toBe(true);
+        expect(await manager.verifyToken(token)).toBeUndefined();
+
+        const other = await manager.createToken(alice, { name: 'Nightly bot', scopes: ['create-room'], expiresInDays: 7 });
+        expect(await manager.verifyToken(other.token)).toBeDefined();
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000);
+        expect(await manager.verifyToken(other.token)).toBeUndefined();
+        expect((await manager.listTokens(alice.id)).map(token => token.name)).toEqual(['Nightly bot']);
+    });
+
+    test('should enforce the maximum lifetime', async () => {
+        process.env.OCT_ACCESS_TOKEN_MAX_EXPIRATION_DAYS = '30';
+        const manager = container.get(AccessTokenManager);
+        await expect(manager.createToken(alice, { name: 'CI bot', scopes: ['join-room'] })).rejects.toThrow();
+        await expect(manager.createToken(alice, { name: 'CI bot', scopes: ['join-room'], expiresInDays: 30 })).resolves.toBeDefined();
+    });
+});
+
+describe('File access token store', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oct-access-tokens-'));
+        process.env.OCT_ACCESS_TOKEN_STORE = 'file';
+        process.env.OCT_ACCESS_TOKEN_STORE_PATH = path.join(tempDir, 'tokens.json');
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_ACCESS_TOKEN_STORE;
+        delete process.env.OCT_ACCESS_TOKEN_STORE_PATH;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should keep tokens across restarts without storing their secrets', async () => {
+        const createManager = () => {
+            const container = new Container();
+            container.load(serverModule);
+            return container.get(AccessTokenManager);
+        };
+        const { token, info } = await createManager().createToken(alice, { name: 'CI bot', scopes: ['join-room'] });
+        const secret = token.substring(`oct_pat_${info.id}_`.length);
+        expect(fs.readFileSync(process.env.OCT_ACCESS_TOKEN_STORE_PATH!, 'utf8')).not.toContain(secret);
+        expect((await createManager().verifyToken(token))?.user).toEqual(alice);
+    });
+});
@@ -0,0 +1,109 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as http from 'node:http';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { AdminApi, AdminPeerInfo, AdminRoomInfo } from '../src/admin-api.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+import { RoomManager } from '../src/room-manager.js';
+import { Peer } from '../src/types.js';
+import { connectPeer, startServer, stopServer } from './test-utils.js';
+
+describe('Admin API', () => {
+    let container: Container;
+    let server: http.Server;
+    let baseUrl: string;
+
+    async function connect(host: boolean, name: string): Promise<Peer> {
+        const [peer] = await connectPeer(container, { host, name, client: host ? 'OCT_CODE_Visual_Studio_Code' : 'OCT_THEIA' });
+        return peer;
+    }
+
+    function request(path: string, headers: Record<string, string>, method = 'GET'): Promise<Response> {
+        return fetch(`${baseUrl}/api/admin${path}`, { method, headers });
+    }
+
+    const adminHeaders = { Authorization: 'Bearer admin-secret' };
+
+    beforeEach(async () => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        process.env.OCT_ADMIN_TOKEN = 'admin-secret';
+        process.env.OCT_ADMIN_USERS = 'root-id';
+        container = new Container();
+        container.load(serverModule);
+        expect(container.get(AdminApi).shouldActivate()).toBe(true);
+        [server, baseUrl] = await startServer(container);
+    });
+
+    afterEach(async () => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_ADMIN_TOKEN;
+        delete process.env.OCT_ADMIN_USERS;
+        await stopServer(server);
+    });
+
+    test('should only allow administrators', async () => {
+        const credentials = container.get(CredentialsManager);
+        const rootToken = await credentials.generateJwt({ id: 'root-id', name: 'Root' });
+        const aliceToken = await credentials.generateJwt({ id: 'alice-id', name: 'Alice' });
+        expect((await request('/rooms', {})).status).toBe(401);
+        expect((await request('/rooms', { Authorization: 'Bearer wrong' })).status).toBe(401);
+        expect((await request('/rooms', { 'x-oct-jwt': aliceToken })).status).toBe(401);
+        expect((await request('/rooms', { 'x-oct-jwt': rootToken })).status).toBe(200);
+        expect((await request('/rooms', adminHeaders)).status).toBe(200);
+    });
+
+    test('should not allow cross-origin requests', async () => {
+        const rootToken = await container.get(CredentialsManager).generateJwt({ id: 'root-id', name: 'Root' });
+        expect((await request('/users', { Cookie: `oct-jwt=${rootToken}`, Origin: 'https://example.com' })).status).toBe(401);
+        const response = await request('/rooms/room', { Origin: 'https://example.com', 'Access-Control-Request-Method': 'DELETE' }, 'OPTIONS');
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+        expect(response.headers.get('Access-Control-Allow-Methods')).toBeNull();
+    });
+
+    test('should list rooms and peers', async () => {
+        const host = await connect(true, 'host');
+        await connect(false, 'guest');
+        const rooms: AdminRoomInfo[] = await (await request('/rooms', adminHeaders)).json();
+        expect(rooms).toHaveLength(1);
+        expect(rooms[0]).toMatchObject({
+            id: 'room',
+            host: { id: host.id, host: true, user: { id: 'host' } },
+            guestCount: 1,
+            clients: ['OCT_CODE_Visual_Studio_Code', 'OCT_THEIA']
+        });
+        const peers: AdminPeerInfo[] = await (await request('/peers', adminHeaders)).json();
+        expect(peers.map(peer => peer.user.id)).toEqual(['host', 'guest']);
+    });
+
+    test('should disconnect peers and close rooms', async () => {
+        const roomManager = container.get(RoomManager);
+        await connect(true, 'host');
+        const guest = await connect(false, 'guest');
+        expect((await request(`/peers/${guest.id}`, adminHeaders, 'DELETE')).status).toBe(200);
+        expect(roomManager.getRoomById('room')?.guests).toHaveLength(0);
+        expect((await request(`/peers/${guest.id}`, adminHeaders, 'DELETE')).status).toBe(404);
+
+        expect((await request('/rooms/room', adminHeaders, 'DELETE')).status).toBe(200);
+        expect(roomManager.getRoomById('room')).toBeUndefined();
+        expect((await request('/rooms/room', adminHeaders)).status).toBe(404);
+    });
+
+    test('should list pending join requests', async () => {
+        const roomManager = container.get(RoomManager);
+        await connect(true, 'host');
+        const pollToken = await roomManager.requestJoin(roomManager.getRoomById('room')!, { id: 'carol', name: 'Carol' });
+        const requests = await (await request('/join-requests', adminHeaders)).json();
+        expect(requests).toMatchObject([{ roomId: 'room', user: { id: 'carol' } }]);
+        roomManager.pollJoin(pollToken)?.dispose();
+        expect(await (await request('/join-requests', adminHeaders)).json()).toEqual([]);
+    });
+});
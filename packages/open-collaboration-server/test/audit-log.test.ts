@@ -0,0 +1,123 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { AuditLog, FileAuditSink } from '../src/audit-log.js';
+import { RoomManager } from '../src/room-manager.js';
+import { Peer } from '../src/types.js';
+import { connectPeer } from './test-utils.js';
+
+describe('Audit log', () => {
+    let tempDir: string;
+    let container: Container;
+
+    async function connect(host: boolean, name: string): Promise<Peer> {
+        const [peer] = await connectPeer(container, { host, name });
+        return peer;
+    }
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oct-audit-log-'));
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        process.env.OCT_AUDIT_LOG_FILE = path.join(tempDir, 'audit.jsonl');
+        container = new Container();
+        container.load(serverModule);
+    });
+
+    afterEach(() => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_AUDIT_LOG_FILE;
+        delete process.env.OCT_AUDIT_LOG_MAX_SIZE;
+        delete process.env.OCT_AUDIT_LOG_MAX_FILES;
+        delete process.env.OCT_AUDIT_LOG_RETENTION_DAYS;
+        vi.useRealTimers();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should record room lifecycle events', async () => {
+        const host = await connect(true, 'host');
+        const guest = await connect(false, 'guest');
+        await container.get(RoomManager).kickPeer(host, guest.id, true);
+        await container.get(RoomManager).closeRoom('room');
+        const events = await container.get(FileAuditSink).query({ room: 'room' });
+        expect(events.map(event => [event.kind, event.outcome])).toEqual([
+            ['room-created', undefined],
+            ['peer-joined', undefined],
+            ['peer-kicked', 'banned'],
+            ['room-closed', undefined]
+        ]);
+        expect(events[2]).toMatchObject({ user: { id: 'guest' }, actor: { id: 'host' } });
+    });
+
+    test('should record permission and role changes', async () => {
+        const host = await connect(true, 'host');
+        const guest = await connect(false, 'guest');
+        const roomManager = container.get(RoomManager);
+        roomManager.recordPermissionChange(host);
+        roomManager.recordPermissionChange(host, guest.id);
+        const events = await container.get(FileAuditSink).query({ user: 'host' });
+        expect(events.filter(event => event.kind === 'permissions-changed')).toMatchObject([
+            { outcome: 'permissions', actor: { id: 'host' } },
+            { outcome: 'role', actor: { id: 'host' }, user: { id: 'guest' }, details: { peerId: guest.id } }
+        ]);
+    });
+
+    test('should skip invalid lines', async () => {
+        const sink = container.get(FileAuditSink);
+        await sink.write({ timestamp: new Date().toISOString(), kind: 'login', user: { id: 'alice', name: 'Alice' } });
+        fs.appendFileSync(process.env.OCT_AUDIT_LOG_FILE!, '{"timestamp":');
+        expect((await sink.query({})).map(event => event.user?.id)).toEqual(['alice']);
+    });
+
+    test('should query events by user and limit', async () => {
+        const auditLog = container.get(AuditLog);
+        auditLog.record({ kind: 'login', user: { id: 'alice', name: 'Alice' }, outcome: 'success' });
+        auditLog.record({ kind: 'login', user: { id: 'bob', name: 'Bob' }, outcome: 'denied' });
+        auditLog.record({ kind: 'join-request', roomId: 'other', user: { id: 'carol', name: 'Carol' }, actor: { id: 'alice', name: 'Alice' }, outcome: 'accepted' });
+        const sink = container.get(FileAuditSink);
+        expect((await sink.query({ user: 'alice' })).map(event => event.kind)).toEqual(['login', 'join-request']);
+        expect((await sink.query({ limit: 1 })).map(event => event.user?.id)).toEqual(['carol']);
+        expect(await sink.query({ since: new Date(Date.now() + 60_000) })).toEqual([]);
+    });
+
+    test('should rotate and remove old files', async () => {
+        // Rotate after every event
+        process.env.OCT_AUDIT_LOG_MAX_SIZE = '0.00001';
+        process.env.OCT_AUDIT_LOG_MAX_FILES = '2';
+        const sink = container.get(FileAuditSink);
+        for (let i = 0; i < 5; i++) {
+            await sink.write({ timestamp: new Date().toISOString(), kind: 'login', user: { id: `user-${i}`, name: 'User' } });
+        }
+        expect(fs.readdirSync(tempDir)).toHaveLength(3);
+        const events = await sink.query({});
+        expect(events.map(event => event.user?.id)).toEqual(['user-2', 'user-3', 'user-4']);
+    });
+
+    test('should remove expired events at startup even if the file has not been rotated', async () => {
+        process.env.OCT_AUDIT_LOG_RETENTION_DAYS = '1';
+        await container.get(FileAuditSink).write({ timestamp: new Date().toISOString(), kind: 'login', user: { id: 'alice', name: 'Alice' } });
+        // Files that only share the prefix of the audit log are not touched
+        const otherFile = path.join(tempDir, 'audit.backup.jsonl');
+        fs.writeFileSync(otherFile, '');
+
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + 2 * 24 * 60 * 60 * 1000);
+        // Simulate a server restart
+        container = new Container();
+        container.load(serverModule);
+
+        expect(await container.get(FileAuditSink).query({})).toEqual([]);
+        expect(fs.readdirSync(tempDir)).toEqual(['audit.backup.jsonl']);
+    });
+});
@@ -0,0 +1,70 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as protocol from 'open-collaboration-protocol';
+import { describe, expect, test } from 'vitest';
+import { Channel } from '../src/channel.js';
+import { TestTransport } from './test-utils.js';
+
+function getMethods(transport: TestTransport): unknown[] {
+    return transport.received.map(message => protocol.NotificationMessage.is(message) ? message.content.method : message.kind);
+}
+
+const roomLeave = () => protocol.NotificationMessage.create(protocol.Messages.Room.Leave, '', 'peer');
+const dataUpdate = () => protocol.NotificationMessage.create(protocol.Messages.Sync.DataNotify, '', 'peer', [new Uint8Array(16)]);
+
+describe('Channel', () => {
+
+    test('should replace missed Yjs updates with a resync', () => {
+        const transport = new TestTransport();
+        const channel = new Channel(transport);
+        transport.disconnect();
+        channel.sendMessage(dataUpdate());
+        channel.sendMessage(roomLeave());
+        channel.sendMessage(dataUpdate());
+        expect(channel.bufferedMessages).toBe(1);
+
+        const newTransport = new TestTransport();
+        channel.transport = newTransport;
+        expect(getMethods(newTransport)).toEqual([protocol.Messages.Room.Leave.method, protocol.Messages.Sync.Resync.method]);
+        channel.close();
+    });
+
+    test('should close the channel once the buffer limit has been exceeded', () => {
+        const transport = new TestTransport();
+        const channel = new Channel(transport, { maxBufferedMessages: 2 });
+        let closeReason: string | undefined;
+        channel.onOverflow(reason => closeReason = reason);
+        transport.disconnect();
+        channel.sendMessage(roomLeave());
+        channel.sendMessage(roomLeave());
+        expect(closeReason).toBeUndefined();
+        channel.sendMessage(roomLeave());
+        expect(closeReason).toBeDefined();
+        expect(channel.bufferedMessages).toBe(0);
+    });
+
+    test('should drop Yjs updates for slow peers and disconnect them on other messages', () => {
+        const transport = new TestTransport();
+        const channel = new Channel(transport, { maxBufferedBytes: 100 });
+        let closed = false;
+        channel.onClose(() => closed = true);
+        transport.bufferedAmount = 1000;
+        channel.sendMessage(dataUpdate());
+        expect(transport.received).toHaveLength(0);
+
+        // Request a resync once the transport has caught up
+        transport.bufferedAmount = 0;
+        channel.sendMessage(dataUpdate());
+        expect(getMethods(transport)).toEqual([protocol.Messages.Sync.Resync.method, protocol.Messages.Sync.DataNotify.method]);
+
+        transport.bufferedAmount = 1000;
+        channel.sendMessage(roomLeave());
+        expect(protocol.ErrorMessage.is(transport.received[2])).toBe(true);
+        expect(closed).toBe(true);
+        expect(transport.closed).toBe(true);
+    });
+});
@@ -0,0 +1,139 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
+import * as protocol from 'open-collaboration-protocol';
+import serverModule from '../../src/inversify-module.js';
+import { RoomManager } from '../../src/room-manager.js';
+import { Peer } from '../../src/types.js';
+import { ClusterService } from '../../src/cluster/cluster-service.js';
+import { TestTransport, connectPeer } from '../test-utils.js';
+
+function encryptedMetadata(...targets: string[]): protocol.MessageMetadata {
+    return {
+        encryption: {
+            keys: targets.map(target => ({ target, key: 'key', iv: 'iv' }))
+        },
+        compression: {
+            algorithm: 'none'
+        }
+    };
+}
+
+describe('Cluster mode', () => {
+    let nodes: Container[];
+
+    function createNode(): Container {
+        const container = new Container();
+        container.load(serverModule);
+        return container;
+    }
+
+    function connect(node: Container, roomId: string, host: boolean, name: string): Promise<[Peer, TestTransport]> {
+        return connectPeer(node, { roomId, host, name, jwt: `${roomId}-${name}` });
+    }
+
+    beforeEach(() => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        process.env.OCT_CLUSTER_ENABLED = 'true';
+        process.env.OCT_CLUSTER_TOPIC_PREFIX = `test-${Math.random()}`;
+        nodes = [createNode(), createNode()];
+    });
+
+    afterEach(() => {
+        nodes.forEach(node => node.get(ClusterService).dispose());
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_CLUSTER_ENABLED;
+        delete process.env.OCT_CLUSTER_TOPIC_PREFIX;
+    });
+
+    test('should warn that the loopback backend does not connect separate processes', () => {
+        process.env.LOG_LEVEL = 'warn';
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const node = createNode();
+        nodes.push(node);
+
+        node.get(ClusterService);
+
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('loopback cluster backend'));
+        warn.mockRestore();
+    });
+
+    test('should relay broadcasts between nodes', async () => {
+        const [host, hostTransport] = await connect(nodes[0], 'room', true, 'host');
+        await vi.waitFor(() => expect(nodes[1].get(RoomManager).getRoomById('room')).toBeDefined());
+        const [guest, guestTransport] = await connect(nodes[1], 'room', false, 'guest');
+
+        await vi.waitFor(() => expect(hostTransport.find(protocol.BroadcastMessage.is)?.content.method).toBe(protocol.Messages.Room.Joined.method));
+        expect(nodes[0].get(RoomManager).getRoomById('room')?.getPeer(guest.id)).toBeDefined();
+
+        const broadcast: protocol.EncryptedBroadcastMessage = {
+            version: protocol.VERSION,
+            kind: 'broadcast',
+            origin: '',
+            metadata: encryptedMetadata(host.id),
+            content: new Uint8Array([1, 2, 3])
+        };
+        guestTransport.send(broadcast);
+        await vi.waitFor(() => expect(hostTransport.find(protocol.BroadcastMessage.isEncrypted)).toBeDefined());
+        expect(hostTransport.find(protocol.BroadcastMessage.isEncrypted)?.origin).toBe(guest.id);
+    });
+
+    test('should correlate requests and responses across nodes', async () => {
+        const [host, hostTransport] = await connect(nodes[0], 'room', true, 'host');
+        await vi.waitFor(() => expect(nodes[1].get(RoomManager).getRoomById('room')).toBeDefined());
+        const [, guestTransport] = await connect(nodes[1], 'room', false, 'guest');
+
+        guestTransport.send({
+            version: protocol.VERSION,
+            kind: 'request',
+            id: 42,
+            origin: '',
+            target: host.id,
+            metadata: encryptedMetadata(host.id),
+            content: new Uint8Array([1])
+        } as protocol.EncryptedRequestMessage);
+
+        await vi.waitFor(() => expect(hostTransport.find(protocol.RequestMessage.isEncrypted)).toBeDefined());
+        const relayedRequest = hostTransport.find(protocol.RequestMessage.isEncrypted)!;
+        expect(relayedRequest.id).not.toBe(42);
+        hostTransport.send({
+            version: protocol.VERSION,
+            kind: 'response',
+            id: relayedRequest.id,
+            metadata: encryptedMetadata(),
+            content: new Uint8Array([2])
+        } as protocol.EncryptedResponseMessage);
+
+        await vi.waitFor(() => expect(guestTransport.find(protocol.ResponseMessage.isEncrypted)).toBeDefined());
+        expect(guestTransport.find(protocol.ResponseMessage.isEncrypted)?.id).toBe(42);
+    });
+
+    test('should provide join poll results on all nodes', async () => {
+        const [, hostTransport] = await connect(nodes[0], 'room', true, 'host');
+        await vi.waitFor(() => expect(nodes[1].get(RoomManager).getRoomById('room')).toBeDefined());
+
+        const roomManager = nodes[1].get(RoomManager);
+        const pollId = await roomManager.requestJoin(roomManager.getRoomById('room')!, { id: 'guest', name: 'guest' });
+
+        await vi.waitFor(() => expect(hostTransport.find(protocol.RequestMessage.is)).toBeDefined());
+        const joinRequest = hostTransport.find(protocol.RequestMessage.is)!;
+        expect(joinRequest.content.method).toBe(protocol.Messages.Peer.Join.method);
+        const joinResponse: protocol.JoinResponse = {
+            workspace: {
+                name: 'workspace',
+                folders: []
+            }
+        };
+        hostTransport.send(protocol.ResponseMessage.create(joinRequest.id, joinResponse));
+
+        await vi.waitFor(() => expect(nodes[0].get(RoomManager).pollJoin(pollId)?.result).toHaveProperty('roomToken'));
+    });
+});
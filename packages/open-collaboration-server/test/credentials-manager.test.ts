@@ -0,0 +1,88 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+
+describe('Credentials manager', () => {
+    let credentials: CredentialsManager;
+
+    async function login(): Promise<{ loginToken: string, refreshToken: string }> {
+        const confirmToken = await credentials.startAuth();
+        const loginToken = await credentials.confirmUser(confirmToken, { name: 'Alice', authProvider: 'Github', providerId: 'github', subject: '42' });
+        const auth = await credentials.getAuth(confirmToken);
+        auth?.dispose();
+        return { loginToken, refreshToken: auth!.refreshToken! };
+    }
+
+    beforeEach(() => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        const container = new Container();
+        container.load(serverModule);
+        credentials = container.get(CredentialsManager);
+    });
+
+    afterEach(() => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_JWT_EXPIRATION;
+    });
+
+    test('should issue expiring login tokens', async () => {
+        process.env.OCT_JWT_EXPIRATION = '30m';
+        const { loginToken } = await login();
+        const user = await credentials.verifyJwt(loginToken, (obj): obj is object => true);
+        expect(user.exp! - user.iat!).toBe(30 * 60);
+        expect(await credentials.getUser(loginToken)).toMatchObject({ name: 'Alice' });
+    });
+
+    test('should rotate refresh tokens', async () => {
+        const { refreshToken } = await login();
+        const refreshed = await credentials.refreshLogin(refreshToken);
+        expect(await credentials.getUser(refreshed.loginToken)).toMatchObject({ name: 'Alice' });
+        expect(refreshed.refreshToken).not.toBe(refreshToken);
+        await expect(credentials.refreshLogin(refreshed.refreshToken)).resolves.toBeDefined();
+    });
+
+    test('should revoke the token family if a refresh token is reused', async () => {
+        const { refreshToken } = await login();
+        const refreshed = await credentials.refreshLogin(refreshToken);
+        await expect(credentials.refreshLogin(refreshToken)).rejects.toThrow();
+        await expect(credentials.refreshLogin(refreshed.refreshToken)).rejects.toThrow();
+        await expect(credentials.getUser(refreshed.loginToken)).rejects.toThrow();
+    });
+
+    test('should reject revoked tokens', async () => {
+        const { loginToken, refreshToken } = await login();
+        await credentials.revokeToken(loginToken);
+        await expect(credentials.getUser(loginToken)).rejects.toThrow();
+        await credentials.revokeToken(refreshToken);
+        await expect(credentials.refreshLogin(refreshToken)).rejects.toThrow();
+    });
+
+    test('should only accept expired tokens if requested', async () => {
+        const isRoom = (obj: unknown): obj is { room: string } => typeof (obj as { room?: unknown }).room === 'string';
+        const expired = await credentials.generateJwt({ room: 'live' }, Math.floor(Date.now() / 1000) - 60);
+        await expect(credentials.verifyJwt(expired, isRoom)).rejects.toThrow();
+        await expect(credentials.verifyJwt(expired, isRoom, async claim => claim.room === 'closed')).rejects.toThrow();
+        await expect(credentials.verifyJwt(expired, isRoom, async claim => claim.room === 'live')).resolves.toMatchObject({ room: 'live' });
+    });
+
+    test('should resolve user codes of the device flow once', async () => {
+        const { token, userCode } = await credentials.startDeviceAuth();
+        expect(userCode).toMatch(/^[B-Z]{4}-[B-Z]{4}$/);
+        expect(await credentials.resolveUserCode(userCode.toLowerCase().replace('-', ' '))).toBe(token);
+        expect(await credentials.resolveUserCode(userCode)).toBeUndefined();
+
+        const other = await credentials.startDeviceAuth();
+        (await credentials.getAuth(other.token))?.dispose();
+        expect(await credentials.resolveUserCode(other.userCode)).toBeUndefined();
+    });
+});
@@ -0,0 +1,71 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as http from 'node:http';
+import { Container } from 'inversify';
+import * as protocol from 'open-collaboration-protocol';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { startServer, stopServer } from './test-utils.js';
+
+describe('Device login', () => {
+    let server: http.Server;
+    let url: string;
+
+    function post(path: string, body?: object): Promise<Response> {
+        return fetch(`${url}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body ?? {})
+        });
+    }
+
+    beforeEach(async () => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        process.env.OCT_ACTIVATE_SIMPLE_LOGIN = 'true';
+        process.env.OCT_DEVICE_VERIFY_MAX_ATTEMPTS = '3';
+        const container = new Container();
+        container.load(serverModule);
+        [server, url] = await startServer(container);
+    });
+
+    afterEach(async () => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_ACTIVATE_SIMPLE_LOGIN;
+        delete process.env.OCT_DEVICE_VERIFY_MAX_ATTEMPTS;
+        await stopServer(server);
+    });
+
+    test('should issue a user code that resolves to the poll token', async () => {
+        const response = await post('/api/login/device');
+        expect(response.status).toBe(200);
+        const login: protocol.LoginInitialResponse = await response.json();
+        expect(login.auth.userCode).toMatch(/^[B-Z]{4}-[B-Z]{4}$/);
+        expect(login.auth.verificationUrl).toBe('/login.html');
+        expect(login.auth.verificationUrlComplete).toBe(`/login.html?code=${login.auth.userCode}`);
+
+        const verify = await post('/api/login/device/verify', { userCode: login.auth.userCode });
+        expect(verify.status).toBe(200);
+        const result = await verify.json();
+        expect(result.token).toBe(login.pollToken);
+        expect(result.providers.map((provider: protocol.AuthProvider) => provider.name)).toEqual(['unverified']);
+
+        // User codes can only be used once
+        expect((await post('/api/login/device/verify', { userCode: login.auth.userCode })).status).toBe(404);
+    });
+
+    test('should limit failed verification attempts', async () => {
+        const login: protocol.LoginInitialResponse = await (await post('/api/login/device')).json();
+        for (let i = 0; i < 3; i++) {
+            expect((await post('/api/login/device/verify', { userCode: 'BBBB-BBBB' })).status).toBe(404);
+        }
+        // Valid codes are rejected as well once the limit has been reached
+        expect((await post('/api/login/device/verify', { userCode: login.auth.userCode })).status).toBe(429);
+    });
+});
@@ -0,0 +1,130 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { LdapClient, LdapClientFactory, LdapEntry, LdapLoginEndpoint } from '../src/auth-endpoints/ldap-endpoint.js';
+
+const SERVICE_DN = 'cn=oct,ou=services,dc=example,dc=com';
+
+/**
+ * In-process stand-in for an LDAP directory that only supports equality filters on a single attribute.
+ */
+class FakeDirectory {
+
+    protected passwords = new Map<string, string>([[SERVICE_DN, 'service-secret']]);
+    protected entries: LdapEntry[] = [];
+    searches: string[] = [];
+
+    addUser(entry: LdapEntry, password: string): void {
+        this.entries.push(entry);
+        this.passwords.set(entry.dn, password);
+    }
+
+    createClient(): LdapClient {
+        let boundDN: string | undefined;
+        return {
+            bind: async (dn, password) => {
+                if (this.passwords.get(dn) !== password) {
+                    return false;
+                }
+                boundDN = dn;
+                return true;
+            },
+            search: async (baseDN, filter) => {
+                if (boundDN !== SERVICE_DN) {
+                    throw new Error('Insufficient access rights');
+                }
+                this.searches.push(filter);
+                const [, attribute, value] = /^\((\w+)=(.*)\)$/.exec(filter)!;
+                return this.entries.filter(entry => entry.dn.endsWith(baseDN) && entry[attribute] === value);
+            },
+            unbind: async () => {
+                boundDN = undefined;
+            }
+        };
+    }
+}
+
+describe('LDAP login endpoint', () => {
+    let container: Container;
+    let directory: FakeDirectory;
+
+    beforeEach(() => {
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        process.env.OCT_LDAP_URL = 'ldap://localhost';
+        process.env.OCT_LDAP_BIND_DN = SERVICE_DN;
+        process.env.OCT_LDAP_BIND_PASSWORD = 'service-secret';
+        process.env.OCT_LDAP_BASE_DN = 'ou=people,dc=example,dc=com';
+        process.env.OCT_LDAP_NAME_ATTRIBUTE = 'displayName';
+        directory = new FakeDirectory();
+        directory.addUser({
+            dn: 'uid=alice,ou=people,dc=example,dc=com',
+            uid: 'alice',
+            displayName: 'Alice Liddell',
+            mail: 'alice@example.com',
+            memberOf: ['cn=developers,ou=groups,dc=example,dc=com', 'cn=staff,ou=groups,dc=example,dc=com']
+        }, 'wonderland');
+        directory.addUser({
+            dn: 'uid=bob,ou=people,dc=example,dc=com',
+            uid: 'bob',
+            displayName: 'Bob',
+            memberOf: 'cn=staff,ou=groups,dc=example,dc=com'
+        }, 'builder');
+        container = new Container();
+        container.load(serverModule);
+        container.rebind(LdapClientFactory).toConstantValue(() => directory.createClient());
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_LDAP_URL;
+        delete process.env.OCT_LDAP_BIND_DN;
+        delete process.env.OCT_LDAP_BIND_PASSWORD;
+        delete process.env.OCT_LDAP_BASE_DN;
+        delete process.env.OCT_LDAP_NAME_ATTRIBUTE;
+        delete process.env.OCT_LDAP_ALLOWED_GROUPS;
+    });
+
+    test('should map the attributes of users with valid credentials', async () => {
+        const endpoint = container.get(LdapLoginEndpoint);
+        expect(endpoint.shouldActivate()).toBe(true);
+        expect(await endpoint.authenticate('alice', 'wonderland')).toEqual({
+            name: 'Alice Liddell',
+            email: 'alice@example.com',
+            authProvider: 'LDAP',
+            providerId: 'ldap',
+            subject: 'uid=alice,ou=people,dc=example,dc=com'
+        });
+    });
+
+    test('should mark the password field as secret', () => {
+        const { fields } = container.get(LdapLoginEndpoint).getProtocolProvider();
+        expect(fields.map(field => field.secret ?? false)).toEqual([false, true]);
+    });
+
+    test('should reject invalid credentials', async () => {
+        const endpoint = container.get(LdapLoginEndpoint);
+        expect(await endpoint.authenticate('alice', 'builder')).toBeUndefined();
+        expect(await endpoint.authenticate('alice', '')).toBeUndefined();
+        expect(await endpoint.authenticate('carol', 'wonderland')).toBeUndefined();
+    });
+
+    test('should escape the user name in the search filter', async () => {
+        const endpoint = container.get(LdapLoginEndpoint);
+        expect(await endpoint.authenticate('*)(uid=*', 'wonderland')).toBeUndefined();
+        expect(directory.searches).toEqual(['(uid=\\2a\\29\\28uid=\\2a)']);
+    });
+
+    test('should only allow members of the configured groups', async () => {
+        process.env.OCT_LDAP_ALLOWED_GROUPS = 'cn=admins,ou=groups,dc=example,dc=com; CN=Developers, OU=Groups, DC=example, DC=com';
+        const endpoint = container.get(LdapLoginEndpoint);
+        expect(await endpoint.authenticate('alice', 'wonderland')).toBeDefined();
+        expect(await endpoint.authenticate('bob', 'builder')).toBeUndefined();
+    });
+});
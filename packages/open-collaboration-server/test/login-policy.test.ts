@@ -0,0 +1,86 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { Info, ServerError } from 'open-collaboration-protocol';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+import { LoginPolicy } from '../src/login-policy.js';
+import { User } from '../src/types.js';
+
+const alice: User = { id: 'alice-id', name: 'Alice', email: 'alice@example.com', authProvider: 'GitHub' };
+const bob: User = { id: 'bob-id', name: 'Bob', email: 'bob@example.com', authProvider: 'Unverified' };
+const carol: User = { id: 'carol-id', name: 'Carol', email: 'carol@other.org', authProvider: 'GitHub' };
+
+describe('Login policy', () => {
+    const variables = [
+        'OCT_POLICY_LOGIN_ALLOWED_EMAIL_DOMAINS',
+        'OCT_POLICY_LOGIN_ALLOWED_AUTH_PROVIDERS',
+        'OCT_POLICY_LOGIN_DENIED_USERS',
+        'OCT_POLICY_CREATE_ROOM_ALLOWED_USERS',
+        'OCT_POLICY_JOIN_ROOM_DENIED_USERS'
+    ];
+
+    function createContainer(): Container {
+        const container = new Container();
+        container.load(serverModule);
+        return container;
+    }
+
+    beforeEach(() => {
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        for (const variable of variables) {
+            delete process.env[variable];
+        }
+    });
+
+    test('should allow everyone without configured rules', async () => {
+        const policy = createContainer().get<LoginPolicy>(LoginPolicy);
+        for (const user of [alice, bob, carol]) {
+            expect(await policy.check(user, 'login')).toBeUndefined();
+            expect(await policy.check(user, 'create-room')).toBeUndefined();
+            expect(await policy.check(user, 'join-room')).toBeUndefined();
+        }
+    });
+
+    test('should only allow verified email addresses of the configured domains', async () => {
+        process.env.OCT_POLICY_LOGIN_ALLOWED_EMAIL_DOMAINS = 'Example.com';
+        const policy = createContainer().get<LoginPolicy>(LoginPolicy);
+        expect(await policy.check(alice, 'login')).toBeUndefined();
+        expect((await policy.check(bob, 'login'))?.code).toBe(Info.Codes.LoginNotAllowed);
+        expect((await policy.check(carol, 'login'))?.code).toBe(Info.Codes.LoginNotAllowed);
+        // Login rules also apply to all other actions
+        expect((await policy.check(carol, 'join-room'))?.code).toBe(Info.Codes.LoginNotAllowed);
+    });
+
+    test('should apply separate rules for creating and joining rooms', async () => {
+        process.env.OCT_POLICY_LOGIN_ALLOWED_AUTH_PROVIDERS = 'github,unverified';
+        process.env.OCT_POLICY_CREATE_ROOM_ALLOWED_USERS = 'alice-id';
+        process.env.OCT_POLICY_JOIN_ROOM_DENIED_USERS = 'carol-id';
+        const policy = createContainer().get<LoginPolicy>(LoginPolicy);
+        expect(await policy.check(alice, 'create-room')).toBeUndefined();
+        expect((await policy.check(bob, 'create-room'))?.code).toBe(Info.Codes.CreateRoomNotAllowed);
+        expect(await policy.check(bob, 'join-room')).toBeUndefined();
+        expect(await policy.check(carol, 'login')).toBeUndefined();
+        expect((await policy.check(carol, 'join-room'))?.code).toBe(Info.Codes.JoinRoomNotAllowed);
+    });
+
+    test('should fail the login of denied users', async () => {
+        process.env.OCT_POLICY_LOGIN_ALLOWED_AUTH_PROVIDERS = 'Google';
+        const credentials = createContainer().get(CredentialsManager);
+        const token = await credentials.startAuth();
+        await expect(credentials.confirmUser(token, { name: 'Alice', authProvider: 'GitHub', providerId: 'github', subject: '1' })).rejects.toThrow(ServerError);
+        const auth = await credentials.getAuth(token);
+        expect(auth?.jwt).toBeUndefined();
+        expect((auth?.error as ServerError).code).toBe(Info.Codes.LoginNotAllowed);
+    });
+});
@@ -0,0 +1,70 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as http from 'node:http';
+import { Container } from 'inversify';
+import * as protocol from 'open-collaboration-protocol';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+import { startServer, stopServer } from './test-utils.js';
+
+describe('Login refresh', () => {
+    let server: http.Server;
+    let url: string;
+    let credentials: CredentialsManager;
+
+    async function login(): Promise<string> {
+        const confirmToken = await credentials.startAuth();
+        await credentials.confirmUser(confirmToken, { name: 'Alice', authProvider: 'Github', providerId: 'github', subject: '42' });
+        const auth = await credentials.getAuth(confirmToken);
+        auth?.dispose();
+        return auth!.refreshToken!;
+    }
+
+    beforeEach(async () => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        const container = new Container();
+        container.load(serverModule);
+        credentials = container.get(CredentialsManager);
+        [server, url] = await startServer(container);
+    });
+
+    afterEach(async () => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        await stopServer(server);
+    });
+
+    test('should return the new tokens to clients that send the refresh token', async () => {
+        const response = await fetch(`${url}/api/login/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken: await login() })
+        });
+        expect(response.status).toBe(200);
+        expect(protocol.LoginRefreshResponse.is(await response.json())).toBe(true);
+        expect(response.headers.getSetCookie()).toEqual([]);
+    });
+
+    test('should only renew the cookies of cookie based clients', async () => {
+        const response = await fetch(`${url}/api/login/refresh`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Origin': 'https://example.com',
+                'Cookie': `oct-refresh-token=${await login()}`
+            },
+            body: '{}'
+        });
+        expect(response.status).toBe(204);
+        expect(await response.text()).toBe('');
+        const cookies = response.headers.getSetCookie().map(cookie => cookie.split('=')[0]);
+        expect(cookies).toEqual(['oct-jwt', 'oct-refresh-token']);
+    });
+});
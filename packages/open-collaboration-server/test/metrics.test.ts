@@ -0,0 +1,82 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { Container } from 'inversify';
+import { BinaryMessage, DEFAULT_METADATA } from 'open-collaboration-protocol';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { ServerMetrics } from '../src/metrics.js';
+
+describe('Server metrics', () => {
+    let container: Container;
+    let server: http.Server | undefined;
+
+    async function start(): Promise<string> {
+        const metrics = container.get(ServerMetrics);
+        const app = express();
+        metrics.onStart(app);
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`;
+    }
+
+    beforeEach(() => {
+        process.env.LOG_LEVEL = 'error';
+        container = new Container();
+        container.load(serverModule);
+    });
+
+    afterEach(async () => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_METRICS_ENABLED;
+        delete process.env.OCT_METRICS_USERNAME;
+        delete process.env.OCT_METRICS_PASSWORD;
+        if (server) {
+            await new Promise(resolve => server!.close(resolve));
+            server = undefined;
+        }
+    });
+
+    test('should only activate when enabled', () => {
+        const metrics = container.get(ServerMetrics);
+        expect(metrics.shouldActivate()).toBe(false);
+        process.env.OCT_METRICS_ENABLED = 'true';
+        expect(metrics.shouldActivate()).toBe(true);
+    });
+
+    test('should expose recorded metrics', async () => {
+        const metrics = container.get(ServerMetrics);
+        metrics.recordJoinRequest('accepted');
+        metrics.recordJoinRequest('timeout');
+        metrics.recordLogin('github', 'success');
+        const message: BinaryMessage = { version: '0.0.0', kind: 'notification', metadata: DEFAULT_METADATA, content: new Uint8Array(16) };
+        metrics.recordMessage('notification', message);
+        const response = await fetch(await start());
+        expect(response.status).toBe(200);
+        const text = await response.text();
+        expect(text).toContain('oct_rooms 0');
+        expect(text).toContain('oct_join_requests_total{outcome="accepted"} 1');
+        expect(text).toContain('oct_join_requests_total{outcome="timeout"} 1');
+        expect(text).toContain('oct_logins_total{provider="github",outcome="success"} 1');
+        expect(text).toContain('oct_relayed_messages_total{type="notification"} 1');
+        expect(text).toContain('oct_relayed_message_bytes_total{type="notification"} 16');
+    });
+
+    test('should require basic auth if configured', async () => {
+        process.env.OCT_METRICS_USERNAME = 'prometheus';
+        process.env.OCT_METRICS_PASSWORD = 'secret';
+        const url = await start();
+        expect((await fetch(url)).status).toBe(401);
+        const wrong = Buffer.from('prometheus:wrong').toString('base64');
+        expect((await fetch(url, { headers: { Authorization: `Basic ${wrong}` } })).status).toBe(401);
+        const valid = Buffer.from('prometheus:secret').toString('base64');
+        expect((await fetch(url, { headers: { Authorization: `Basic ${valid}` } })).status).toBe(200);
+    });
+});
@@ -0,0 +1,178 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Request } from 'express';
+import { Container } from 'inversify';
+import * as jose from 'jose';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { OidcEndpoint, OidcEndpointProvider, OidcStrategy } from '../src/auth-endpoints/oidc-endpoint.js';
+import { UserInfo } from '../src/auth-endpoints/auth-endpoint.js';
+
+interface AuthenticationResult {
+    redirect?: string;
+    user?: UserInfo;
+    failure?: unknown;
+    error?: unknown;
+}
+
+/**
+ * Runs the strategy the same way as passport does, by augmenting it with the result callbacks.
+ */
+function authenticate(strategy: OidcStrategy, query: Record<string, string>, options?: { state: string }): Promise<AuthenticationResult> {
+    return new Promise(resolve => {
+        const augmented = Object.create(strategy);
+        augmented.redirect = (redirect: string) => resolve({ redirect });
+        augmented.success = (user: UserInfo) => resolve({ user });
+        augmented.fail = (failure: unknown) => resolve({ failure });
+        augmented.error = (error: unknown) => resolve({ error });
+        augmented.authenticate({ query } as unknown as Request, options);
+    });
+}
+
+describe('OpenID Connect endpoint', () => {
+    let server: http.Server;
+    let issuer: string;
+    let claims: jose.JWTPayload;
+    let challenge: string | undefined;
+    let nonce: string | undefined;
+
+    beforeEach(async () => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        const { privateKey, publicKey } = await jose.generateKeyPair('RS256');
+        const jwk = { ...await jose.exportJWK(publicKey), kid: 'test', alg: 'RS256' };
+        claims = { sub: 'user-1', nickname: 'alice', email: 'alice@example.com', email_verified: true };
+        server = http.createServer(async (req, res) => {
+            const url = new URL(req.url!, issuer);
+            let body: unknown;
+            if (url.pathname === '/.well-known/openid-configuration') {
+                body = {
+                    issuer,
+                    authorization_endpoint: `${issuer}/authorize`,
+                    token_endpoint: `${issuer}/token`,
+                    jwks_uri: `${issuer}/jwks`
+                };
+            } else if (url.pathname === '/jwks') {
+                body = { keys: [jwk] };
+            } else if (url.pathname === '/token') {
+                let content = '';
+                for await (const chunk of req) {
+                    content += chunk;
+                }
+                const params = new URLSearchParams(content);
+                const verifier = params.get('code_verifier') ?? '';
+                if (params.get('code') !== 'valid-code' || jose.base64url.encode(crypto.createHash('sha256').update(verifier).digest()) !== challenge) {
+                    res.writeHead(400).end();
+                    return;
+                }
+                body = {
+                    id_token: await new jose.SignJWT({ ...claims, nonce })
+                        .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+                        .setIssuer(issuer)
+                        .setAudience('oct-client')
+                        .setIssuedAt()
+                        .setExpirationTime('5m')
+                        .sign(privateKey)
+                };
+            }
+            if (body) {
+                res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+            } else {
+                res.writeHead(404).end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        process.env.OCT_OIDC_PROVIDERS = 'corp';
+        process.env.OCT_OIDC_CORP_ISSUER = issuer;
+        process.env.OCT_OIDC_CORP_CLIENT_ID = 'oct-client';
+        process.env.OCT_OIDC_CORP_LABEL = 'Corporate SSO';
+        process.env.OCT_OIDC_CORP_NAME_CLAIM = 'nickname';
+    });
+
+    afterEach(async () => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_OIDC_PROVIDERS;
+        delete process.env.OCT_OIDC_CORP_ISSUER;
+        delete process.env.OCT_OIDC_CORP_CLIENT_ID;
+        delete process.env.OCT_OIDC_CORP_LABEL;
+        delete process.env.OCT_OIDC_CORP_NAME_CLAIM;
+        challenge = undefined;
+        nonce = undefined;
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    function createStrategy(): OidcStrategy {
+        const container = new Container();
+        container.load(serverModule);
+        const endpoints = container.get(OidcEndpointProvider).getAuthEndpoints() as OidcEndpoint[];
+        expect(endpoints).toHaveLength(1);
+        return endpoints[0].getStrategy('localhost', 8100) as OidcStrategy;
+    }
+
+    async function startLogin(strategy: OidcStrategy, state: string): Promise<URL> {
+        const { redirect } = await authenticate(strategy, {}, { state });
+        const url = new URL(redirect!);
+        challenge = url.searchParams.get('code_challenge')!;
+        nonce = url.searchParams.get('nonce')!;
+        return url;
+    }
+
+    test('should expose each configured provider as a web auth provider', () => {
+        const container = new Container();
+        container.load(serverModule);
+        const providers = container.get(OidcEndpointProvider).getAuthEndpoints().map(endpoint => endpoint.getProtocolProvider());
+        expect(providers).toMatchObject([{
+            type: 'web',
+            name: 'Corporate SSO',
+            endpoint: '/api/login/oidc-corp'
+        }]);
+    });
+
+    test('should authenticate users using the authorization code flow with PKCE', async () => {
+        const strategy = createStrategy();
+        const url = await startLogin(strategy, 'login-token');
+        expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+        expect(url.searchParams.get('state')).toBe('login-token');
+        expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:8100/api/login/oidc-corp-callback');
+
+        const { user } = await authenticate(strategy, { code: 'valid-code', state: 'login-token' });
+        expect(user).toEqual({
+            name: 'alice',
+            email: 'alice@example.com',
+            authProvider: 'Corporate SSO',
+            providerId: issuer,
+            subject: 'user-1'
+        });
+    });
+
+    test('should reject ID tokens issued for a different login request', async () => {
+        const strategy = createStrategy();
+        await startLogin(strategy, 'login-token');
+        nonce = 'another-nonce';
+        const { error } = await authenticate(strategy, { code: 'valid-code', state: 'login-token' });
+        expect(error).toBeInstanceOf(Error);
+        // The login request can only be completed once
+        const { failure } = await authenticate(strategy, { code: 'valid-code', state: 'login-token' });
+        expect(failure).toBeDefined();
+    });
+
+    test('should ignore unverified email addresses', async () => {
+        claims.email_verified = false;
+        const strategy = createStrategy();
+        await startLogin(strategy, 'login-token');
+        const { user } = await authenticate(strategy, { code: 'valid-code', state: 'login-token' });
+        expect(user?.email).toBeUndefined();
+        expect(user?.subject).toBe('user-1');
+    });
+});
@@ -0,0 +1,68 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import type { Request } from 'express';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { ProxyAuthEndpoint } from '../src/auth-endpoints/proxy-auth-endpoint.js';
+import { AuthSuccessEvent } from '../src/auth-endpoints/auth-endpoint.js';
+
+function createRequest(remoteAddress: string, headers: Record<string, string>): Request {
+    return { socket: { remoteAddress }, headers } as unknown as Request;
+}
+
+describe('Proxy header authentication', () => {
+    let container: Container;
+    let events: AuthSuccessEvent[];
+
+    beforeEach(() => {
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        process.env.OCT_PROXY_AUTH_TRUSTED_PROXIES = '10.0.0.0/8, ::1';
+        container = new Container();
+        container.load(serverModule);
+        events = [];
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_PROXY_AUTH_TRUSTED_PROXIES;
+    });
+
+    function getEndpoint(): ProxyAuthEndpoint {
+        const endpoint = container.get(ProxyAuthEndpoint);
+        endpoint.onDidAuthenticate(event => {
+            events.push(event);
+        });
+        return endpoint;
+    }
+
+    test('should authenticate requests from trusted proxies', async () => {
+        const endpoint = getEndpoint();
+        expect(endpoint.shouldActivate()).toBe(true);
+        const headers = { 'x-forwarded-user': 'alice', 'x-forwarded-email': 'alice@example.com' };
+        expect(await endpoint.authenticateRequest(createRequest('::ffff:10.1.2.3', headers), 'token-1')).toBe(true);
+        expect(await endpoint.authenticateRequest(createRequest('::1', headers), 'token-2')).toBe(true);
+        expect(events).toEqual([{
+            token: 'token-1',
+            userInfo: { name: 'alice', email: 'alice@example.com', authProvider: 'Proxy', providerId: 'proxy', subject: 'alice' }
+        }, expect.objectContaining({ token: 'token-2' })]);
+    });
+
+    test('should ignore the headers of untrusted clients', async () => {
+        const endpoint = getEndpoint();
+        const headers = { 'x-forwarded-user': 'alice' };
+        expect(await endpoint.authenticateRequest(createRequest('192.168.1.5', headers), 'token')).toBe(false);
+        expect(await endpoint.authenticateRequest(createRequest('10.1.2.3', {}), 'token')).toBe(false);
+        expect(events).toHaveLength(0);
+    });
+
+    test('should reject invalid proxy addresses', () => {
+        process.env.OCT_PROXY_AUTH_TRUSTED_PROXIES = '10.0.0.0/33';
+        expect(() => container.get(ProxyAuthEndpoint)).toThrow();
+    });
+});
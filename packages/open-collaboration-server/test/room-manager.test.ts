@@ -0,0 +1,223 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
+import * as protocol from 'open-collaboration-protocol';
+import serverModule from '../src/inversify-module.js';
+import { RoomManager, isRoomClaim } from '../src/room-manager.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+import { RoomStore } from '../src/room-store.js';
+import { ClusterService } from '../src/cluster/cluster-service.js';
+import { Peer } from '../src/types.js';
+import { TestTransport, connectPeer } from './test-utils.js';
+
+describe('Room manager', () => {
+    let container: Container;
+    let roomManager: RoomManager;
+
+    function connect(host: boolean, name: string, options: { jwt?: string, id?: string, roomClock?: number } = {}): Promise<[Peer, TestTransport]> {
+        return connectPeer(container, { host, name, ...options });
+    }
+
+    /**
+     * Simulates a server restart by creating a new room manager that uses the same room store.
+     */
+    function restart(): void {
+        const roomStore = container.get<RoomStore>(RoomStore);
+        container = new Container();
+        container.load(serverModule);
+        container.rebind(RoomStore).toConstantValue(roomStore);
+        roomManager = container.get(RoomManager);
+    }
+
+    beforeEach(() => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        container = new Container();
+        container.load(serverModule);
+        roomManager = container.get(RoomManager);
+    });
+
+    afterEach(() => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_HOST_FAILOVER;
+        delete process.env.OCT_ROOM_RESUME_TIMEOUT;
+    });
+
+    test('should promote a guest to host', async () => {
+        const [host, hostTransport] = await connect(true, 'host');
+        const [guest, guestTransport] = await connect(false, 'guest');
+
+        await roomManager.promoteHost(host, guest.id);
+
+        const room = roomManager.getRoomById('room')!;
+        expect(room.host).toBe(guest);
+        expect(room.guests).toEqual([host]);
+        expect(host.host).toBe(false);
+        expect(guest.host).toBe(true);
+        for (const transport of [hostTransport, guestTransport]) {
+            const [hostChanged] = transport.broadcasts(protocol.Messages.Room.HostChanged.method);
+            expect(hostChanged.content.params).toEqual([guest.toProtocol()]);
+        }
+    });
+
+    test('should keep the failover order of the guests when promoting a guest', async () => {
+        const [host] = await connect(true, 'host');
+        const [first] = await connect(false, 'first');
+        const [second] = await connect(false, 'second');
+
+        await roomManager.promoteHost(host, first.id);
+
+        expect(roomManager.getRoomById('room')!.guests).toEqual([second, host]);
+    });
+
+    test('should not allow guests to promote peers', async () => {
+        const [host] = await connect(true, 'host');
+        const [guest] = await connect(false, 'guest');
+
+        await expect(roomManager.promoteHost(guest, guest.id)).rejects.toThrow();
+        expect(roomManager.getRoomById('room')?.host).toBe(host);
+    });
+
+    test('should close the room if the host leaves without failover', async () => {
+        const [host] = await connect(true, 'host');
+        const [, guestTransport] = await connect(false, 'guest');
+
+        await roomManager.leaveRoom(host);
+
+        expect(roomManager.getRoomById('room')).toBeUndefined();
+        expect(guestTransport.broadcasts(protocol.Messages.Room.Closed.method)).toHaveLength(1);
+    });
+
+    test('should delete the room before leaving resolves, even if the cluster is unavailable', async () => {
+        const [host] = await connect(true, 'host');
+        await connect(false, 'guest');
+        vi.spyOn(container.get(ClusterService), 'publish').mockRejectedValue(new Error('Cluster unavailable'));
+
+        await roomManager.leaveRoom(host);
+
+        expect(roomManager.getRoomById('room')).toBeUndefined();
+        expect(await container.get<RoomStore>(RoomStore).getRoom('room')).toBeUndefined();
+    });
+
+    test('should hand over the host role to the longest connected guest on failover', async () => {
+        process.env.OCT_HOST_FAILOVER = 'true';
+        const [owner] = await connect(true, 'owner');
+        const [host] = await connect(false, 'host');
+        const [first, firstTransport] = await connect(false, 'first');
+        const [second] = await connect(false, 'second');
+        await roomManager.promoteHost(owner, host.id);
+
+        await roomManager.leaveRoom(host);
+
+        const room = roomManager.getRoomById('room')!;
+        expect(room.host).toBe(first);
+        expect(room.guests).toEqual([second, owner]);
+        expect(firstTransport.broadcasts(protocol.Messages.Room.HostChanged.method)).toHaveLength(2);
+        expect(firstTransport.broadcasts(protocol.Messages.Room.Left.method)).toHaveLength(1);
+    });
+
+    test('should close the room on failover if the workspace owner leaves', async () => {
+        process.env.OCT_HOST_FAILOVER = 'true';
+        const [owner] = await connect(true, 'owner');
+        const [, guestTransport] = await connect(false, 'guest');
+
+        await roomManager.leaveRoom(owner);
+
+        expect(roomManager.getRoomById('room')).toBeUndefined();
+        expect(guestTransport.broadcasts(protocol.Messages.Room.Closed.method)).toHaveLength(1);
+    });
+
+    test('should remove kicked peers from the room', async () => {
+        const [host, hostTransport] = await connect(true, 'host');
+        const [guest, guestTransport] = await connect(false, 'guest');
+
+        await roomManager.kickPeer(host, guest.id, false);
+
+        const room = roomManager.getRoomById('room')!;
+        expect(room.guests).toEqual([]);
+        expect(room.bannedUsers.size).toBe(0);
+        for (const transport of [hostTransport, guestTransport]) {
+            const [left] = transport.broadcasts(protocol.Messages.Room.Left.method);
+            expect(left.content.params).toEqual([guest.toProtocol(), 'kicked']);
+        }
+    });
+
+    test('should revoke the room token of kicked peers', async () => {
+        const credentials = container.get(CredentialsManager);
+        const [host] = await connect(true, 'host');
+        const jwt = await credentials.generateRoomJwt({ room: 'room', roomClock: 1, user: { id: 'guest', name: 'guest' } });
+        const [guest] = await connect(false, 'guest', { jwt });
+
+        await roomManager.kickPeer(host, guest.id, false);
+
+        // Connecting to a room requires a valid room token
+        await expect(credentials.verifyJwt(jwt, isRoomClaim)).rejects.toThrow();
+    });
+
+    test('should prevent banned users from joining again', async () => {
+        const [host] = await connect(true, 'host');
+        const [guest] = await connect(false, 'guest');
+
+        await roomManager.kickPeer(host, guest.id, true);
+
+        expect(roomManager.getRoomById('room')?.bannedUsers.has('guest')).toBe(true);
+        await expect(connect(false, 'guest')).rejects.toThrow();
+    });
+
+    test('should not allow guests to kick peers', async () => {
+        await connect(true, 'host');
+        const [first] = await connect(false, 'first');
+        const [second] = await connect(false, 'second');
+
+        await expect(roomManager.kickPeer(first, second.id, false)).rejects.toThrow();
+        expect(roomManager.getRoomById('room')?.guests).toEqual([first, second]);
+    });
+
+    test('should only persist rooms once their host has joined', async () => {
+        const roomStore = container.get<RoomStore>(RoomStore);
+        const prepared = await roomManager.prepareRoom({ id: 'host', name: 'host' });
+        expect(await roomStore.getRoom(prepared.id)).toBeUndefined();
+
+        await connect(true, 'host');
+        expect(await roomStore.getRoom('room')).toMatchObject({ host: { id: 'host' }, peers: [{ user: { id: 'host' }, host: true }] });
+    });
+
+    test('should resume restored rooms with the previous peer ids', async () => {
+        const [host] = await connect(true, 'host');
+        const [guest] = await connect(false, 'guest', { roomClock: 1 });
+
+        restart();
+        expect(roomManager.getRoomById('room')).toBeUndefined();
+        const storedHost = await roomManager.getStoredPeer({ room: 'room', roomClock: 0, user: host.user, host: true });
+        const storedGuest = await roomManager.getStoredPeer({ room: 'room', roomClock: 1, user: guest.user });
+        expect(storedHost?.id).toBe(host.id);
+        expect(storedGuest?.id).toBe(guest.id);
+
+        // Guests that reconnect before their host wait for it
+        const guestJoin = connect(false, 'guest', { id: storedGuest!.id, roomClock: 1 });
+        const [resumedHost] = await connect(true, 'host', { id: storedHost!.id });
+        const [resumedGuest] = await guestJoin;
+
+        const room = roomManager.getRoomById('room')!;
+        expect(room.host).toBe(resumedHost);
+        expect(room.guests).toEqual([resumedGuest]);
+        expect(resumedHost.id).toBe(host.id);
+        expect(resumedGuest.id).toBe(guest.id);
+    });
+
+    test('should remove restored rooms if their host does not reconnect', async () => {
+        process.env.OCT_ROOM_RESUME_TIMEOUT = '0.01';
+        await connect(true, 'host');
+
+        restart();
+        await expect(connect(false, 'guest', { roomClock: 1 })).rejects.toThrow();
+        expect(await container.get<RoomStore>(RoomStore).getRoom('room')).toBeUndefined();
+    });
+});
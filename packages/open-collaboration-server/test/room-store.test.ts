@@ -0,0 +1,71 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { FileRoomStore, RoomStore, StoredRoom } from '../src/room-store.js';
+import { Configuration, DefaultConfiguration } from '../src/utils/configuration.js';
+
+describe('File room store', () => {
+    let tempDir: string;
+
+    function createStore(): RoomStore {
+        const container = new Container();
+        container.bind(Configuration).to(DefaultConfiguration);
+        container.bind(FileRoomStore).toSelf();
+        return container.get(FileRoomStore);
+    }
+
+    function createRoom(id: string): StoredRoom {
+        return {
+            id,
+            host: { id: 'host-user', name: 'Host' },
+            clock: 2,
+            peers: [
+                { id: 'peer-1', user: { id: 'host-user', name: 'Host' }, host: true, roomClock: 0 },
+                { id: 'peer-2', user: { id: 'guest-user', name: 'Guest' }, host: false, roomClock: 2 }
+            ],
+            createdAt: Date.now()
+        };
+    }
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oct-room-store-'));
+        process.env.OCT_ROOM_STORE_PATH = path.join(tempDir, 'rooms.json');
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_ROOM_STORE_PATH;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should return no rooms if the file does not exist', async () => {
+        const store = createStore();
+        expect(await store.getRooms()).toEqual([]);
+        expect(await store.getRoom('unknown')).toBeUndefined();
+    });
+
+    test('should restore rooms in a new store instance', async () => {
+        const room = createRoom('room-1');
+        await createStore().saveRoom(room);
+
+        const restored = await createStore().getRoom('room-1');
+        expect(restored).toEqual(room);
+    });
+
+    test('should persist deleted rooms', async () => {
+        const store = createStore();
+        await store.saveRoom(createRoom('room-1'));
+        await store.saveRoom(createRoom('room-2'));
+        await store.deleteRoom('room-1');
+
+        const rooms = await createStore().getRooms();
+        expect(rooms.map(room => room.id)).toEqual(['room-2']);
+    });
+});
@@ -0,0 +1,76 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { Container } from 'inversify';
+import * as jose from 'jose';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+import { SigningKeyManager } from '../src/signing-keys.js';
+
+describe('JWT signing keys', () => {
+    let tempDir: string;
+
+    function createContainer(): Container {
+        const container = new Container();
+        container.load(serverModule);
+        return container;
+    }
+
+    beforeEach(() => {
+        process.env.LOG_LEVEL = 'error';
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oct-jwt-keys-'));
+        process.env.OCT_JWT_KEYS_PATH = path.join(tempDir, 'keys.json');
+    });
+
+    afterEach(() => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_ALGORITHM;
+        delete process.env.OCT_JWT_KEYS_PATH;
+        delete process.env.OCT_JWT_ALLOW_INSECURE_KEY;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should refuse to use the insecure fallback key', () => {
+        expect(() => createContainer().get(CredentialsManager)).toThrow();
+        process.env.OCT_JWT_ALLOW_INSECURE_KEY = 'true';
+        expect(() => createContainer().get(CredentialsManager)).not.toThrow();
+    });
+
+    test.each(['RS256', 'EdDSA'])('should verify %s tokens using the published key set', async algorithm => {
+        process.env.OCT_JWT_ALGORITHM = algorithm;
+        const container = createContainer();
+        const jwt = await container.get(CredentialsManager).generateJwt({ name: 'Alice' });
+
+        const jwks = jose.createLocalJWKSet(await container.get(SigningKeyManager).getJwks());
+        const { payload, protectedHeader } = await jose.jwtVerify(jwt, jwks);
+        expect(protectedHeader.alg).toBe(algorithm);
+        expect(protectedHeader.kid).toBeDefined();
+        expect(payload.name).toBe('Alice');
+    });
+
+    test('should keep verifying tokens signed with rotated keys', async () => {
+        process.env.OCT_JWT_ALGORITHM = 'EdDSA';
+        const credentials = createContainer().get(CredentialsManager);
+        const oldJwt = await credentials.generateJwt({ name: 'Alice' });
+
+        const container = createContainer();
+        const signingKeys = container.get(SigningKeyManager);
+        await signingKeys.rotate();
+        const newJwt = await container.get(CredentialsManager).generateJwt({ name: 'Bob' });
+
+        expect(jose.decodeProtectedHeader(newJwt).kid).not.toBe(jose.decodeProtectedHeader(oldJwt).kid);
+        expect((await signingKeys.getJwks()).keys).toHaveLength(2);
+        const credentialsAfterRotation = container.get(CredentialsManager);
+        const isObject = (obj: unknown): obj is object => typeof obj === 'object';
+        await expect(credentialsAfterRotation.verifyJwt(oldJwt, isObject)).resolves.toMatchObject({ name: 'Alice' });
+        await expect(credentialsAfterRotation.verifyJwt(newJwt, isObject)).resolves.toMatchObject({ name: 'Bob' });
+    });
+});
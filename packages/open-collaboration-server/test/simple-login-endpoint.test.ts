@@ -0,0 +1,150 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { SimpleLoginEndpoint } from '../src/auth-endpoints/simple-login-endpoint.js';
+import { CredentialsManager } from '../src/credentials-manager.js';
+import { FileMailer, MailMessage, Mailer } from '../src/mailer.js';
+
+describe('Simple login with email verification', () => {
+    let container: Container;
+    let server: http.Server;
+    let baseUrl: string;
+    let messages: MailMessage[];
+
+    beforeEach(async () => {
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        process.env.OCT_ACTIVATE_SIMPLE_LOGIN = 'true';
+        process.env.OCT_SIMPLE_LOGIN_VERIFY_EMAIL = 'true';
+        messages = [];
+        container = new Container();
+        container.load(serverModule);
+        container.rebind(Mailer).toConstantValue({
+            send: async (message: MailMessage) => {
+                messages.push(message);
+            }
+        });
+        const credentials = container.get(CredentialsManager);
+        const endpoint = container.get(SimpleLoginEndpoint);
+        endpoint.onDidAuthenticate(event => credentials.confirmUser(event.token, event.userInfo));
+        const app = express();
+        app.use(express.json());
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const port = (server.address() as AddressInfo).port;
+        baseUrl = `http://127.0.0.1:${port}`;
+        endpoint.onStart(app, '127.0.0.1', port);
+    });
+
+    afterEach(async () => {
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        delete process.env.OCT_ACTIVATE_SIMPLE_LOGIN;
+        delete process.env.OCT_SIMPLE_LOGIN_VERIFY_EMAIL;
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    function login(body: object): Promise<Response> {
+        return fetch(`${baseUrl}/api/login/simple`, {
+            method: 'POST',
+            body: JSON.stringify(body),
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    test('should require an email address', () => {
+        const provider = container.get(SimpleLoginEndpoint).getProtocolProvider();
+        expect(provider.fields.find(field => field.name === 'email')?.required).toBe(true);
+    });
+
+    test('should complete the login once the link has been confirmed', async () => {
+        const credentials = container.get(CredentialsManager);
+        const token = await credentials.startAuth();
+        const response = await login({ token, user: 'Alice', email: 'Alice@example.com' });
+        expect(response.ok).toBe(true);
+        expect(messages).toHaveLength(1);
+        expect(messages[0].to).toBe('Alice@example.com');
+        // The user name has not been verified and must not be used to inject content into the email
+        expect(messages[0].text).not.toContain('Alice');
+        const link = /http:\S+/.exec(messages[0].text)![0];
+
+        // Opening the link doesn't complete the login yet
+        expect((await fetch(link)).ok).toBe(true);
+        expect((await credentials.getAuth(token))?.jwt).toBeUndefined();
+
+        expect((await fetch(link, { method: 'POST' })).ok).toBe(true);
+        const jwt = (await credentials.getAuth(token))?.jwt;
+        const user = await credentials.getUser(jwt!);
+        expect(user).toMatchObject({ name: 'Alice', email: 'Alice@example.com', authProvider: 'Email' });
+
+        // Links can only be used once
+        expect((await fetch(link, { method: 'POST' })).status).toBe(400);
+    });
+
+    test('should limit the number of login links per email address', async () => {
+        const credentials = container.get(CredentialsManager);
+        for (let i = 0; i < 3; i++) {
+            expect((await login({ token: await credentials.startAuth(), user: 'Alice', email: 'alice@example.com' })).ok).toBe(true);
+        }
+        const response = await login({ token: await credentials.startAuth(), user: 'Alice', email: 'ALICE@example.com' });
+        expect(response.status).toBe(429);
+        expect(messages).toHaveLength(3);
+        expect((await login({ token: await credentials.startAuth(), user: 'Bob', email: 'bob@example.com' })).ok).toBe(true);
+    });
+
+    test('should limit the number of login links per client', async () => {
+        const credentials = container.get(CredentialsManager);
+        for (let i = 0; i < 10; i++) {
+            expect((await login({ token: await credentials.startAuth(), user: 'Alice', email: `alice${i}@example.com` })).ok).toBe(true);
+        }
+        const response = await login({ token: await credentials.startAuth(), user: 'Alice', email: 'alice@example.com' });
+        expect(response.status).toBe(429);
+        expect(messages).toHaveLength(10);
+    });
+
+    test('should not send links for unknown login requests', async () => {
+        const response = await login({ token: 'unknown', user: 'Alice', email: 'alice@example.com' });
+        expect(response.status).toBe(400);
+        expect(messages).toHaveLength(0);
+    });
+});
+
+describe('File mailer', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oct-mail-'));
+        process.env.OCT_MAIL_DROP_PATH = tempDir;
+        process.env.OCT_MAILER = 'file';
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_MAIL_DROP_PATH;
+        delete process.env.OCT_MAILER;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should write emails into the drop directory', async () => {
+        const container = new Container();
+        container.load(serverModule);
+        const mailer = container.get<Mailer>(Mailer);
+        expect(mailer).toBeInstanceOf(FileMailer);
+        await mailer.send({ to: 'alice@example.com', subject: 'Hello', text: 'Hello Alice' });
+        const files = fs.readdirSync(tempDir);
+        expect(files).toHaveLength(1);
+        const content = fs.readFileSync(path.join(tempDir, files[0]), 'utf8');
+        expect(content).toContain('To: alice@example.com');
+        expect(content).toContain('Hello Alice');
+    });
+});
@@ -0,0 +1,114 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Container } from 'inversify';
+import * as protocol from 'open-collaboration-protocol';
+import { CollaborationServer } from '../src/collaboration-server.js';
+import { TransportChannel } from '../src/channel.js';
+import { PeerFactory } from '../src/peer.js';
+import { RoomManager } from '../src/room-manager.js';
+import { Peer } from '../src/types.js';
+
+/**
+ * Transport that records the messages sent to the peer and allows to simulate messages of the peer.
+ */
+export class TestTransport implements TransportChannel {
+
+    readonly received: protocol.Message[] = [];
+    bufferedAmount = 0;
+    closed = false;
+
+    private readonly onMessageEmitter = new protocol.Emitter<protocol.Message>();
+    private readonly onCloseEmitter = new protocol.Emitter<void>();
+
+    get onClose(): protocol.Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    onMessage(cb: (message: protocol.Message) => void): protocol.Disposable {
+        return this.onMessageEmitter.event(cb);
+    }
+
+    sendMessage(message: protocol.Message): void {
+        this.received.push(message);
+    }
+
+    /**
+     * Simulates a message that the peer sends to the server.
+     */
+    send(message: protocol.Message): void {
+        this.onMessageEmitter.fire(message);
+    }
+
+    find<T extends protocol.Message>(guard: (message: protocol.Message) => message is T): T | undefined {
+        return this.received.find(guard);
+    }
+
+    broadcasts(method: string): protocol.BroadcastMessage[] {
+        return this.received.filter(protocol.BroadcastMessage.is).filter(message => message.content.method === method);
+    }
+
+    close(): void {
+        this.closed = true;
+        this.onCloseEmitter.fire();
+    }
+
+    /**
+     * Simulates the loss of the connection without closing the transport.
+     */
+    disconnect(): void {
+        this.onCloseEmitter.fire();
+    }
+}
+
+export interface TestPeerOptions {
+    host: boolean;
+    /**
+     * Name and id of the user of the peer. Also used as the room token by default.
+     */
+    name: string;
+    roomId?: string;
+    id?: string;
+    jwt?: string;
+    roomClock?: number;
+    client?: string;
+}
+
+/**
+ * Creates a peer using the given container and lets it join a room (`room` by default).
+ */
+export async function connectPeer(container: Container, options: TestPeerOptions): Promise<[Peer, TestTransport]> {
+    const transport = new TestTransport();
+    const peer = container.get<PeerFactory>(PeerFactory)({
+        id: options.id,
+        jwt: options.jwt ?? options.name,
+        user: { id: options.name, name: options.name },
+        host: options.host,
+        channel: transport,
+        client: options.client ?? 'test',
+        publicKey: 'public-key',
+        supportedCompression: ['none']
+    });
+    await container.get(RoomManager).join(peer, options.roomId ?? 'room', options.roomClock);
+    return [peer, transport];
+}
+
+/**
+ * Starts the collaboration server of the given container on a random local port.
+ * @returns the server and its base URL
+ */
+export async function startServer(container: Container): Promise<[http.Server, string]> {
+    const server = container.get(CollaborationServer).startServer({ port: 0, hostname: '127.0.0.1' });
+    await new Promise(resolve => server.once('listening', resolve));
+    return [server, `http://127.0.0.1:${(server.address() as AddressInfo).port}`];
+}
+
+export async function stopServer(server: http.Server): Promise<void> {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+}
@@ -0,0 +1,128 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as http from 'node:http';
+import { Container } from 'inversify';
+import * as ws from 'ws';
+import * as protocol from 'open-collaboration-protocol';
+import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
+import serverModule from '../src/inversify-module.js';
+import { RoomManager } from '../src/room-manager.js';
+import { PeerManager } from '../src/peer-manager.js';
+import { startServer, stopServer } from './test-utils.js';
+
+describe('Transports', () => {
+    let container: Container;
+    let server: http.Server;
+    let url: string;
+    let transport: protocol.MessageTransport | undefined;
+    const webSocketConstructor = protocol.WebSocketTransportProvider.Constructor;
+
+    async function connect(provider: protocol.MessageTransportProvider): Promise<protocol.Message> {
+        const roomManager = container.get(RoomManager);
+        const room = await roomManager.prepareRoom({ id: 'host', name: 'Host' });
+        transport = provider.createTransport(url, {
+            'x-oct-jwt': room.jwt,
+            'x-oct-public-key': 'public-key',
+            'x-oct-client': 'test'
+        });
+        const received = new protocol.Deferred<protocol.Message>();
+        transport.read(data => received.resolve(protocol.Encoding.decode(new Uint8Array(data)) as protocol.Message));
+        return received.promise;
+    }
+
+    beforeEach(async () => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.OCT_JWT_PRIVATE_KEY = 'test-key';
+        // Node.js 20 does not provide a global WebSocket implementation
+        protocol.WebSocketTransportProvider.Constructor = ws.WebSocket as unknown as typeof WebSocket;
+        container = new Container();
+        container.load(serverModule);
+        [server, url] = await startServer(container);
+    });
+
+    afterEach(async () => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.OCT_JWT_PRIVATE_KEY;
+        protocol.WebSocketTransportProvider.Constructor = webSocketConstructor;
+        transport?.dispose();
+        transport = undefined;
+        await stopServer(server);
+    });
+
+    test('should advertise all transports', async () => {
+        const metadata: protocol.ProtocolServerMetaData = await (await fetch(`${url}/api/meta`)).json();
+        expect(metadata.transports).toEqual(['websocket', 'socket.io']);
+    });
+
+    test.each([
+        ['websocket', protocol.WebSocketTransportProvider],
+        ['socket.io', protocol.SocketIoTransportProvider]
+    ])('should join the room using %s', async (_, provider) => {
+        const message = await connect(provider);
+        expect(message).toMatchObject({ kind: 'notification', content: { method: protocol.Messages.Peer.Info.method } });
+        expect(container.get(RoomManager).getRooms()).toHaveLength(1);
+    });
+
+    test('should resume the session of a disconnected peer', async () => {
+        const room = await container.get(RoomManager).prepareRoom({ id: 'host', name: 'Host' });
+        const headers = {
+            'x-oct-jwt': room.jwt,
+            'x-oct-public-key': 'public-key',
+            'x-oct-client': 'test',
+            'x-oct-resumable': 'true'
+        };
+        const receiveResumeToken = (transport: protocol.MessageTransport, received: protocol.Message[]) => {
+            const resumeToken = new protocol.Deferred<string>();
+            transport.read(data => {
+                const message = protocol.Encoding.decode(new Uint8Array(data)) as protocol.Message;
+                received.push(message);
+                if (protocol.NotificationMessage.is(message) && message.content.method === protocol.Messages.Peer.ResumeToken.method) {
+                    resumeToken.resolve(message.content.params[0] as string);
+                }
+            });
+            return resumeToken.promise;
+        };
+        transport = protocol.WebSocketTransportProvider.createTransport(url, headers);
+        const resumeToken = await receiveResumeToken(transport, []);
+        const peer = container.get(PeerManager).getPeerByResumeToken(resumeToken)!;
+        expect(peer.jwt).toBe(room.jwt);
+
+        // Simulate a network drop, messages are buffered until the peer resumes its session
+        transport.dispose();
+        await vi.waitFor(() => expect(peer.channel.transport).toBeUndefined());
+        peer.channel.sendMessage(protocol.NotificationMessage.create(protocol.Messages.Room.Leave, '', peer.id, []));
+
+        const received: protocol.Message[] = [];
+        transport = protocol.WebSocketTransportProvider.createTransport(url, { ...headers, 'x-oct-resume-token': resumeToken });
+        const newResumeToken = await receiveResumeToken(transport, received);
+        expect(received[0]).toMatchObject({ kind: 'notification', content: { method: protocol.Messages.Room.Leave.method } });
+        expect(newResumeToken).not.toBe(resumeToken);
+        expect(container.get(PeerManager).getPeerByResumeToken(resumeToken)).toBeUndefined();
+        expect(container.get(PeerManager).getPeerByResumeToken(newResumeToken)).toBe(peer);
+        expect(container.get(RoomManager).getRooms()[0].peers).toHaveLength(1);
+    });
+
+    test('should ignore malformed web socket frames', async () => {
+        const room = await container.get(RoomManager).prepareRoom({ id: 'host', name: 'Host' });
+        const socket = new ws.WebSocket(`${url.replace('http', 'ws')}/websocket?x-oct-jwt=${room.jwt}&x-oct-public-key=key&x-oct-client=test`);
+        await new Promise(resolve => socket.once('message', resolve));
+
+        socket.send(new TextEncoder().encode('hello'));
+
+        // The server keeps serving requests and the peer stays connected
+        expect((await fetch(`${url}/api/meta`)).status).toBe(200);
+        expect(container.get(RoomManager).getRooms()[0].peers).toHaveLength(1);
+        socket.close();
+    });
+
+    test('should reject web socket connections without a valid token', async () => {
+        const socket = new ws.WebSocket(`${url.replace('http', 'ws')}/websocket?x-oct-jwt=invalid&x-oct-public-key=key`);
+        const code = await new Promise<number>(resolve => socket.on('close', resolve));
+        expect(code).toBe(1008);
+    });
+});
@@ -0,0 +1,75 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { Container } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { UserManager } from '../src/user-manager.js';
+import { FileUserStore, UserStore } from '../src/user-store.js';
+import { Configuration, DefaultConfiguration } from '../src/utils/configuration.js';
+
+describe('User manager', () => {
+    let tempDir: string;
+
+    function createUserManager(): UserManager {
+        const container = new Container();
+        container.bind(Configuration).to(DefaultConfiguration);
+        container.bind(UserStore).to(FileUserStore).inSingletonScope();
+        container.bind(UserManager).toSelf();
+        return container.get(UserManager);
+    }
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oct-user-store-'));
+        process.env.OCT_USER_STORE_PATH = path.join(tempDir, 'users.json');
+    });
+
+    afterEach(() => {
+        delete process.env.OCT_USER_STORE_PATH;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should assign the same id to the same provider identity', async () => {
+        const first = await createUserManager().registerUser({ name: 'Alice', authProvider: 'Github', providerId: 'github', subject: '42' });
+        const userManager = createUserManager();
+        const second = await userManager.registerUser({ name: 'Alice Smith', email: 'alice@example.com', authProvider: 'Github', providerId: 'github', subject: '42' });
+
+        expect(second.id).toBe(first.id);
+        expect(second).toEqual({ id: first.id, name: 'Alice Smith', email: 'alice@example.com', authProvider: 'Github' });
+        expect(await userManager.getUser(first.id)).toEqual(second);
+    });
+
+    test('should distinguish identities of different providers', async () => {
+        const userManager = createUserManager();
+        const github = await userManager.registerUser({ name: 'Alice', authProvider: 'Github', providerId: 'github', subject: '42' });
+        const google = await userManager.registerUser({ name: 'Alice', authProvider: 'Google', providerId: 'google', subject: '42' });
+
+        expect(google.id).not.toBe(github.id);
+    });
+
+    test('should keep the id of users whose provider has been renamed', async () => {
+        const userManager = createUserManager();
+        const first = await userManager.registerUser({ name: 'Alice', authProvider: 'SSO', providerId: 'https://sso.example.com', subject: '42' });
+        const second = await userManager.registerUser({ name: 'Alice', authProvider: 'Corporate SSO', providerId: 'https://sso.example.com', subject: '42' });
+        // Providers with the same label still identify different users
+        const other = await userManager.registerUser({ name: 'Alice', authProvider: 'Corporate SSO', providerId: 'https://idp.example.org', subject: '42' });
+
+        expect(second.id).toBe(first.id);
+        expect(second.authProvider).toBe('Corporate SSO');
+        expect(other.id).not.toBe(first.id);
+    });
+
+    test('should not persist users without a provider identity', async () => {
+        const userManager = createUserManager();
+        const first = await userManager.registerUser({ name: 'Bob', authProvider: 'Unverified' });
+        const second = await userManager.registerUser({ name: 'Bob', authProvider: 'Unverified' });
+
+        expect(second.id).not.toBe(first.id);
+        expect(await userManager.getUser(first.id)).toBeUndefined();
+    });
+});
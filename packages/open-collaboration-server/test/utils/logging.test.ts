@@ -0,0 +1,93 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { Container, inject, injectable } from 'inversify';
+import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
+import serverModule from '../../src/inversify-module.js';
+import { Logger } from '../../src/utils/logging.js';
+
+@injectable()
+class RoomManagerStub {
+    @inject(Logger) logger: Logger;
+}
+
+@injectable()
+class MessageRelayStub {
+    @inject(Logger) logger: Logger;
+}
+
+describe('Console logger', () => {
+    let tempDir: string;
+    let container: Container;
+
+    function createContainer(): Container {
+        const container = new Container();
+        container.load(serverModule);
+        container.bind(RoomManagerStub).toSelf();
+        container.bind(MessageRelayStub).toSelf();
+        return container;
+    }
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oct-logging-'));
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        vi.spyOn(console, 'debug').mockImplementation(() => { });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        delete process.env.LOG_LEVEL;
+        delete process.env.LOG_FORMAT;
+        delete process.env.LOG_MODULE_LEVELS;
+        delete process.env.LOG_FILE;
+        vi.restoreAllMocks();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should print structured JSON records', () => {
+        process.env.LOG_FORMAT = 'json';
+        container = createContainer();
+        const logger = container.get(RoomManagerStub).logger;
+        logger.withContext({ roomId: 'room', peerId: 'peer' }).withContext({ userId: 'alice' }).info('Peer joined');
+        const record = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+        expect(record).toMatchObject({
+            level: 'info',
+            module: 'RoomManagerStub',
+            message: 'Peer joined',
+            roomId: 'room',
+            peerId: 'peer',
+            userId: 'alice'
+        });
+        logger.error('Failed', new Error('Broken'));
+        const errorRecord = JSON.parse(vi.mocked(console.error).mock.calls[0][0] as string);
+        expect(errorRecord.errors[0]).toMatchObject({ name: 'Error', message: 'Broken' });
+    });
+
+    test('should apply module log levels', () => {
+        process.env.LOG_LEVEL = 'info';
+        process.env.LOG_MODULE_LEVELS = 'RoomManagerStub=debug, MessageRelayStub=none';
+        container = createContainer();
+        container.get(RoomManagerStub).logger.debug('Room debug');
+        container.get(MessageRelayStub).logger.info('Relay info');
+        container.get<Logger>(Logger).debug('Root debug');
+        expect(vi.mocked(console.debug).mock.calls).toEqual([['Room debug']]);
+        expect(console.log).not.toHaveBeenCalled();
+    });
+
+    test('should write records to the log file', async () => {
+        process.env.LOG_FILE = path.join(tempDir, 'server.log');
+        container = createContainer();
+        const logger = container.get(RoomManagerStub).logger;
+        logger.info('Room %s created', 'room');
+        await vi.waitFor(() => {
+            expect(fs.readFileSync(process.env.LOG_FILE!, 'utf8')).toMatch(/^\S+ INFO \[RoomManagerStub\] Room room created\n$/);
+        });
+    });
+});
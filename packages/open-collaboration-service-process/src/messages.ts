@@ -108,7 +108,8 @@ export const UpdateDocumentContent = new NotificationType2<string, TextDocumentI
 /**
  * A request to the application to open the provided URL
  * the token can be used to authenticate the user
- * params: [token]
+ * When using the device flow, the application should instead display the `userCode` and `verificationUrl` of the metadata
+ * params: [token, auth metadata]
  */
 
 export const Authentication = new NotificationType2<string, types.AuthMetadata>('authentication');
@@ -17,7 +17,8 @@ initializeProtocol({
 
 program
     .option('--server-address <server-address>', 'The address of the server to connect to')
-    .option('--auth-token <auth-token>', 'The authentication token to use if available');
+    .option('--auth-token <auth-token>', 'The authentication token to use if available. Can also be a personal access token. Defaults to the OCT_TOKEN environment variable')
+    .option('--device-flow', 'Log in using a user code that can be entered on any device. The code is part of the authentication notification');
 
 program.parse();
 
@@ -36,7 +37,8 @@ const connectionProvider = new ConnectionProvider({
     },
     transports: [SocketIoTransportProvider],
     url: args.serverAddress  ?? '',
-    userToken: args.authToken
+    userToken: args.authToken ?? process.env.OCT_TOKEN,
+    useDeviceFlow: Boolean(args.deviceFlow)
 });
 
 new MessageHandler(connectionProvider, communicationHandler);
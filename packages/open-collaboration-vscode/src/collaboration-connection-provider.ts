@@ -27,7 +27,10 @@ export class CollaborationConnectionProvider {
     private fetch: typeof fetch;
 
     async createConnection(serverUrl: string): Promise<ConnectionProvider> {
-        const userToken = await this.secretStorage.retrieveUserToken(serverUrl);
+        const [userToken, refreshToken] = await Promise.all([
+            this.secretStorage.retrieveUserToken(serverUrl),
+            this.secretStorage.retrieveRefreshToken(serverUrl)
+        ]);
         return new ConnectionProvider({
             url: serverUrl,
             client: `OCT_CODE_${vscode.env.appName.replace(/[\s\-_]+/g, '_')}@${packageVersion}`,
@@ -59,8 +62,13 @@ export class CollaborationConnectionProvider {
                 }
                 return false;
             },
+            tokenHandler: async (userToken, refreshToken) => {
+                await this.secretStorage.storeUserToken(serverUrl, userToken);
+                await this.secretStorage.storeRefreshToken(serverUrl, refreshToken);
+            },
             transports: [SocketIoTransportProvider],
             userToken,
+            refreshToken,
             fetch: this.fetch
         });
     }
@@ -103,6 +111,7 @@ export class CollaborationConnectionProvider {
             const value = await vscode.window.showInputBox({
                 prompt: localizeInfo(field.label),
                 placeHolder,
+                password: field.secret
             });
             // Test for thruthyness to also test for empty string
             if (value) {
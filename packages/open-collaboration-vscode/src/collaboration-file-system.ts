@@ -9,14 +9,19 @@ import * as vscode from 'vscode';
 import * as Y from 'yjs';
 import { CollaborationUri } from './utils/uri.js';
 
+/**
+ * `vscode.FilePermission` is only available since VS Code 1.77, older versions cannot mark single files as read-only.
+ */
+const FilePermission = (vscode as { FilePermission?: { Readonly: number } }).FilePermission;
+
 export class FileSystemManager implements vscode.Disposable {
 
     private providerRegistration?: vscode.Disposable;
     private fileSystemProvider: CollaborationFileSystemProvider;
     private readOnly = false;
 
-    constructor(connection: ProtocolBroadcastConnection, yjs: Y.Doc, hostId: string) {
-        this.fileSystemProvider = new CollaborationFileSystemProvider(connection, yjs, hostId);
+    constructor(connection: ProtocolBroadcastConnection, yjs: Y.Doc, hostId: string, canWrite: (path: string) => boolean) {
+        this.fileSystemProvider = new CollaborationFileSystemProvider(connection, yjs, hostId, canWrite);
     }
 
     registerFileSystemProvider(readOnly: boolean): void {
@@ -48,15 +53,17 @@ export class CollaborationFileSystemProvider implements vscode.FileSystemProvide
     private connection: ProtocolBroadcastConnection;
     private yjs: Y.Doc;
     private hostId: string;
+    private canWrite: (path: string) => boolean;
 
     private encoder = new TextEncoder();
 
     private onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
 
-    constructor(connection: ProtocolBroadcastConnection, yjs: Y.Doc, hostId: string) {
+    constructor(connection: ProtocolBroadcastConnection, yjs: Y.Doc, hostId: string, canWrite: (path: string) => boolean) {
         this.connection = connection;
         this.yjs = yjs;
         this.hostId = hostId;
+        this.canWrite = canWrite;
     }
 
     onDidChangeFile = this.onDidChangeFileEmitter.event;
@@ -66,6 +73,10 @@ export class CollaborationFileSystemProvider implements vscode.FileSystemProvide
     async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
         const path = this.getHostPath(uri);
         const stat = await this.connection.fs.stat(this.hostId, path);
+        if (FilePermission && !this.canWrite(path)) {
+            // Marks the file as read-only in the editor
+            return { ...stat, permissions: FilePermission.Readonly } as vscode.FileStat;
+        }
         return stat;
     }
     async readDirectory(uri: vscode.Uri): Promise<Array<[string, vscode.FileType]>> {
@@ -74,6 +85,7 @@ export class CollaborationFileSystemProvider implements vscode.FileSystemProvide
         return Object.entries(record);
     }
     createDirectory(uri: vscode.Uri): Promise<void> {
+        this.checkWritable(uri);
         const path = this.getHostPath(uri);
         return this.connection.fs.mkdir(this.hostId, path);
     }
@@ -88,13 +100,17 @@ export class CollaborationFileSystemProvider implements vscode.FileSystemProvide
         }
     }
     writeFile(uri: vscode.Uri, content: Uint8Array, _options: { readonly create: boolean; readonly overwrite: boolean; }): void {
+        this.checkWritable(uri);
         const path = this.getHostPath(uri);
         this.connection.fs.writeFile(this.hostId, path, { content });
     }
     delete(uri: vscode.Uri, _options: { readonly recursive: boolean; }): Promise<void> {
+        this.checkWritable(uri);
         return this.connection.fs.delete(this.hostId, this.getHostPath(uri));
     }
     rename(oldUri: vscode.Uri, newUri: vscode.Uri, _options: { readonly overwrite: boolean; }): Promise<void> {
+        this.checkWritable(oldUri);
+        this.checkWritable(newUri);
         return this.connection.fs.rename(this.hostId, this.getHostPath(oldUri), this.getHostPath(newUri));
     }
 
@@ -102,6 +118,12 @@ export class CollaborationFileSystemProvider implements vscode.FileSystemProvide
         this.onDidChangeFileEmitter.fire(changes);
     }
 
+    protected checkWritable(uri: vscode.Uri): void {
+        if (!this.canWrite(this.getHostPath(uri))) {
+            throw vscode.FileSystemError.NoPermissions(uri);
+        }
+    }
+
     protected getHostPath(uri: vscode.Uri): string {
         // When creating a URI as a guest, we always prepend it with the name of the workspace
         // This just removes the workspace name from the path to get the path expected by the protocol
@@ -16,6 +16,8 @@ import throttle from 'lodash/throttle.js';
 import { inject, injectable, postConstruct } from 'inversify';
 import { removeWorkspaceFolders } from './utils/workspace.js';
 import { CollaborationUri } from './utils/uri.js';
+import { PathSandbox } from './path-sandbox.js';
+import { ExclusionService } from './exclusion-service.js';
 import { userColors } from './utils/package.js';
 
 export interface PeerWithColor extends types.Peer {
@@ -177,11 +179,21 @@ export class CollaborationInstance implements vscode.Disposable {
     private throttles = new Map<string, () => void>();
     private yjsDocuments = new Map<string, YjsNormalizedTextDocument>();
     private _permissions: types.Permissions = { readonly: false };
+    private _host: boolean;
+    private ownPeerId?: string;
+    private workspace?: types.Workspace;
 
     get permissions(): types.Permissions {
         return this._permissions;
     }
 
+    /**
+     * Whether this instance is allowed to change the permissions of the session, i.e. whether it is the host or a co-host.
+     */
+    get canManagePermissions(): boolean {
+        return this._host || this.isCoHost(this.ownPeerId);
+    }
+
     private _following?: string;
     get following(): string | undefined {
         return this._following;
@@ -213,7 +225,18 @@ export class CollaborationInstance implements vscode.Disposable {
         return this.identity.promise;
     }
 
+    /**
+     * Whether this instance currently holds the host role of the session.
+     * The role can be handed over to another peer during the session.
+     */
     get host(): boolean {
+        return this._host;
+    }
+
+    /**
+     * Whether this instance shares its local workspace with the session, i.e. whether it created the session.
+     */
+    get sharesWorkspace(): boolean {
         return this.options.host;
     }
 
@@ -232,10 +255,17 @@ export class CollaborationInstance implements vscode.Disposable {
     @inject(CollaborationInstanceOptions)
     private readonly options: CollaborationInstanceOptions;
 
+    @inject(PathSandbox)
+    private readonly pathSandbox: PathSandbox;
+
+    @inject(ExclusionService)
+    private readonly exclusions: ExclusionService;
+
     private fileSystemManager?: FileSystemManager;
 
     @postConstruct()
     protected init(): void {
+        this._host = this.options.host;
         if (this.options.host) {
             // The host is always ready
             this._ready.resolve();
@@ -243,10 +273,12 @@ export class CollaborationInstance implements vscode.Disposable {
         CollaborationInstance.Current = this;
         const connection = this.options.connection;
         this.yjsProvider = new OpenCollaborationYjsProvider(connection, this.yjs, this.yjsAwareness, {
-            resyncTimer: 10_000 // resync every 10 seconds
+            resyncTimer: 10_000, // resync every 10 seconds
+            // Discard changes of guests that are not allowed to modify all of the updated documents
+            acceptUpdates: (origin, documents) => this.isHostPeer(origin) || documents.every(path => types.Permissions.canWrite(this._permissions, origin, path))
         });
         if (this.options.hostId) {
-            this.fileSystemManager = new FileSystemManager(connection, this.yjs, this.options.hostId);
+            this.fileSystemManager = new FileSystemManager(connection, this.yjs, this.options.hostId, path => this.canWrite(path));
             this.toDispose.push(this.fileSystemManager);
         }
         this.yjsProvider.connect();
@@ -281,12 +313,9 @@ export class CollaborationInstance implements vscode.Disposable {
             const allow = vscode.l10n.t('Allow');
             const deny = vscode.l10n.t('Deny');
             const result = await vscode.window.showInformationMessage(message, allow, deny);
-            const roots = vscode.workspace.workspaceFolders ?? [];
             return result === allow ? {
-                workspace: {
-                    name: vscode.workspace.name ?? 'Collaboration',
-                    folders: roots.map(e => e.name)
-                }
+                workspace: this.getSharedWorkspace(),
+                workspaceOwner: this.sharesWorkspace ? undefined : this.options.hostId
             } : undefined;
         });
         connection.peer.onInit(async (_, initData) => {
@@ -295,24 +324,30 @@ export class CollaborationInstance implements vscode.Disposable {
         connection.room.onJoin(async (_, peer) => {
             if (this.host) {
                 // Only initialize the user if we are the host
-                const roots = vscode.workspace.workspaceFolders ?? [];
+                const identity = await this.identity.promise;
+                // After a host handover, the workspace (and thereby the file system) is still provided by its owner
+                const owner = this.sharesWorkspace ? identity : this.peers.get(this.options.hostId!)?.peer ?? identity;
                 const initData: types.InitData = {
                     protocol: types.VERSION,
-                    host: await this.identity.promise,
-                    guests: Array.from(this.peers.values()).map(e => e.peer),
+                    host: owner,
+                    guests: [identity, ...Array.from(this.peers.values()).map(e => e.peer)].filter(e => e.id !== owner.id),
                     capabilities: {},
                     permissions: this._permissions,
-                    workspace: {
-                        name: vscode.workspace.name ?? 'Collaboration',
-                        folders: roots.map(e => e.name)
-                    }
+                    workspace: this.getSharedWorkspace()
                 };
                 connection.peer.init(peer.id, initData);
             }
             this.peers.set(peer.id, new DisposablePeer(this.yjsAwareness, peer));
             this.onDidUsersChangeEmitter.fire();
         });
-        connection.room.onLeave(async (_, peer) => {
+        connection.room.onLeave(async (_, peer, reason) => {
+            if (reason && peer.id === (await this.identity.promise).id) {
+                const message = reason === 'banned'
+                    ? vscode.l10n.t('You have been banned from the collaboration session')
+                    : vscode.l10n.t('You have been removed from the collaboration session');
+                vscode.window.showInformationMessage(message);
+                return;
+            }
             const disposable = this.peers.get(peer.id);
             if (disposable) {
                 disposable.dispose();
@@ -321,6 +356,20 @@ export class CollaborationInstance implements vscode.Disposable {
             }
             this.rerenderPresence();
         });
+        connection.room.onHostChange(async (_, host) => {
+            for (const { peer } of this.peers.values()) {
+                peer.host = peer.id === host.id;
+            }
+            const identity = await this.identity.promise;
+            identity.host = identity.id === host.id;
+            if (this._host !== identity.host) {
+                this._host = identity.host;
+                if (this._host) {
+                    vscode.window.showInformationMessage(vscode.l10n.t('You are now the host of the collaboration session'));
+                }
+            }
+            this.onDidUsersChangeEmitter.fire();
+        });
         connection.room.onClose(async () => {
             if (!this.options.host) {
                 vscode.window.showInformationMessage(vscode.l10n.t('Collaboration session closed'));
@@ -328,11 +377,29 @@ export class CollaborationInstance implements vscode.Disposable {
                 this.dispose();
             }
         });
-        connection.room.onPermissions((_, permissions) => {
+        connection.room.onPermissions((origin, permissions) => {
+            if (!this.isHostPeer(origin) && !this.isCoHost(origin)) {
+                return;
+            }
             this._permissions = permissions;
-            this.fileSystemManager?.registerFileSystemProvider(permissions.readonly);
+            this.fileSystemManager?.registerFileSystemProvider(!this.canWrite());
+        });
+        connection.room.onRoleUpdate((origin, peerId, role) => {
+            if (!this.isHostPeer(origin) && !this.isCoHost(origin)) {
+                return;
+            }
+            this._permissions = {
+                ...this._permissions,
+                roles: {
+                    ...this._permissions.roles,
+                    [peerId]: role
+                }
+            };
+            this.fileSystemManager?.registerFileSystemProvider(!this.canWrite());
+            this.onDidUsersChangeEmitter.fire();
         });
         connection.peer.onInfo((_, peer) => {
+            this.ownPeerId = peer.id;
             this.yjsAwareness.setLocalStateField('peer', peer.id);
             this.identity.resolve(peer);
             this.onDidUsersChangeEmitter.fire();
@@ -345,69 +412,60 @@ export class CollaborationInstance implements vscode.Disposable {
     private registerFileEvents() {
         const connection = this.connection;
         connection.fs.onStat(async (_, path) => {
-            const uri = CollaborationUri.getResourceUri(path);
-            if (uri) {
+            const stat = await this.readResource(path, async uri => {
                 const stat = await vscode.workspace.fs.stat(uri);
-                return {
-                    type: stat.type === vscode.FileType.Directory ? types.FileType.Directory : types.FileType.File,
-                    mtime: stat.mtime,
-                    ctime: stat.ctime,
-                    size: stat.size
-                };
-            } else {
-                throw new Error('Could not stat file');
-            }
+                if (stat.type === vscode.FileType.Directory && this.isExcluded(path, true)) {
+                    throw this.createNotFoundError(path);
+                }
+                return stat;
+            });
+            return {
+                type: stat.type === vscode.FileType.Directory ? types.FileType.Directory : types.FileType.File,
+                mtime: stat.mtime,
+                ctime: stat.ctime,
+                size: stat.size
+            };
         });
         connection.fs.onReaddir(async (_, path) => {
-            const uri = CollaborationUri.getResourceUri(path);
-            if (uri) {
-                const result = await vscode.workspace.fs.readDirectory(uri);
-                return result.reduce((acc, [name, type]) => { acc[name] = type; return acc; }, {} as types.FileSystemDirectory);
-            } else {
-                throw new Error('Could not read directory');
-            }
+            const result = await this.readResource(path, uri => {
+                if (this.isExcluded(path, true)) {
+                    throw this.createNotFoundError(path);
+                }
+                return vscode.workspace.fs.readDirectory(uri);
+            });
+            return result
+                .filter(([name, type]) => !this.isExcluded(`${path}/${name}`, type === vscode.FileType.Directory))
+                .reduce((acc, [name, type]) => { acc[name] = type; return acc; }, {} as types.FileSystemDirectory);
         });
         connection.fs.onReadFile(async (_, path) => {
-            const uri = CollaborationUri.getResourceUri(path);
-            if (uri) {
-                const content = await vscode.workspace.fs.readFile(uri);
-                return {
-                    content
-                };
-            } else {
-                throw new Error('Could not read file');
-            }
+            const content = await this.readResource(path, uri => vscode.workspace.fs.readFile(uri));
+            return {
+                content
+            };
         });
-        connection.fs.onDelete(async (_, path) => {
-            const uri = CollaborationUri.getResourceUri(path);
-            if (uri) {
-                await vscode.workspace.fs.delete(uri, { recursive: true });
-            } else {
-                throw new Error('Could not delete file');
-            }
+        connection.fs.onDelete(async (origin, path) => {
+            const uri = await this.readResource(path, async uri => uri);
+            this.checkWritePermission(origin, path);
+            await vscode.workspace.fs.delete(uri, { recursive: true });
         });
-        connection.fs.onRename(async (_, oldPath, newPath) => {
-            const oldUri = CollaborationUri.getResourceUri(oldPath);
-            const newUri = CollaborationUri.getResourceUri(newPath);
-            if (oldUri && newUri) {
-                await vscode.workspace.fs.rename(oldUri, newUri, { overwrite: true });
-            } else {
-                throw new Error('Could not rename file');
-            }
+        connection.fs.onRename(async (origin, oldPath, newPath) => {
+            const oldUri = await this.readResource(oldPath, async uri => uri);
+            // The target might be a file or a directory
+            const newUri = await this.resolveResource(newPath);
+            this.checkWritePermission(origin, oldPath);
+            this.checkWritePermission(origin, newPath);
+            await vscode.workspace.fs.rename(oldUri, newUri, { overwrite: true });
         });
-        connection.fs.onMkdir(async (_, path) => {
-            const uri = CollaborationUri.getResourceUri(path);
-            if (uri) {
-                await vscode.workspace.fs.createDirectory(uri);
-            } else {
-                throw new Error('Could not create directory');
-            }
+        connection.fs.onMkdir(async (origin, path) => {
+            const uri = await this.resolveResource(path, true);
+            this.checkWritePermission(origin, path);
+            await vscode.workspace.fs.createDirectory(uri);
         });
         connection.fs.onChange(async (_, changes) => {
             if (this.fileSystemManager) {
                 const vscodeChanges: vscode.FileChangeEvent[] = [];
                 for (const change of changes.changes) {
-                    const uri = CollaborationUri.getResourceUri(change.path);
+                    const uri = this.getPeerResourceUri(change.path);
                     if (uri) {
                         vscodeChanges.push({
                             type: this.convertChangeType(change.type),
@@ -418,31 +476,115 @@ export class CollaborationInstance implements vscode.Disposable {
                 this.fileSystemManager.triggerChangeEvent(vscodeChanges);
             }
         });
-        connection.fs.onWriteFile(async (_, path, content) => {
-            const uri = CollaborationUri.getResourceUri(path);
-            if (uri) {
-                const document = this.findDocument(uri);
-                if (document) {
-                    const textContent = new TextDecoder().decode(content.content);
-                    // In case the supplied content differs from the current document content, apply the change first
-                    if (textContent !== document.getText()) {
-                        await this.applyEdit([], () => {
-                            const doc = this.findDocument(uri);
-                            if (!doc) {
-                                return undefined;
-                            }
-                            this.createFullDocumentEdit(doc, textContent);
-                        });
-                    }
-                    // Then save the document
-                    await document.save();
-                } else {
-                    await vscode.workspace.fs.writeFile(uri, content.content);
+        connection.fs.onWriteFile(async (origin, path, content) => {
+            const uri = await this.resolveResource(path, false);
+            this.checkWritePermission(origin, path);
+            const document = this.findDocument(uri);
+            if (document) {
+                const textContent = new TextDecoder().decode(content.content);
+                // In case the supplied content differs from the current document content, apply the change first
+                if (textContent !== document.getText()) {
+                    await this.applyEdit([], () => {
+                        const doc = this.findDocument(uri);
+                        if (!doc) {
+                            return undefined;
+                        }
+                        this.createFullDocumentEdit(doc, textContent);
+                    });
                 }
+                // Then save the document
+                await document.save();
+            } else {
+                await vscode.workspace.fs.writeFile(uri, content.content);
             }
         });
     }
 
+    private getSharedWorkspace(): types.Workspace {
+        if (!this.sharesWorkspace && this.workspace) {
+            return this.workspace;
+        }
+        const roots = vscode.workspace.workspaceFolders ?? [];
+        return {
+            name: vscode.workspace.name ?? 'Collaboration',
+            folders: roots.map(e => e.name)
+        };
+    }
+
+    private isHostPeer(peerId: string): boolean {
+        return this.peers.get(peerId)?.peer.host ?? false;
+    }
+
+    private isCoHost(peerId?: string): boolean {
+        return !!peerId && types.Permissions.getRole(this._permissions, peerId) === 'co-host';
+    }
+
+    /**
+     * Resolves a resource that another peer wants to access and runs the given read operation on it.
+     * Excluded resources result in the same error as missing resources, so that other peers cannot tell them apart.
+     */
+    private async readResource<T>(path: string, read: (uri: vscode.Uri) => Thenable<T>): Promise<T> {
+        const uri = await this.resolveResource(path, false);
+        try {
+            return await read(uri);
+        } catch (err) {
+            if (err instanceof vscode.FileSystemError && err.code === 'FileNotFound') {
+                // Don't expose the local file system path of the host
+                throw this.createNotFoundError(path);
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Resolves a resource that another peer wants to access, create or modify.
+     * If it is unknown whether the resource is a directory, it must not be excluded either as file or as directory.
+     */
+    private async resolveResource(path: string, directory?: boolean): Promise<vscode.Uri> {
+        const uri = await this.pathSandbox.resolve(path);
+        await this.exclusions.ready();
+        const excluded = directory === undefined
+            ? this.isExcluded(path, false) || this.isExcluded(path, true)
+            : this.isExcluded(path, directory);
+        if (excluded) {
+            throw this.createNotFoundError(path);
+        }
+        return uri;
+    }
+
+    private createNotFoundError(path: string): vscode.FileSystemError {
+        return vscode.FileSystemError.FileNotFound(path);
+    }
+
+    /**
+     * Whether the given path is hidden from other peers.
+     * Only applies to the instance that shares its workspace.
+     */
+    private isExcluded(path: string, directory = false): boolean {
+        if (!this.options.host) {
+            return false;
+        }
+        return this.exclusions.isExcluded(types.normalizeProtocolPath(path) ?? path, directory);
+    }
+
+    /**
+     * Rejects mutating file system requests of guests that are not allowed to modify the given path.
+     */
+    private checkWritePermission(origin: string, path: string): void {
+        const normalizedPath = types.normalizeProtocolPath(path) ?? path;
+        if (!this.isHostPeer(origin) && !types.Permissions.canWrite(this._permissions, origin, normalizedPath)) {
+            throw new types.PermissionDeniedError(`Modifying '${path}' is not permitted`, [path]);
+        }
+    }
+
+    /**
+     * Determines whether the own peer is allowed to modify the given path.
+     * If no path is given, determines whether the own peer is allowed to modify any path at all.
+     */
+    canWrite(path?: string): boolean {
+        return this._host || types.Permissions.canWrite(this._permissions, this.ownPeerId ?? '', path);
+    }
+
     private convertChangeType(type: types.FileChangeEventType): vscode.FileChangeType {
         switch (type) {
             case types.FileChangeEventType.Create:
@@ -459,6 +601,18 @@ export class CollaborationInstance implements vscode.Disposable {
         this.connection.room.updatePermissions(this._permissions);
     }
 
+    setRole(peerId: string, role: types.PeerRole): void {
+        this._permissions = {
+            ...this._permissions,
+            roles: {
+                ...this._permissions.roles,
+                [peerId]: role
+            }
+        };
+        this.connection.room.updateRole(peerId, role);
+        this.onDidUsersChangeEmitter.fire();
+    }
+
     async leave(): Promise<void> {
         try {
             await this.connection.room.leave();
@@ -493,18 +647,16 @@ export class CollaborationInstance implements vscode.Disposable {
     private registerEditorEvents() {
 
         this.connection.editor.onOpen(async (_, path) => {
-            const uri = CollaborationUri.getResourceUri(path);
-            if (uri) {
-                await vscode.workspace.openTextDocument(uri);
-            } else {
-                throw new Error('Could not open file');
-            }
+            await this.readResource(path, uri => vscode.workspace.openTextDocument(uri));
         });
 
-        vscode.workspace.textDocuments.forEach(document => {
-            if (!this.isNotebookCell(document)) {
-                this.registerTextDocument(document);
-            }
+        // Exclusions need to be known before sharing the content of any document
+        this.exclusions.ready().then(() => {
+            vscode.workspace.textDocuments.forEach(document => {
+                if (!this.isNotebookCell(document)) {
+                    this.registerTextDocument(document);
+                }
+            });
         });
 
         this.toDispose.push(vscode.workspace.onDidOpenTextDocument(document => {
@@ -543,8 +695,8 @@ export class CollaborationInstance implements vscode.Disposable {
             this.updateTextSelection(event.textEditor);
         }));
 
-        if (this.host) {
-            // Only the host should create the watcher
+        if (this.options.host) {
+            // Only the peer that shares its workspace should create the watcher
             this.createFileWatcher();
         }
 
@@ -575,7 +727,7 @@ export class CollaborationInstance implements vscode.Disposable {
         });
         const pushChange = (uri: vscode.Uri, type: types.FileChangeEventType) => {
             const path = CollaborationUri.getProtocolPath(uri);
-            if (path) {
+            if (path && !this.isExcluded(path)) {
                 queue.push({
                     path,
                     type
@@ -618,8 +770,14 @@ export class CollaborationInstance implements vscode.Disposable {
     }
 
     private async followSelection(selection: types.ClientTextSelection): Promise<void> {
-        const uri = CollaborationUri.getResourceUri(selection.path);
-        if (uri && selection.visibleRanges && selection.visibleRanges.length > 0) {
+        let uri: vscode.Uri;
+        try {
+            // The followed peer might publish paths outside of the workspace
+            uri = await this.pathSandbox.resolve(selection.path);
+        } catch {
+            return;
+        }
+        if (selection.visibleRanges && selection.visibleRanges.length > 0) {
             let editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === uri.toString());
             if (!editor) {
                 const document = await vscode.workspace.openTextDocument(uri);
@@ -638,7 +796,7 @@ export class CollaborationInstance implements vscode.Disposable {
         }
         const uri = editor.document.uri;
         const path = CollaborationUri.getProtocolPath(uri);
-        if (path) {
+        if (path && !this.isExcluded(path)) {
             const ytext = this.yjs.getText(path);
             const normalizedDocument = this.getNormalizedDocument(editor.document, path);
             const selections: types.RelativeTextSelection[] = [];
@@ -678,10 +836,10 @@ export class CollaborationInstance implements vscode.Disposable {
     private registerTextDocument(document: vscode.TextDocument): void {
         const uri = document.uri;
         const path = CollaborationUri.getProtocolPath(uri);
-        if (path) {
+        if (path && !this.isExcluded(path)) {
             const text = document.getText();
             const normalizedDocument = this.getNormalizedDocument(document, path);
-            if (this.host) {
+            if (this.options.host) {
                 normalizedDocument.update({
                     changes: text
                 });
@@ -700,7 +858,7 @@ export class CollaborationInstance implements vscode.Disposable {
         }
         const uri = event.document.uri;
         const path = CollaborationUri.getProtocolPath(uri);
-        if (path) {
+        if (path && !this.isExcluded(path)) {
             if (this.resyncing.has(path)) {
                 // Don't update the Yjs document if we are resyncing
                 return;
@@ -726,7 +884,7 @@ export class CollaborationInstance implements vscode.Disposable {
         if (value) {
             return value;
         }
-        const uri = CollaborationUri.getResourceUri(path);
+        const uri = this.getPeerResourceUri(path);
         if (uri) {
             value = debounce(async () => {
                 const document = this.findDocument(uri);
@@ -778,6 +936,15 @@ export class CollaborationInstance implements vscode.Disposable {
         return success;
     }
 
+    /**
+     * Converts a path that might have been supplied by another peer to a resource URI.
+     * Returns `undefined` for paths that might point outside of the workspace folders.
+     */
+    private getPeerResourceUri(path: string): vscode.Uri | undefined {
+        const normalizedPath = types.normalizeProtocolPath(path);
+        return normalizedPath ? CollaborationUri.getResourceUri(normalizedPath) : undefined;
+    }
+
     private findDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
         return vscode.workspace.textDocuments.find(e => e.uri.toString() === uri.toString());
     }
@@ -811,7 +978,7 @@ export class CollaborationInstance implements vscode.Disposable {
     private renderTextPresence(peer: DisposablePeer, selection: types.ClientTextSelection): void {
         const nameTagVisible = peer.lastUpdated !== undefined && Date.now() - peer.lastUpdated < 1900;
         const { path, textSelections } = selection;
-        const uri = CollaborationUri.getResourceUri(path);
+        const uri = this.getPeerResourceUri(path);
         const editorsToRemove = new Set(vscode.window.visibleTextEditors);
         if (uri) {
             const editors = vscode.window.visibleTextEditors.filter(e => e.document.uri.toString() === uri.toString());
@@ -927,7 +1094,8 @@ export class CollaborationInstance implements vscode.Disposable {
             this.peers.set(peer.id, new DisposablePeer(this.yjsAwareness, peer));
         }
         this._permissions = data.permissions;
-        this.fileSystemManager.registerFileSystemProvider(data.permissions.readonly);
+        this.workspace = data.workspace;
+        this.fileSystemManager.registerFileSystemProvider(!this.canWrite());
         this.onDidUsersChangeEmitter.fire();
         this._ready.resolve();
     }
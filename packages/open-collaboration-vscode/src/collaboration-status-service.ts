@@ -42,10 +42,14 @@ export class CollaborationStatusService {
             this.setState(instance.host ? StatusBarState.Sharing : StatusBarState.Connected);
             this.viewDataProvider.onConnection(instance);
             this.contextKeyService.setConnection(instance);
+            instance.onDidUsersChange(() => {
+                // The host role might have been handed over
+                this.contextKeyService.setConnection(instance);
+            });
             instance.onDidDispose(() => {
                 this.setState(StatusBarState.Idle);
                 this.contextKeyService.setConnection(undefined);
-                if (!instance.host) {
+                if (!instance.sharesWorkspace) {
                     closeSharedEditors();
                     removeWorkspaceFolders();
                 }
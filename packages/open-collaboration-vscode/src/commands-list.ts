@@ -7,6 +7,9 @@
 export namespace OctCommands {
     export const FollowPeer = 'oct.followPeer';
     export const StopFollowPeer = 'oct.stopFollowPeer';
+    export const PromoteToHost = 'oct.promoteToHost';
+    export const KickPeer = 'oct.kickPeer';
+    export const BanPeer = 'oct.banPeer';
     export const Enter = 'oct.enter';
     export const JoinRoom = 'oct.joinRoom';
     export const CreateRoom = 'oct.createRoom';
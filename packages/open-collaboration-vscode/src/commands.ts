@@ -5,6 +5,7 @@
 // ******************************************************************************
 
 import * as vscode from 'vscode';
+import * as types from 'open-collaboration-protocol';
 import { inject, injectable } from 'inversify';
 import { FollowService } from './follow-service.js';
 import { CollaborationInstance, PeerWithColor } from './collaboration-instance.js';
@@ -14,6 +15,7 @@ import { ContextKeyService } from './context-key-service.js';
 import { CollaborationRoomService } from './collaboration-room-service.js';
 import { CollaborationStatusService } from './collaboration-status-service.js';
 import { SecretStorage } from './secret-storage.js';
+import { CollaborationConnectionProvider } from './collaboration-connection-provider.js';
 import { RoomUri } from './utils/uri.js';
 import { Settings } from './utils/settings.js';
 import { CodeCommands, OctCommands } from './commands-list.js';
@@ -39,10 +41,31 @@ export class Commands {
     @inject(SecretStorage)
     private secretStorage: SecretStorage;
 
+    @inject(CollaborationConnectionProvider)
+    private connectionProvider: CollaborationConnectionProvider;
+
     initialize(): void {
         this.context.subscriptions.push(
             vscode.commands.registerCommand(OctCommands.FollowPeer, (peer?: PeerWithColor) => this.followService.followPeer(peer?.id)),
             vscode.commands.registerCommand(OctCommands.StopFollowPeer, () => this.followService.unfollowPeer()),
+            vscode.commands.registerCommand(OctCommands.PromoteToHost, async (peer?: PeerWithColor) => {
+                const instance = CollaborationInstance.Current;
+                if (instance?.host && peer) {
+                    await instance.connection.room.promoteHost(peer.id);
+                }
+            }),
+            vscode.commands.registerCommand(OctCommands.KickPeer, async (peer?: PeerWithColor) => {
+                const instance = CollaborationInstance.Current;
+                if (instance?.host && peer) {
+                    await instance.connection.room.kick(peer.id);
+                }
+            }),
+            vscode.commands.registerCommand(OctCommands.BanPeer, async (peer?: PeerWithColor) => {
+                const instance = CollaborationInstance.Current;
+                if (instance?.host && peer) {
+                    await instance.connection.room.kick(peer.id, true);
+                }
+            }),
             vscode.commands.registerCommand(OctCommands.Enter, async () => {
                 await this.openMainQuickpick();
             }),
@@ -58,14 +81,20 @@ export class Commands {
                     await instance.leave();
                     instance.dispose();
                     this.contextKeyService.setConnection(undefined);
-                    if (!instance.host) {
-                        // Close the workspace if the user is not the host
+                    if (!instance.sharesWorkspace) {
+                        // Close the workspace if the user does not share its own workspace
                         await vscode.commands.executeCommand(CodeCommands.CloseFolder);
                     }
                 }
             }),
             vscode.commands.registerCommand(OctCommands.SignOut, async () => {
                 await vscode.commands.executeCommand(OctCommands.CloseConnection);
+                // Revoke the tokens on all servers that we have logged in to
+                const userTokens = await this.secretStorage.retrieveUserTokens();
+                await Promise.all(Object.keys(userTokens).map(async serverUrl => {
+                    const connectionProvider = await this.connectionProvider.createConnection(serverUrl);
+                    await connectionProvider.logout();
+                }));
                 await this.secretStorage.deleteUserTokens();
                 vscode.window.showInformationMessage(vscode.l10n.t('Signed out successfully!'));
             })
@@ -137,12 +166,14 @@ export class Commands {
                 detail: vscode.l10n.t('Copy the invitation code to the clipboard to share with others')
             }
         ];
-        if (instance.host) {
+        if (instance.canManagePermissions) {
             items.push({
                 key: 'update',
                 label: '$(gear) ' + vscode.l10n.t('Configure Collaboration Session'),
                 detail: vscode.l10n.t('Configure the options and permissions of the current session')
             });
+        }
+        if (instance.host) {
             items.push({
                 key: 'stop',
                 label: '$(circle-slash) ' + vscode.l10n.t('Stop Collaboration Session'),
@@ -191,7 +222,7 @@ export class Commands {
     }
 
     async updatePermissions(instance: CollaborationInstance): Promise<void> {
-        const permissions: Array<QuickPickItem<'readonly' | 'readwrite'>> = [];
+        const permissions: Array<QuickPickItem<'readonly' | 'readwrite' | 'roles' | 'paths'>> = [];
         if (instance.permissions.readonly) {
             permissions.push({
                 key: 'readwrite',
@@ -205,13 +236,110 @@ export class Commands {
                 detail: vscode.l10n.t('Prevent all participants from editing the workspace')
             });
         }
+        permissions.push({
+            key: 'roles',
+            label: '$(person) ' + vscode.l10n.t('Change Participant Role'),
+            detail: vscode.l10n.t('Make a participant a viewer, an editor or a co-host')
+        }, {
+            key: 'paths',
+            label: '$(file-submodule) ' + vscode.l10n.t('Edit Path Rules'),
+            detail: vscode.l10n.t('Make specific files or folders read-only or writable')
+        });
         const result = await showQuickPick(permissions, {
             placeholder: vscode.l10n.t('Select Permissions')
         });
         if (result === 'readonly') {
-            instance.setPermissions({ readonly: true });
+            instance.setPermissions({ ...instance.permissions, readonly: true });
         } else if (result === 'readwrite') {
-            instance.setPermissions({ readonly: false });
+            instance.setPermissions({ ...instance.permissions, readonly: false });
+        } else if (result === 'roles') {
+            await this.updateRole(instance);
+        } else if (result === 'paths') {
+            await this.updatePathRules(instance);
+        }
+    }
+
+    private async updateRole(instance: CollaborationInstance): Promise<void> {
+        const self = await instance.ownUserData;
+        const users = await instance.connectedUsers;
+        const peerId = await showQuickPick(users.filter(user => user.id !== self.id && !user.host).map(user => ({
+            key: user.id,
+            label: user.name,
+            description: this.getRoleLabel(types.Permissions.getRole(instance.permissions, user.id))
+        })), {
+            placeholder: vscode.l10n.t('Select Participant')
+        });
+        if (!peerId) {
+            return;
+        }
+        const roles: types.PeerRole[] = ['viewer', 'editor', 'co-host'];
+        const role = await showQuickPick(roles.map(role => ({
+            key: role,
+            label: this.getRoleLabel(role)
+        })), {
+            placeholder: vscode.l10n.t('Select Role')
+        });
+        if (role) {
+            instance.setRole(peerId, role);
+        }
+    }
+
+    private getRoleLabel(role?: types.PeerRole): string {
+        switch (role) {
+            case 'viewer':
+                return vscode.l10n.t('Viewer');
+            case 'editor':
+                return vscode.l10n.t('Editor');
+            case 'co-host':
+                return vscode.l10n.t('Co-Host');
+        }
+        return '';
+    }
+
+    private async updatePathRules(instance: CollaborationInstance): Promise<void> {
+        const pathRules = instance.permissions.pathRules ?? [];
+        const items: Array<QuickPickItem<number>> = pathRules.map((rule, index) => ({
+            key: index,
+            label: (rule.readonly ? '$(lock) ' : '$(unlock) ') + rule.pattern,
+            description: rule.readonly ? vscode.l10n.t('Read-Only') : vscode.l10n.t('Writable'),
+            detail: vscode.l10n.t('Select to remove this rule')
+        }));
+        items.push({
+            key: -1,
+            label: '$(add) ' + vscode.l10n.t('Add Path Rule')
+        });
+        const result = await showQuickPick(items, {
+            placeholder: vscode.l10n.t('Select Path Rule')
+        });
+        if (result === undefined) {
+            return;
+        } else if (result >= 0) {
+            instance.setPermissions({
+                ...instance.permissions,
+                pathRules: pathRules.filter((_, index) => index !== result)
+            });
+            return;
+        }
+        const pattern = await vscode.window.showInputBox({
+            prompt: vscode.l10n.t('Glob pattern relative to the workspace folder, e.g. docs/**')
+        });
+        if (!pattern) {
+            return;
+        }
+        const readonly = await showQuickPick<boolean>([{
+            key: true,
+            label: '$(lock) ' + vscode.l10n.t('Read-Only')
+        }, {
+            key: false,
+            label: '$(unlock) ' + vscode.l10n.t('Writable')
+        }], {
+            placeholder: vscode.l10n.t('Select Permissions')
+        });
+        if (readonly !== undefined) {
+            instance.setPermissions({
+                ...instance.permissions,
+                pathRules: [...pathRules, { pattern, readonly }]
+            });
         }
     }
 }
@@ -22,6 +22,7 @@ export class ContextKeyService {
     setConnection(instance: CollaborationInstance | undefined): void {
         this.set('oct.connection', !!instance);
         this.set('oct.roomId', instance?.roomId);
+        this.set('oct.host', !!instance?.host);
     }
 
     setFollowing(following: boolean): void {
@@ -0,0 +1,95 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as vscode from 'vscode';
+import ignore, { Ignore } from 'ignore';
+import { inject, injectable, postConstruct } from 'inversify';
+import { ExtensionContext } from './inversify.js';
+import { Settings } from './utils/settings.js';
+
+export const OCT_IGNORE_FILE = '.octignore';
+
+/**
+ * Determines which files of the shared workspace are hidden from other peers.
+ * Exclusions are read from the `.octignore` file in the root of each workspace folder (using gitignore syntax)
+ * and from the `oct.excludePatterns` setting.
+ */
+@injectable()
+export class ExclusionService {
+
+    @inject(ExtensionContext)
+    private context: vscode.ExtensionContext;
+
+    private rules = new Map<string, Ignore>();
+    private loading: Promise<void> = Promise.resolve();
+
+    @postConstruct()
+    protected init(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${OCT_IGNORE_FILE}`);
+        watcher.onDidChange(() => this.update());
+        watcher.onDidCreate(() => this.update());
+        watcher.onDidDelete(() => this.update());
+        this.context.subscriptions.push(
+            watcher,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(Settings.EXCLUDE_PATTERNS)) {
+                    this.update();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.update())
+        );
+        this.update();
+    }
+
+    /**
+     * Resolves once the exclusion rules of all workspace folders have been loaded.
+     */
+    ready(): Promise<void> {
+        return this.loading;
+    }
+
+    /**
+     * Returns whether the given protocol path is hidden from other peers.
+     * Pass `directory` for directories, as gitignore patterns with a trailing slash only match directories.
+     */
+    isExcluded(path: string, directory = false): boolean {
+        const [root, ...segments] = path.split('/');
+        const rules = this.rules.get(root);
+        const relativePath = segments.filter(segment => segment.length > 0).join('/');
+        if (!rules || !relativePath) {
+            return false;
+        }
+        return rules.ignores(directory ? relativePath + '/' : relativePath);
+    }
+
+    protected update(): void {
+        this.loading = this.loadRules().then(rules => {
+            this.rules = rules;
+        });
+    }
+
+    protected async loadRules(): Promise<Map<string, Ignore>> {
+        const rules = new Map<string, Ignore>();
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const folderRules = ignore();
+            folderRules.add(Settings.getExcludePatterns(folder));
+            folderRules.add(await this.readIgnoreFile(folder));
+            rules.set(folder.name, folderRules);
+        }
+        return rules;
+    }
+
+    protected async readIgnoreFile(folder: vscode.WorkspaceFolder): Promise<string> {
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, OCT_IGNORE_FILE));
+            return new TextDecoder().decode(content);
+        } catch {
+            // The folder doesn't contain an ignore file
+            return '';
+        }
+    }
+
+}
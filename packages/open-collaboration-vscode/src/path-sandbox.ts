@@ -0,0 +1,64 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as vscode from 'vscode';
+import { injectable } from 'inversify';
+import { PermissionDeniedError, normalizeProtocolPath } from 'open-collaboration-protocol';
+import { CollaborationUri } from './utils/uri.js';
+
+/**
+ * Resolves paths requested by other peers to resources of the shared workspace folders.
+ * All file system and editor requests of other peers need to go through the sandbox.
+ */
+@injectable()
+export class PathSandbox {
+
+    /**
+     * Resolves the given protocol path to a resource within the shared workspace folders.
+     * Throws a {@link PermissionDeniedError} for paths that point outside of the workspace folders,
+     * either directly or through a symbolic link.
+     */
+    async resolve(path: string): Promise<vscode.Uri> {
+        const normalizedPath = normalizeProtocolPath(path);
+        const uri = CollaborationUri.getResourceUri(normalizedPath);
+        if (!normalizedPath || !uri) {
+            throw this.createError(path);
+        }
+        const root = vscode.workspace.getWorkspaceFolder(uri);
+        if (!root) {
+            throw this.createError(path);
+        }
+        await this.checkSymbolicLinks(root.uri, normalizedPath.split('/').slice(1), path);
+        return uri;
+    }
+
+    /**
+     * Symbolic links might point outside of the workspace folder.
+     * As their target cannot be resolved in all environments (e.g. in the browser), we don't follow them at all.
+     */
+    protected async checkSymbolicLinks(root: vscode.Uri, segments: string[], path: string): Promise<void> {
+        let current = root;
+        for (const segment of segments) {
+            current = vscode.Uri.joinPath(current, segment);
+            let stat: vscode.FileStat;
+            try {
+                stat = await vscode.workspace.fs.stat(current);
+            } catch {
+                // The remaining segments don't exist yet, e.g. when creating a new file
+                return;
+            }
+            // eslint-disable-next-line no-bitwise
+            if (stat.type & vscode.FileType.SymbolicLink) {
+                throw this.createError(path);
+            }
+        }
+    }
+
+    protected createError(path: string): PermissionDeniedError {
+        return new PermissionDeniedError(`Access to '${path}' is not permitted`, [path]);
+    }
+
+}
@@ -21,6 +21,7 @@ export interface RoomData {
 }
 
 const USER_TOKEN_KEY = 'oct.userTokens';
+const REFRESH_TOKEN_KEY = 'oct.refreshTokens';
 const ROOM_TOKEN_KEY = 'oct.roomToken';
 
 @injectable()
@@ -32,6 +33,7 @@ export class SecretStorage {
     async deleteAll(): Promise<void> {
         await Promise.all([
             this.context.secrets.delete(USER_TOKEN_KEY),
+            this.context.secrets.delete(REFRESH_TOKEN_KEY),
             this.context.secrets.delete(ROOM_TOKEN_KEY)
         ]);
     }
@@ -47,7 +49,10 @@ export class SecretStorage {
     }
 
     async deleteUserTokens(): Promise<void> {
-        await this.context.secrets.delete(USER_TOKEN_KEY);
+        await Promise.all([
+            this.context.secrets.delete(USER_TOKEN_KEY),
+            this.context.secrets.delete(REFRESH_TOKEN_KEY)
+        ]);
     }
 
     async retrieveUserToken(serverUrl: string): Promise<string | undefined> {
@@ -59,6 +64,17 @@ export class SecretStorage {
         return (await this.retrieveJsonToken<UserTokens>(USER_TOKEN_KEY)) ?? {};
     }
 
+    async storeRefreshToken(serverUrl: string, token: string | undefined): Promise<void> {
+        const tokens = (await this.retrieveJsonToken<UserTokens>(REFRESH_TOKEN_KEY)) ?? {};
+        tokens[serverUrl] = token;
+        await this.storeJsonToken(REFRESH_TOKEN_KEY, tokens);
+    }
+
+    async retrieveRefreshToken(serverUrl: string): Promise<string | undefined> {
+        const tokens = (await this.retrieveJsonToken<UserTokens>(REFRESH_TOKEN_KEY)) ?? {};
+        return tokens[serverUrl];
+    }
+
     async consumeRoomData(): Promise<RoomData | undefined> {
         const roomToken = await this.retrieveRoomData();
         // Instantly delete the room token - it will become invalid after the first connection attempt
@@ -25,6 +25,14 @@ export function localizeInfo(info: Info): string {
             return l10n.t('Join request not found');
         case Info.Codes.JoinTimeout:
             return l10n.t('Join request timed out');
+        case Info.Codes.PermissionDenied:
+            return l10n.t('Permission denied');
+        case Info.Codes.LoginNotAllowed:
+            return l10n.t('You are not allowed to log in to this server');
+        case Info.Codes.CreateRoomNotAllowed:
+            return l10n.t('You are not allowed to create sessions on this server');
+        case Info.Codes.JoinRoomNotAllowed:
+            return l10n.t('You are not allowed to join sessions on this server');
         case Info.Codes.PerformingLogin:
             return l10n.t('Performing login');
         case Info.Codes.RoomNotFound:
@@ -47,6 +55,8 @@ export function localizeInfo(info: Info): string {
             return l10n.t('Email');
         case Info.Codes.EmailPlaceholder:
             return l10n.t('Your email that will be shown to the host when joining the session');
+        case Info.Codes.PasswordLabel:
+            return l10n.t('Password');
         case Info.Codes.UsernameLabel:
             return l10n.t('Username');
         case Info.Codes.UsernamePlaceholder:
@@ -12,6 +12,7 @@ export namespace Settings {
     export const SERVER_URL = 'oct.serverUrl';
     export const ALWAYS_ASK_TO_OVERRIDE_SERVER_URL = 'oct.alwaysAskToOverrideServerUrl';
     export const WEB_CLIENT_URL = 'oct.webClientUrl';
+    export const EXCLUDE_PATTERNS = 'oct.excludePatterns';
 
     export function getServerUrl(): string | undefined {
         const url = vscode.workspace.getConfiguration().get(SERVER_URL);
@@ -40,4 +41,9 @@ export namespace Settings {
         return typeof url === 'string' ? url : undefined;
     }
 
+    export function getExcludePatterns(scope?: vscode.ConfigurationScope): string[] {
+        const patterns = vscode.workspace.getConfiguration(undefined, scope).get(EXCLUDE_PATTERNS);
+        return Array.isArray(patterns) ? patterns.filter(pattern => typeof pattern === 'string') : [];
+    }
+
 }
@@ -0,0 +1,90 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+import { ExclusionService } from '../src/exclusion-service.js';
+import { ExtensionContext } from '../src/inversify.js';
+
+// The `vscode` module is only available within the extension host
+const { files, excludePatterns } = vi.hoisted(() => ({
+    files: new Map<string, string>(),
+    excludePatterns: [] as string[]
+}));
+
+vi.mock('vscode', () => {
+    const disposable = { dispose: () => { } };
+    const joinPath = (base: { path: string }, ...segments: string[]) => ({ path: [base.path, ...segments].join('/') });
+    return {
+        Uri: { joinPath },
+        workspace: {
+            workspaceFolders: [{ name: 'root', uri: { path: '/workspace' }, index: 0 }],
+            createFileSystemWatcher: () => ({ onDidChange: () => disposable, onDidCreate: () => disposable, onDidDelete: () => disposable, dispose: () => { } }),
+            onDidChangeConfiguration: () => disposable,
+            onDidChangeWorkspaceFolders: () => disposable,
+            getConfiguration: () => ({ get: () => excludePatterns }),
+            fs: {
+                readFile: async (uri: { path: string }) => {
+                    const content = files.get(uri.path);
+                    if (content === undefined) {
+                        throw new Error('File not found');
+                    }
+                    return new TextEncoder().encode(content);
+                }
+            }
+        }
+    };
+});
+
+vi.mock('../src/inversify.js', () => ({
+    ExtensionContext: Symbol('ExtensionContext')
+}));
+
+describe('ExclusionService', () => {
+
+    async function createService(): Promise<ExclusionService> {
+        const container = new Container();
+        container.bind(ExtensionContext).toConstantValue({ subscriptions: [] });
+        container.bind(ExclusionService).toSelf();
+        const service = container.get(ExclusionService);
+        await service.ready();
+        return service;
+    }
+
+    beforeEach(() => {
+        files.clear();
+        excludePatterns.length = 0;
+    });
+
+    test('should exclude files matching the .octignore file', async () => {
+        files.set('/workspace/.octignore', '.env\n*.pem\n!public.pem\n');
+        const service = await createService();
+        expect(service.isExcluded('root/.env')).toBe(true);
+        expect(service.isExcluded('root/config/server.pem')).toBe(true);
+        expect(service.isExcluded('root/config/public.pem')).toBe(false);
+        expect(service.isExcluded('root/src/index.ts')).toBe(false);
+        // Only paths of known workspace folders are matched
+        expect(service.isExcluded('other/.env')).toBe(false);
+    });
+
+    test('should only match directory patterns against directories', async () => {
+        files.set('/workspace/.octignore', 'secrets/\n');
+        const service = await createService();
+        expect(service.isExcluded('root/secrets', true)).toBe(true);
+        expect(service.isExcluded('root/secrets')).toBe(false);
+        expect(service.isExcluded('root/secrets/key.txt')).toBe(true);
+        // The workspace folder itself is never excluded
+        expect(service.isExcluded('root', true)).toBe(false);
+    });
+
+    test('should apply the exclude patterns setting', async () => {
+        excludePatterns.push('**/*.log');
+        const service = await createService();
+        expect(service.isExcluded('root/logs/server.log')).toBe(true);
+        expect(service.isExcluded('root/README.md')).toBe(false);
+    });
+});
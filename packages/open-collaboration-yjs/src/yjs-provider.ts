@@ -23,6 +23,12 @@ export const LOCAL_ORIGIN = 'local';
 
 export interface YjsProviderOptions {
     resyncTimer?: number;
+    /**
+     * Determines whether document updates of the given peer should be applied.
+     * `documents` contains the keys of all top-level types that the update modifies, i.e. the paths of the modified documents.
+     * Updates of peers that are rejected are discarded. Defaults to accepting all updates.
+     */
+    acceptUpdates?: (origin: string, documents: string[]) => boolean;
 }
 
 export class OpenCollaborationYjsProvider extends ObservableV2<string> {
@@ -30,18 +36,22 @@ export class OpenCollaborationYjsProvider extends ObservableV2<string> {
     private connection: types.ProtocolBroadcastConnection;
     private doc: Y.Doc;
     private awareness: awarenessProtocol.Awareness;
+    private acceptUpdates?: (origin: string, documents: string[]) => boolean;
 
     constructor(connection: types.ProtocolBroadcastConnection, doc: Y.Doc, awareness: awarenessProtocol.Awareness, options?: YjsProviderOptions) {
         super();
         this.connection = connection;
         this.doc = doc;
         this.awareness = awareness;
+        this.acceptUpdates = options?.acceptUpdates;
         this.doc.on('update', this.yjsUpdateHandler.bind(this));
         this.awareness.on('update', this.yjsAwarenessUpdateHandler.bind(this));
 
         connection.sync.onDataUpdate(this.ocpDataUpdateHandler.bind(this));
         connection.sync.onAwarenessUpdate(this.ocpAwarenessUpdateHandler.bind(this));
         connection.sync.onAwarenessQuery(this.ocpAwarenessQueryHandler.bind(this));
+        // The server has dropped updates addressed to this peer
+        connection.sync.onResync(() => this.connect());
         if (options?.resyncTimer && options.resyncTimer > 0) {
             this.setResyncInterval(options.resyncTimer);
         }
@@ -59,6 +69,10 @@ export class OpenCollaborationYjsProvider extends ObservableV2<string> {
     }
 
     private ocpDataUpdateHandler(origin: string, update: types.Binary): void {
+        if (!this.isUpdateAccepted(origin, update)) {
+            // Only answer state requests of the peer, but don't apply any of its changes
+            return;
+        }
         const decoder = this.decode(update);
         const encoder = encoding.createEncoder();
         const syncMessageType = syncProtocol.readSyncMessage(decoder, encoder, this.doc, origin);
@@ -67,6 +81,20 @@ export class OpenCollaborationYjsProvider extends ObservableV2<string> {
         }
     }
 
+    private isUpdateAccepted(origin: string, update: types.Binary): boolean {
+        if (!this.acceptUpdates) {
+            return true;
+        }
+        const decoder = this.decode(update);
+        if (decoding.readVarUint(decoder) === syncProtocol.messageYjsSyncStep1) {
+            return true;
+        }
+        // Both sync step 2 and update messages contain a document update
+        const documents = getModifiedDocuments(this.doc, decoding.readVarUint8Array(decoder));
+        // Reject updates that we cannot attribute to a document, the peer will send them again on the next resync
+        return documents !== undefined && this.acceptUpdates(origin, documents);
+    }
+
     private ocpAwarenessUpdateHandler(origin: string, update: types.Binary): void {
         const decoder = this.decode(update);
         awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), origin);
@@ -130,3 +158,90 @@ export class OpenCollaborationYjsProvider extends ObservableV2<string> {
         return decoding.createDecoder(data);
     }
 }
+
+/**
+ * Determines the keys of the top-level types that are modified by the given update.
+ * Returns `undefined` if the update refers to content that is unknown to the document.
+ */
+function getModifiedDocuments(doc: Y.Doc, update: Uint8Array): string[] | undefined {
+    const { structs, ds } = Y.decodeUpdate(update);
+    const documents = new Set<string>();
+    // Items of the update that have already been attributed to a top-level type
+    const updateItems: Array<{ item: Y.Item, document: string }> = [];
+    const isKnown = (id: Y.ID) => id.clock < Y.getState(doc.store, id.client);
+    const findUpdateItem = (id: Y.ID) => updateItems.find(({ item }) => item.id.client === id.client && item.id.clock <= id.clock && id.clock < item.id.clock + item.length);
+    const findDocument = (id: Y.ID): string | undefined => {
+        if (isKnown(id)) {
+            const item = Y.getItem(doc.store, id);
+            return item instanceof Y.Item && item.parent instanceof Y.AbstractType ? getRootKey(item.parent) : undefined;
+        }
+        return findUpdateItem(id)?.document;
+    };
+    // Items that are already known are skipped when applying the update
+    let pending = structs.filter((struct): struct is Y.Item => struct instanceof Y.Item && !isKnown(Y.createID(struct.id.client, struct.id.clock + struct.length - 1)));
+    while (pending.length > 0) {
+        const unresolved: Y.Item[] = [];
+        for (const item of pending) {
+            const document = findItemDocument(item, findDocument);
+            if (document === undefined) {
+                unresolved.push(item);
+            } else {
+                documents.add(document);
+                updateItems.push({ item, document });
+            }
+        }
+        if (unresolved.length === pending.length) {
+            return undefined;
+        }
+        // Items that are inserted next to other items of the update only reference their neighbors
+        pending = unresolved;
+    }
+    for (const [client, deleteItems] of ds.clients) {
+        for (const { clock, len } of deleteItems) {
+            let current = clock;
+            while (current < clock + len) {
+                const id = Y.createID(client, current);
+                const struct = isKnown(id) ? Y.getItem(doc.store, id) : findUpdateItem(id)?.item;
+                if (!struct) {
+                    return undefined;
+                }
+                // Deleting content that has already been deleted does not modify the document
+                if (struct instanceof Y.Item && !struct.deleted) {
+                    const document = findDocument(id);
+                    if (document === undefined) {
+                        return undefined;
+                    }
+                    documents.add(document);
+                }
+                current = struct.id.clock + struct.length;
+            }
+        }
+    }
+    return Array.from(documents);
+}
+
+function findItemDocument(item: Y.Item, findDocument: (id: Y.ID) => string | undefined): string | undefined {
+    const parent = item.parent;
+    if (typeof parent === 'string') {
+        return parent;
+    } else if (parent instanceof Y.ID) {
+        // Items of nested types reference the item that contains the type
+        return findDocument(parent);
+    }
+    // The parent of items that are inserted next to other items is derived from their neighbors
+    for (const neighbor of [item.origin, item.rightOrigin]) {
+        const document = neighbor ? findDocument(neighbor) : undefined;
+        if (document !== undefined) {
+            return document;
+        }
+    }
+    return undefined;
+}
+
+function getRootKey(type: Y.AbstractType<unknown>): string {
+    let current = type;
+    while (current._item?.parent instanceof Y.AbstractType) {
+        current = current._item.parent;
+    }
+    return Y.findRootTypeKey(current);
+}
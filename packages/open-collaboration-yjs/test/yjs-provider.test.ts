@@ -0,0 +1,121 @@
+// ******************************************************************************
+// Copyright 2025 TypeFox GmbH
+// This program and the accompanying materials are made available under the
+// terms of the MIT License, which is available in the project root.
+// ******************************************************************************
+
+import * as types from 'open-collaboration-protocol';
+import * as Y from 'yjs';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { describe, expect, test } from 'vitest';
+import { OpenCollaborationYjsProvider, YjsProviderOptions } from '../src/yjs-provider.js';
+
+type DataHandler = (origin: string, data: types.Binary) => void;
+
+/**
+ * Implements just enough of the protocol connection to exchange sync messages with the provider.
+ */
+class TestConnection {
+
+    dataHandler?: DataHandler;
+    readonly sent: Array<[string | undefined, types.Binary]> = [];
+
+    readonly sync = {
+        onDataUpdate: (handler: DataHandler) => this.dataHandler = handler,
+        dataUpdate: async (target: string | undefined | types.Binary, data?: types.Binary) => {
+            if (typeof target === 'object') {
+                this.sent.push([undefined, target]);
+            } else {
+                this.sent.push([target, data!]);
+            }
+        },
+        onAwarenessUpdate: () => { },
+        awarenessUpdate: async () => { },
+        onAwarenessQuery: () => { },
+        awarenessQuery: async () => { },
+        onResync: () => { }
+    };
+
+    receive(origin: string, write: (encoder: encoding.Encoder) => void): void {
+        const encoder = encoding.createEncoder();
+        write(encoder);
+        this.dataHandler!(origin, encoding.toUint8Array(encoder));
+    }
+}
+
+describe('Yjs provider', () => {
+
+    function createHost(options: YjsProviderOptions): { doc: Y.Doc, connection: TestConnection } {
+        const doc = new Y.Doc();
+        doc.getText('root/src/index.ts').insert(0, 'source');
+        doc.getText('root/README.md').insert(0, 'readme');
+        const connection = new TestConnection();
+        new OpenCollaborationYjsProvider(connection as unknown as types.ProtocolBroadcastConnection, doc, new awarenessProtocol.Awareness(doc), options);
+        return { doc, connection };
+    }
+
+    function createGuest(host: Y.Doc): Y.Doc {
+        const doc = new Y.Doc();
+        Y.applyUpdate(doc, Y.encodeStateAsUpdate(host));
+        return doc;
+    }
+
+    function captureUpdate(doc: Y.Doc, change: () => void): Uint8Array {
+        let update: Uint8Array | undefined;
+        const handler = (data: Uint8Array) => update = data;
+        doc.on('update', handler);
+        change();
+        doc.off('update', handler);
+        return update!;
+    }
+
+    test('should reject updates to documents that are read-only for the peer', () => {
+        const permissions: types.Permissions = { readonly: false, pathRules: [{ pattern: 'src/**', readonly: true }] };
+        const host = createHost({
+            acceptUpdates: (origin, documents) => documents.every(path => types.Permissions.canWrite(permissions, origin, path))
+        });
+        const guest = createGuest(host.doc);
+
+        // Appending to a text only references the neighboring item, not the text itself
+        const append = captureUpdate(guest, () => guest.getText('root/src/index.ts').insert(6, ' code'));
+        host.connection.receive('guest', encoder => syncProtocol.writeUpdate(encoder, append));
+        const remove = captureUpdate(guest, () => guest.getText('root/src/index.ts').delete(0, 3));
+        host.connection.receive('guest', encoder => syncProtocol.writeUpdate(encoder, remove));
+        expect(host.doc.getText('root/src/index.ts').toString()).toBe('source');
+
+        // Updates that modify a writable and a read-only document are rejected as a whole
+        const mixed = captureUpdate(guest, () => guest.transact(() => {
+            guest.getText('root/README.md').insert(0, '# ');
+            guest.getText('root/src/index.ts').insert(0, '// ');
+        }));
+        host.connection.receive('guest', encoder => syncProtocol.writeUpdate(encoder, mixed));
+        expect(host.doc.getText('root/README.md').toString()).toBe('readme');
+
+        // Use a new client, since the host will not apply updates that depend on previously rejected ones
+        const otherGuest = createGuest(host.doc);
+        const writable = captureUpdate(otherGuest, () => otherGuest.getText('root/README.md').insert(6, '!'));
+        host.connection.receive('guest', encoder => syncProtocol.writeUpdate(encoder, writable));
+        expect(host.doc.getText('root/README.md').toString()).toBe('readme!');
+    });
+
+    test('should answer sync requests of read-only peers', () => {
+        const host = createHost({ acceptUpdates: () => false });
+        const guest = new Y.Doc();
+
+        host.connection.receive('guest', encoder => syncProtocol.writeSyncStep1(encoder, guest));
+
+        expect(host.connection.sent).toHaveLength(1);
+        const [target, reply] = host.connection.sent[0];
+        expect(target).toBe('guest');
+        syncProtocol.readSyncMessage(decoding.createDecoder(reply), encoding.createEncoder(), guest, 'host');
+        expect(guest.getText('root/README.md').toString()).toBe('readme');
+
+        // The state of the peer is still not applied
+        guest.getText('root/README.md').insert(0, '# ');
+        host.connection.receive('guest', encoder => syncProtocol.writeSyncStep2(encoder, guest));
+        expect(host.doc.getText('root/README.md').toString()).toBe('readme');
+    });
+});